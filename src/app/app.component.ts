@@ -3,6 +3,10 @@ import { RouterOutlet, RouterLink, RouterLinkActive } from '@angular/router';
 import { CommonModule } from '@angular/common';
 import { DataService } from './services/data.service';
 import { ExportService } from './services/export.service';
+import { StorageService } from './services/storage.service';
+import { InventorySnapshotService } from './services/inventory-snapshot.service';
+import { AppUpdateService, AvailableUpdate } from './services/app-update.service';
+import { CatalogUpdateReport } from './models/models';
 import { LoadingOverlayComponent } from './components/loading-overlay/loading-overlay.component';
 
 @Component({
@@ -16,10 +20,15 @@ export class AppComponent implements OnInit {
   title = 'Brick Set Inventory Tracker';
   isLoading = true;
   isMobileMenuOpen = false;
+  catalogUpdateReport: CatalogUpdateReport | null = null;
+  availableUpdate: AvailableUpdate | null = null;
 
   constructor(
     private dataService: DataService,
-    private exportService: ExportService
+    private exportService: ExportService,
+    private storageService: StorageService,
+    private snapshotService: InventorySnapshotService, // Pins tracked inventories and detects catalog changes
+    private appUpdateService: AppUpdateService
   ) {}
 
   ngOnInit(): void {
@@ -35,6 +44,37 @@ export class AppComponent implements OnInit {
         this.isLoading = false;
       }
     });
+
+    // Announce catalog updates that changed tracked sets until they are reviewed
+    this.storageService.getState().subscribe(state => {
+      const report = state.catalogUpdateReport;
+      this.catalogUpdateReport = report && !report.dismissed && report.sets.length > 0 ? report : null;
+    });
+
+    this.appUpdateService.getAvailableUpdate().subscribe(update => {
+      this.availableUpdate = update;
+    });
+  }
+
+  /**
+   * Reload into the new app version downloaded by the service worker
+   */
+  applyUpdate(): void {
+    this.appUpdateService.applyUpdate();
+  }
+
+  /**
+   * Keep using the current version until the next visit
+   */
+  dismissUpdate(): void {
+    this.availableUpdate = null;
+  }
+
+  /**
+   * Hide the catalog update banner
+   */
+  dismissCatalogUpdate(): void {
+    this.storageService.dismissCatalogUpdateReport();
   }
 
   /**
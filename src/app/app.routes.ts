@@ -3,9 +3,20 @@ import { Routes } from '@angular/router';
 export const routes: Routes = [
   { path: '', redirectTo: 'home', pathMatch: 'full' },
   { path: 'home', loadComponent: () => import('./components/home/home.component').then(m => m.HomeComponent) },
+  { path: 'sets/:setNum/compare', loadComponent: () => import('./components/version-compare/version-compare.component').then(m => m.VersionCompareComponent) },
+  { path: 'sets/import', loadComponent: () => import('./components/set-import/set-import.component').then(m => m.SetImportComponent) },
   { path: 'sets', loadComponent: () => import('./components/sets/sets.component').then(m => m.SetsComponent) },
+  { path: 'inventory/:id/reconcile', loadComponent: () => import('./components/inventory-reconcile/inventory-reconcile.component').then(m => m.InventoryReconcileComponent) },
   { path: 'inventory/:id', loadComponent: () => import('./components/inventory-detail/inventory-detail.component').then(m => m.InventoryDetailComponent) },
   { path: 'missing-parts', loadComponent: () => import('./components/inventory-detail/inventory-detail.component').then(m => m.InventoryDetailComponent) },
+  { path: 'loose-parts', loadComponent: () => import('./components/loose-parts/loose-parts.component').then(m => m.LoosePartsComponent) },
+  { path: 'buildable/:setNum', loadComponent: () => import('./components/buildable-shortfall/buildable-shortfall.component').then(m => m.BuildableShortfallComponent) },
+  { path: 'buildable', loadComponent: () => import('./components/buildable/buildable.component').then(m => m.BuildableComponent) },
+  { path: 'locations', loadComponent: () => import('./components/locations/locations.component').then(m => m.LocationsComponent) },
+  { path: 'condition-report', loadComponent: () => import('./components/condition-report/condition-report.component').then(m => m.ConditionReportComponent) },
+  { path: 'bricklink-mapping', loadComponent: () => import('./components/bricklink-mapping/bricklink-mapping.component').then(m => m.BrickLinkMappingComponent) },
+  { path: 'finance', loadComponent: () => import('./components/finance/finance.component').then(m => m.FinanceComponent) },
+  { path: 'allocation', loadComponent: () => import('./components/allocation/allocation.component').then(m => m.AllocationComponent) },
   { path: 'settings', loadComponent: () => import('./components/settings/settings.component').then(m => m.SettingsComponent) },
   { path: '**', redirectTo: 'home' }
 ];
@@ -0,0 +1,137 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { RouterLink } from '@angular/router';
+import { Subscription, firstValueFrom } from 'rxjs';
+import { DataService, PartLookups } from '../../services/data.service';
+import { StorageService } from '../../services/storage.service';
+import { AppState, UserInventory } from '../../models/models';
+import { PartAllocation, PartAllocationConflict, allocateParts, getAllocationOrder } from '../../utils/part-allocation';
+import { getInventoryDisplayName } from '../../utils/inventory-copies';
+
+/**
+ * Priorities and conflicts of the shared part allocation between tracked sets
+ */
+@Component({
+  selector: 'app-allocation',
+  standalone: true,
+  imports: [CommonModule, RouterLink],
+  templateUrl: './allocation.component.html',
+  styleUrls: ['./allocation.component.css']
+})
+export class AllocationComponent implements OnInit, OnDestroy {
+  enabled = false;
+  orderedInventories: UserInventory[] = [];
+  allocation: PartAllocation | null = null;
+  lookups: PartLookups | null = null;
+
+  private state: AppState | null = null;
+  private stateSubscription: Subscription | null = null;
+  private lookupKeys: string | null = null; // Conflict keys the lookups were loaded for
+  private loadId = 0;
+
+  constructor(
+    private dataService: DataService,
+    private storageService: StorageService
+  ) {}
+
+  ngOnInit(): void {
+    this.stateSubscription = this.storageService.getState().subscribe(state => {
+      this.state = state;
+      this.enabled = state.globalSettings.partAllocationEnabled === true;
+      this.orderedInventories = getAllocationOrder(state);
+      this.allocation = allocateParts(state);
+      this.loadLookups(this.allocation.conflicts);
+    });
+  }
+
+  /**
+   * Part and color details of the conflicts, loaded again only when the
+   * conflicting part/colors change. Only the latest load is applied.
+   */
+  private async loadLookups(conflicts: PartAllocationConflict[]): Promise<void> {
+    const lookupKeys = conflicts.map(conflict => conflict.key).join(';');
+    if (lookupKeys === this.lookupKeys) return;
+    this.lookupKeys = lookupKeys;
+    const loadId = ++this.loadId;
+
+    try {
+      const lookups = await firstValueFrom(this.dataService.getPartLookups(conflicts));
+      if (loadId === this.loadId) this.lookups = lookups;
+    } catch (error) {
+      console.error('Error loading allocation part details:', error);
+      // Try again on the next state change
+      if (loadId === this.loadId) this.lookupKeys = null;
+    }
+  }
+
+  ngOnDestroy(): void {
+    this.stateSubscription?.unsubscribe();
+  }
+
+  enableAllocation(): void {
+    this.storageService.updateGlobalSettings({ partAllocationEnabled: true });
+  }
+
+  /**
+   * Move a set up (-1) or down (+1) in the allocation priority
+   */
+  moveInventory(index: number, offset: number): void {
+    const target = index + offset;
+    if (target < 0 || target >= this.orderedInventories.length) return;
+
+    const ids = this.orderedInventories.map(inv => inv.id);
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    this.storageService.setAllocationOrder(ids);
+  }
+
+  isOverAllocated(inventory: UserInventory): boolean {
+    return !!this.allocation?.overAllocatedInventoryIds.has(inventory.id);
+  }
+
+  hasRecordedStock(conflict: PartAllocationConflict): boolean {
+    return this.state?.partStock?.[conflict.key] !== undefined;
+  }
+
+  setStock(conflict: PartAllocationConflict, value: string | number): void {
+    const quantity = Math.floor(Number(value));
+    if (!Number.isFinite(quantity) || quantity < 0) return;
+    this.storageService.setPartStock(conflict.part_num, conflict.color_id, quantity);
+  }
+
+  /**
+   * Confirm the sets really hold separate parts: own as many as they claim
+   */
+  acceptClaims(conflict: PartAllocationConflict): void {
+    this.storageService.setPartStock(conflict.part_num, conflict.color_id, conflict.claimed);
+  }
+
+  resetStock(conflict: PartAllocationConflict): void {
+    this.storageService.setPartStock(conflict.part_num, conflict.color_id, null);
+  }
+
+  getInventoryName(inventoryId: string): string {
+    const inventory = this.state?.userInventories.find(inv => inv.id === inventoryId);
+    return inventory ? getInventoryDisplayName(inventory) : inventoryId;
+  }
+
+  getInventoryDisplayName(inventory: UserInventory): string {
+    return getInventoryDisplayName(inventory);
+  }
+
+  getPartName(partNum: string): string {
+    return this.lookups?.parts.get(partNum)?.name || partNum;
+  }
+
+  getColorName(colorId: number): string {
+    return this.lookups?.colors.get(colorId)?.name || `Color ${colorId}`;
+  }
+
+  getColorRgb(colorId: number): string {
+    const rgb = this.lookups?.colors.get(colorId)?.rgb;
+    return rgb ? `#${rgb}` : 'transparent';
+  }
+
+  trackConflict(index: number, conflict: PartAllocationConflict): string {
+    return conflict.key;
+  }
+}
@@ -0,0 +1,152 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { RouterLink } from '@angular/router';
+import { Subscription } from 'rxjs';
+import { DataService } from '../../services/data.service';
+import { StorageService } from '../../services/storage.service';
+import { ExportService } from '../../services/export.service';
+import { BrickLinkMapping, Color } from '../../models/models';
+import {
+  BRICKLINK_MAPPING_TYPES, BrickLinkMappingType, DEFAULT_BRICKLINK_COLOR_IDS, formatBrickLinkMappingCsv,
+  getBrickLinkMapping, parseBrickLinkMappingCsv
+} from '../../utils/bricklink';
+
+interface MappingRow {
+  type: BrickLinkMappingType;
+  rebrickableId: string;
+  brickLinkId: string | number;
+  label: string; // Color name, empty for parts and minifigs
+}
+
+/**
+ * Rebrickable to BrickLink part, color and minifig ids used by the wanted list export
+ */
+@Component({
+  selector: 'app-bricklink-mapping',
+  standalone: true,
+  imports: [CommonModule, FormsModule, RouterLink],
+  templateUrl: './bricklink-mapping.component.html',
+  styleUrls: ['./bricklink-mapping.component.css']
+})
+export class BrickLinkMappingComponent implements OnInit, OnDestroy {
+  typeLabels: Record<BrickLinkMappingType, string> = { parts: 'Part', colors: 'Color', minifigs: 'Minifigure' };
+  mappingTypes = BRICKLINK_MAPPING_TYPES;
+  rows: MappingRow[] = [];
+  defaultColorRows: MappingRow[] = [];
+  mapping: BrickLinkMapping = getBrickLinkMapping({});
+
+  // Add an entry
+  newType: BrickLinkMappingType = 'parts';
+  newRebrickableId = '';
+  newBrickLinkId = '';
+  addError = '';
+
+  // Import
+  showImport = false;
+  importText = '';
+  importReplace = false;
+  importErrors: string[] = [];
+  importMessage = '';
+
+  private colorsById = new Map<number, Color>();
+  private stateSubscription: Subscription | null = null;
+
+  constructor(
+    private dataService: DataService,
+    private storageService: StorageService,
+    private exportService: ExportService
+  ) {}
+
+  ngOnInit(): void {
+    this.colorsById = new Map(this.dataService.getCurrentColors().map(color => [color.id, color]));
+    this.stateSubscription = this.storageService.getState().subscribe(state => {
+      this.mapping = getBrickLinkMapping(state);
+      this.buildRows();
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.stateSubscription?.unsubscribe();
+  }
+
+  addEntry(): void {
+    const rebrickableId = this.newRebrickableId.trim();
+    const brickLinkId = this.newBrickLinkId.trim();
+    this.addError = '';
+
+    if (!rebrickableId || !brickLinkId) {
+      this.addError = 'Enter both the Rebrickable and the BrickLink id.';
+      return;
+    }
+
+    if (this.newType === 'colors') {
+      if (!Number.isInteger(Number(rebrickableId)) || !Number.isInteger(Number(brickLinkId))) {
+        this.addError = 'Color ids are numbers.';
+        return;
+      }
+      this.storageService.setBrickLinkMappingEntry('colors', rebrickableId, Number(brickLinkId));
+    } else {
+      this.storageService.setBrickLinkMappingEntry(this.newType, rebrickableId, brickLinkId);
+    }
+
+    this.newRebrickableId = '';
+    this.newBrickLinkId = '';
+  }
+
+  removeEntry(row: MappingRow): void {
+    this.storageService.setBrickLinkMappingEntry(row.type, row.rebrickableId, null);
+  }
+
+  isColorOverridden(rebrickableId: string): boolean {
+    return rebrickableId in this.mapping.colors;
+  }
+
+  async onImportFile(event: Event): Promise<void> {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    if (!file) return;
+
+    this.importText = await file.text();
+    input.value = '';
+  }
+
+  importMapping(): void {
+    const { mapping, count, errors } = parseBrickLinkMappingCsv(this.importText);
+    this.importErrors = errors;
+
+    if (count === 0) {
+      this.importMessage = 'No mapping entries found.';
+      return;
+    }
+    if (this.importReplace && !confirm('Replace all your BrickLink mapping entries with the imported ones?')) return;
+
+    this.storageService.importBrickLinkMapping(mapping, this.importReplace);
+    this.importMessage = `Imported ${count} ${count === 1 ? 'entry' : 'entries'}.`;
+    this.importText = '';
+  }
+
+  exportMapping(): void {
+    this.exportService.downloadFile(
+      formatBrickLinkMappingCsv(this.mapping),
+      `bricklink-mapping-${new Date().toISOString().slice(0, 10)}.csv`,
+      'text/csv'
+    );
+  }
+
+  private buildRows(): void {
+    this.rows = BRICKLINK_MAPPING_TYPES.flatMap(type =>
+      Object.entries(this.mapping[type])
+        .map(([rebrickableId, brickLinkId]) => this.toRow(type, rebrickableId, brickLinkId))
+        .sort((a, b) => a.rebrickableId.localeCompare(b.rebrickableId, undefined, { numeric: true })));
+
+    this.defaultColorRows = Object.entries(DEFAULT_BRICKLINK_COLOR_IDS)
+      .map(([rebrickableId, brickLinkId]) => this.toRow('colors', rebrickableId, brickLinkId))
+      .sort((a, b) => a.label.localeCompare(b.label));
+  }
+
+  private toRow(type: BrickLinkMappingType, rebrickableId: string, brickLinkId: string | number): MappingRow {
+    const label = type === 'colors' ? this.colorsById.get(Number(rebrickableId))?.name || `Color ${rebrickableId}` : '';
+    return { type, rebrickableId, brickLinkId, label };
+  }
+}
@@ -0,0 +1,81 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ActivatedRoute, RouterLink } from '@angular/router';
+import { Subscription, combineLatest, firstValueFrom } from 'rxjs';
+import { DataService, PartLookups } from '../../services/data.service';
+import { BuildabilityService, ShortfallLine } from '../../services/buildability.service';
+import { PartialSet } from '../../models/models';
+
+/**
+ * Parts missing from the user's collection to build one catalog set
+ */
+@Component({
+  selector: 'app-buildable-shortfall',
+  standalone: true,
+  imports: [CommonModule, RouterLink],
+  templateUrl: './buildable-shortfall.component.html',
+  styleUrls: ['./buildable-shortfall.component.css']
+})
+export class BuildableShortfallComponent implements OnInit, OnDestroy {
+  set: PartialSet | undefined;
+  setNum = '';
+  version = 1;
+  lines: ShortfallLine[] = [];
+  lookups: PartLookups | null = null;
+  loading = true;
+
+  private routeSubscription: Subscription | null = null;
+
+  constructor(
+    private route: ActivatedRoute,
+    private dataService: DataService,
+    private buildabilityService: BuildabilityService
+  ) {}
+
+  ngOnInit(): void {
+    this.routeSubscription = combineLatest([this.route.paramMap, this.route.queryParamMap])
+      .subscribe(([params, queryParams]) => {
+        this.setNum = params.get('setNum') || '';
+        this.version = Number(queryParams.get('version')) || 1;
+        this.loadShortfall();
+      });
+  }
+
+  ngOnDestroy(): void {
+    this.routeSubscription?.unsubscribe();
+  }
+
+  get totalShort(): number {
+    return this.lines.reduce((total, line) => total + line.short, 0);
+  }
+
+  getPartName(partNum: string): string {
+    return this.lookups?.parts.get(partNum)?.name || partNum;
+  }
+
+  getColorName(colorId: number): string {
+    return this.lookups?.colors.get(colorId)?.name || `Color ${colorId}`;
+  }
+
+  getColorRgb(colorId: number): string {
+    const rgb = this.lookups?.colors.get(colorId)?.rgb;
+    return rgb ? `#${rgb}` : 'transparent';
+  }
+
+  private async loadShortfall(): Promise<void> {
+    this.loading = true;
+    try {
+      const [set, lines] = await Promise.all([
+        firstValueFrom(this.dataService.getSet(this.setNum, this.version)),
+        this.buildabilityService.getShortfall(this.setNum, this.version)
+      ]);
+      this.set = set;
+      this.lines = lines;
+      this.lookups = await firstValueFrom(this.dataService.getPartLookups(lines));
+    } catch (error) {
+      console.error('Error loading shortfall:', error);
+    } finally {
+      this.loading = false;
+    }
+  }
+}
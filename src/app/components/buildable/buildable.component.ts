@@ -0,0 +1,125 @@
+import { Component, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { RouterLink } from '@angular/router';
+import { DataService } from '../../services/data.service';
+import { BuildabilityResult, BuildabilityService } from '../../services/buildability.service';
+import { CachedImageDirective } from '../../directives/cached-image.directive';
+import { Theme } from '../../models/models';
+
+interface ThemeOption {
+  id: number;
+  path: string; // e.g. "Star Wars > Ultimate Collector Series"
+}
+
+/**
+ * Ranks every catalog set by how much of it could be built from the parts
+ * the user owns
+ */
+@Component({
+  selector: 'app-buildable',
+  standalone: true,
+  imports: [CommonModule, FormsModule, RouterLink, CachedImageDirective],
+  templateUrl: './buildable.component.html',
+  styleUrls: ['./buildable.component.css']
+})
+export class BuildableComponent implements OnInit {
+  private readonly PAGE_SIZE = 60;
+
+  results: BuildabilityResult[] = [];
+  filteredResults: BuildabilityResult[] = [];
+  themeOptions: ThemeOption[] = [];
+  loading = true;
+  error = '';
+
+  // Filters
+  themeId: number | null = null;
+  yearFrom: number | null = null;
+  yearTo: number | null = null;
+  minPercentage = 50;
+  visibleCount = this.PAGE_SIZE;
+
+  private themesById = new Map<number, Theme>();
+
+  constructor(
+    private dataService: DataService,
+    private buildabilityService: BuildabilityService
+  ) {}
+
+  async ngOnInit(): Promise<void> {
+    const themes = this.dataService.getCurrentThemes();
+    this.themesById = new Map(themes.map(theme => [theme.id, theme]));
+    this.themeOptions = themes
+      .map(theme => ({ id: theme.id, path: this.getThemePath(theme.id) }))
+      .sort((a, b) => a.path.localeCompare(b.path));
+
+    try {
+      this.results = await this.buildabilityService.rankSets();
+      this.applyFilters();
+    } catch (error) {
+      console.error('Error ranking buildable sets:', error);
+      this.error = 'The catalog could not be searched. Please try again later.';
+    } finally {
+      this.loading = false;
+    }
+  }
+
+  get visibleResults(): BuildabilityResult[] {
+    return this.filteredResults.slice(0, this.visibleCount);
+  }
+
+  applyFilters(): void {
+    this.filteredResults = this.results.filter(result =>
+      result.percentage >= this.minPercentage
+      && (this.yearFrom === null || result.set.year >= this.yearFrom)
+      && (this.yearTo === null || result.set.year <= this.yearTo)
+      && (this.themeId === null || this.isInTheme(result.set.theme_id, this.themeId)));
+    this.visibleCount = this.PAGE_SIZE;
+  }
+
+  resetFilters(): void {
+    this.themeId = null;
+    this.yearFrom = null;
+    this.yearTo = null;
+    this.minPercentage = 50;
+    this.applyFilters();
+  }
+
+  showMore(): void {
+    this.visibleCount += this.PAGE_SIZE;
+  }
+
+  getThemeName(themeId: number): string {
+    return this.themesById.get(themeId)?.name || '';
+  }
+
+  trackResult(index: number, result: BuildabilityResult): string {
+    return result.set.set_num;
+  }
+
+  /**
+   * Whether a theme is the given theme or one of its sub-themes
+   */
+  private isInTheme(themeId: number, ancestorId: number): boolean {
+    const seen = new globalThis.Set<number>();
+    let theme = this.themesById.get(themeId);
+    while (theme && !seen.has(theme.id)) {
+      if (theme.id === ancestorId) return true;
+      seen.add(theme.id);
+      theme = theme.parent_id ? this.themesById.get(theme.parent_id) : undefined;
+    }
+    return false;
+  }
+
+  private getThemePath(themeId: number): string {
+    const names: string[] = [];
+    const seen = new globalThis.Set<number>();
+    let theme = this.themesById.get(themeId);
+    while (theme && !seen.has(theme.id)) {
+      names.unshift(theme.name);
+      seen.add(theme.id);
+      theme = theme.parent_id ? this.themesById.get(theme.parent_id) : undefined;
+    }
+    return names.join(' > ');
+  }
+}
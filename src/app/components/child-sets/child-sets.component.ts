@@ -0,0 +1,181 @@
+import { Component, Input, OnChanges, OnDestroy, OnInit, SimpleChanges } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { RouterLink } from '@angular/router';
+import { Subscription, firstValueFrom } from 'rxjs';
+import { v4 as uuidv4 } from 'uuid';
+import { DataService } from '../../services/data.service';
+import { StorageService } from '../../services/storage.service';
+import { EMPTY_PROGRESS, InventoryProgress, InventoryProgressService } from '../../services/inventory-progress.service';
+import { CachedImageDirective } from '../../directives/cached-image.directive';
+import { GlobalSettings, UserInventory } from '../../models/models';
+import { getAcceptablePartConditions } from '../../utils/part-conditions';
+
+interface TrackedChildCopy {
+  inventory: UserInventory;
+  progress: InventoryProgress;
+}
+
+/**
+ * A set included in the parent set (inventory_sets.csv), with the copies the
+ * user tracks as part of the parent
+ */
+interface ChildSetDetail {
+  set_num: string;
+  name: string;
+  imageUrl: string;
+  version: number;
+  quantity: number; // Copies included in the parent set
+  neededPerCopy: number; // Items in one copy, for copies that are not tracked yet
+  copies: TrackedChildCopy[];
+  standalone: UserInventory[]; // Tracked on their own and available to attach
+}
+
+/**
+ * Sections for the sets included in a bundle or collection, with progress
+ * per child and rolled-up totals for the whole set
+ */
+@Component({
+  selector: 'app-child-sets',
+  standalone: true,
+  imports: [CommonModule, RouterLink, CachedImageDirective],
+  templateUrl: './child-sets.component.html',
+  styleUrls: ['./child-sets.component.css']
+})
+export class ChildSetsComponent implements OnInit, OnChanges, OnDestroy {
+  @Input() parentInventory!: UserInventory;
+  @Input() catalogInventoryId!: number;
+  @Input() ownProgress: InventoryProgress = EMPTY_PROGRESS; // Items of the parent set itself
+
+  childSets: ChildSetDetail[] = [];
+  childProgress: InventoryProgress = EMPTY_PROGRESS;
+
+  private userInventories: UserInventory[] = [];
+  private globalSettings: GlobalSettings | null = null;
+  private stateSubscription: Subscription | null = null;
+  private loadId = 0;
+
+  constructor(
+    private dataService: DataService,
+    private storageService: StorageService,
+    private progressService: InventoryProgressService
+  ) {}
+
+  ngOnInit(): void {
+    this.stateSubscription = this.storageService.getState().subscribe(state => {
+      this.userInventories = state.userInventories;
+      this.globalSettings = state.globalSettings;
+      this.loadChildSets();
+    });
+  }
+
+  ngOnChanges(changes: SimpleChanges): void {
+    // Edits to the parent inventory arrive through the state subscription as well
+    const parentChanged = changes['parentInventory']
+      && changes['parentInventory'].previousValue?.id !== changes['parentInventory'].currentValue?.id;
+    if (this.stateSubscription && (parentChanged || changes['catalogInventoryId'])) {
+      this.loadChildSets();
+    }
+  }
+
+  ngOnDestroy(): void {
+    this.stateSubscription?.unsubscribe();
+  }
+
+  get combinedProgress(): InventoryProgress {
+    return this.progressService.sum([this.ownProgress, this.childProgress]);
+  }
+
+  /**
+   * Start tracking the missing copies of a child set as part of the parent
+   */
+  trackAsPartOfParent(child: ChildSetDetail): void {
+    for (let copy = child.copies.length + 1; copy <= child.quantity; copy++) {
+      this.storageService.addUserInventory({
+        id: uuidv4(),
+        set_num: child.set_num,
+        version: child.version,
+        name: child.quantity > 1 ? `${child.name} (${copy} of ${child.quantity})` : child.name,
+        partsOwned: {},
+        minifigsOwned: {},
+        minifigPartsOwned: {},
+        lastUpdated: Date.now(),
+        parentInventoryId: this.parentInventory.id
+      });
+    }
+  }
+
+  /**
+   * Count a child set that is already tracked on its own towards the parent
+   */
+  attach(inventory: UserInventory): void {
+    this.storageService.setInventoryParent(inventory.id, this.parentInventory.id);
+  }
+
+  /**
+   * Keep tracking a child set, but on its own
+   */
+  detach(inventory: UserInventory): void {
+    this.storageService.setInventoryParent(inventory.id, null);
+  }
+
+  private async loadChildSets(): Promise<void> {
+    if (!this.parentInventory || !this.catalogInventoryId || !this.globalSettings) return;
+
+    const loadId = ++this.loadId;
+    const includeSpareParts = this.globalSettings.includeSparePartsInProgress;
+    const acceptableConditions = getAcceptablePartConditions(this.globalSettings);
+    const substituteTypes = this.globalSettings.substituteRelationshipTypes;
+
+    try {
+      const inventorySets = await firstValueFrom(this.dataService.getInventorySetsFromCache(this.catalogInventoryId));
+
+      const childSets = await Promise.all(inventorySets.map(async invSet => {
+        const set = await firstValueFrom(this.dataService.getSet(invSet.set_num));
+        const version = this.dataService.getInventoriesForSet(invSet.set_num)[0]?.version || 1;
+
+        const tracked = this.userInventories.filter(inv => inv.set_num === invSet.set_num);
+        const copies = await Promise.all(tracked
+          .filter(inv => inv.parentInventoryId === this.parentInventory.id)
+          .map(async inventory => ({
+            inventory,
+            progress: await this.progressService.getRolledUpProgress(
+              inventory, this.userInventories, includeSpareParts, acceptableConditions, substituteTypes
+            )
+          })));
+
+        const blank: UserInventory = {
+          id: '', set_num: invSet.set_num, version, name: '',
+          partsOwned: {}, minifigsOwned: {}, minifigPartsOwned: {}, lastUpdated: 0
+        };
+        const neededPerCopy = (await this.progressService.getProgress(blank, includeSpareParts)).totalNeeded;
+
+        return {
+          set_num: invSet.set_num,
+          name: set?.name || invSet.set_num,
+          imageUrl: set?.img_url || '',
+          version,
+          quantity: invSet.quantity,
+          neededPerCopy,
+          copies,
+          standalone: tracked.filter(inv => !inv.parentInventoryId && inv.id !== this.parentInventory.id)
+        } as ChildSetDetail;
+      }));
+
+      // A newer load started while this one was running
+      if (loadId !== this.loadId) return;
+
+      this.childSets = childSets;
+      this.childProgress = this.progressService.sum(childSets.flatMap(child => [
+        ...child.copies.map(copy => copy.progress),
+        // Copies not tracked yet still count as needed
+        {
+          totalOwned: 0,
+          totalNeeded: Math.max(0, child.quantity - child.copies.length) * child.neededPerCopy,
+          progress: 0
+        }
+      ]));
+    } catch (error) {
+      console.error('Error loading child sets:', error);
+    }
+  }
+}
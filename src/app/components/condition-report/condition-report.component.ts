@@ -0,0 +1,165 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { RouterLink } from '@angular/router';
+import { Subscription, firstValueFrom } from 'rxjs';
+import { DataService, PartLookups } from '../../services/data.service';
+import { StorageService } from '../../services/storage.service';
+import { ExportService } from '../../services/export.service';
+import { AppState, PartCondition, PartConditionCounts, UserInventory } from '../../models/models';
+import {
+  PART_CONDITIONS, PART_CONDITION_LABELS, getAcceptablePartConditions, getPartConditionCounts
+} from '../../utils/part-conditions';
+import { getInventoryDisplayName } from '../../utils/inventory-copies';
+import { PartListLine, formatPartListCsv } from '../../utils/part-list-csv';
+
+interface ConditionReportRow {
+  inventory: UserInventory;
+  part_num: string;
+  color_id: number;
+  is_spare: boolean;
+  counts: PartConditionCounts;
+  replace: number; // Owned parts in the reported conditions
+}
+
+/**
+ * Owned parts of tracked sets in conditions that need replacing
+ */
+@Component({
+  selector: 'app-condition-report',
+  standalone: true,
+  imports: [CommonModule, FormsModule, RouterLink],
+  templateUrl: './condition-report.component.html',
+  styleUrls: ['./condition-report.component.css']
+})
+export class ConditionReportComponent implements OnInit, OnDestroy {
+  partConditions = PART_CONDITIONS;
+  partConditionLabels = PART_CONDITION_LABELS;
+  conditionFilter: PartCondition | 'unacceptable' = 'unacceptable';
+  rows: ConditionReportRow[] = [];
+  lookups: PartLookups | null = null;
+
+  private state: AppState | null = null;
+  private stateSubscription: Subscription | null = null;
+  private lookupKeys: string | null = null; // Part/colors the lookups were loaded for
+  private loadId = 0;
+
+  constructor(
+    private dataService: DataService,
+    private storageService: StorageService,
+    private exportService: ExportService
+  ) {}
+
+  ngOnInit(): void {
+    this.stateSubscription = this.storageService.getState().subscribe(state => {
+      this.state = state;
+      this.buildRows();
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.stateSubscription?.unsubscribe();
+  }
+
+  get totalReplace(): number {
+    return this.rows.reduce((total, row) => total + row.replace, 0);
+  }
+
+  /**
+   * Conditions the report lists: the chosen one, or every condition that
+   * does not count towards progress
+   */
+  get reportedConditions(): PartCondition[] {
+    if (this.conditionFilter !== 'unacceptable') return [this.conditionFilter];
+    const acceptable = this.state ? getAcceptablePartConditions(this.state.globalSettings) : [];
+    return PART_CONDITIONS.filter(condition => !acceptable.includes(condition));
+  }
+
+  buildRows(): void {
+    if (!this.state) return;
+    const conditions = this.reportedConditions;
+
+    const rows: ConditionReportRow[] = [];
+    this.state.userInventories.forEach(inventory => {
+      Object.keys(inventory.partConditions || {}).forEach(storageKey => {
+        const counts = getPartConditionCounts(inventory, storageKey);
+        const replace = conditions.reduce((total, condition) => total + (counts[condition] || 0), 0);
+        if (replace === 0) return;
+
+        const is_spare = storageKey.startsWith('spare_');
+        const key = is_spare ? storageKey.slice('spare_'.length) : storageKey;
+        const separator = key.lastIndexOf('_');
+        rows.push({
+          inventory,
+          part_num: key.slice(0, separator),
+          color_id: Number(key.slice(separator + 1)),
+          is_spare,
+          counts,
+          replace
+        });
+      });
+    });
+
+    this.rows = rows.sort((a, b) =>
+      getInventoryDisplayName(a.inventory).localeCompare(getInventoryDisplayName(b.inventory))
+      || a.part_num.localeCompare(b.part_num, undefined, { numeric: true })
+      || a.color_id - b.color_id);
+    this.loadLookups(rows);
+  }
+
+  /**
+   * Part and color details of the rows, loaded again only when the listed
+   * part/colors change. Only the latest load is applied.
+   */
+  private async loadLookups(rows: ConditionReportRow[]): Promise<void> {
+    const lookupKeys = Array.from(new globalThis.Set(rows.map(row => `${row.part_num}_${row.color_id}`))).sort().join(';');
+    if (lookupKeys === this.lookupKeys) return;
+    this.lookupKeys = lookupKeys;
+    const loadId = ++this.loadId;
+
+    try {
+      const lookups = await firstValueFrom(this.dataService.getPartLookups(rows));
+      if (loadId === this.loadId) this.lookups = lookups;
+    } catch (error) {
+      console.error('Error loading condition report part details:', error);
+      // Try again when the rows are next built
+      if (loadId === this.loadId) this.lookupKeys = null;
+    }
+  }
+
+  /**
+   * Download the parts to replace as a part list, one line per part and color
+   */
+  exportReplacements(): void {
+    const totals = new Map<string, PartListLine>();
+    this.rows.forEach(row => {
+      const key = `${row.part_num}_${row.color_id}`;
+      const line = totals.get(key) || { part_num: row.part_num, color_id: row.color_id, quantity: 0 };
+      line.quantity += row.replace;
+      totals.set(key, line);
+    });
+
+    this.exportService.downloadFile(
+      formatPartListCsv(Array.from(totals.values())),
+      `parts-to-replace-${new Date().toISOString().slice(0, 10)}.csv`,
+      'text/csv'
+    );
+  }
+
+  getInventoryDisplayName(inventory: UserInventory): string {
+    return getInventoryDisplayName(inventory);
+  }
+
+  getPartName(partNum: string): string {
+    return this.lookups?.parts.get(partNum)?.name || partNum;
+  }
+
+  getColorName(colorId: number): string {
+    return this.lookups?.colors.get(colorId)?.name || `Color ${colorId}`;
+  }
+
+  getColorRgb(colorId: number): string {
+    const rgb = this.lookups?.colors.get(colorId)?.rgb;
+    return rgb ? `#${rgb}` : 'transparent';
+  }
+}
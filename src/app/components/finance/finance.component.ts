@@ -0,0 +1,103 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { RouterLink } from '@angular/router';
+import { Subscription, firstValueFrom } from 'rxjs';
+import { DataService } from '../../services/data.service';
+import { StorageService } from '../../services/storage.service';
+import { ExportService } from '../../services/export.service';
+import { Theme, UserInventory } from '../../models/models';
+import { FinanceRow, SpendTotal, formatFinanceCsv, getPurchaseYear, sumSpend } from '../../utils/collection-finance';
+import { getInventoryDisplayName } from '../../utils/inventory-copies';
+
+/**
+ * Purchase records of the tracked sets with spend totals by theme and year
+ */
+@Component({
+  selector: 'app-finance',
+  standalone: true,
+  imports: [CommonModule, RouterLink],
+  templateUrl: './finance.component.html',
+  styleUrls: ['./finance.component.css']
+})
+export class FinanceComponent implements OnInit, OnDestroy {
+  rows: FinanceRow[] = [];
+  totals: SpendTotal[] = [];
+  totalsByTheme: SpendTotal[] = [];
+  totalsByYear: SpendTotal[] = [];
+  unrecordedCount = 0; // Tracked sets without a purchase price
+  loading = true;
+
+  private themesById = new Map<number, Theme>();
+  private stateSubscription: Subscription | null = null;
+  private loadId = 0;
+
+  constructor(
+    private dataService: DataService,
+    private storageService: StorageService,
+    private exportService: ExportService
+  ) {}
+
+  ngOnInit(): void {
+    this.stateSubscription = this.storageService.getState().subscribe(state => {
+      this.loadRows(state.userInventories);
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.stateSubscription?.unsubscribe();
+  }
+
+  exportCsv(): void {
+    this.exportService.downloadFile(
+      formatFinanceCsv(this.rows),
+      `collection-purchases-${new Date().toISOString().slice(0, 10)}.csv`,
+      'text/csv'
+    );
+  }
+
+  getInventoryDisplayName(inventory: UserInventory): string {
+    return getInventoryDisplayName(inventory);
+  }
+
+  private async loadRows(inventories: UserInventory[]): Promise<void> {
+    const loadId = ++this.loadId;
+    if (this.themesById.size === 0) {
+      this.themesById = new Map(this.dataService.getCurrentThemes().map(theme => [theme.id, theme]));
+    }
+
+    try {
+      const rows = await Promise.all(inventories.map(async inventory => {
+        const set = await firstValueFrom(this.dataService.getSet(inventory.set_num, Number(inventory.version)));
+        return {
+          inventory,
+          setName: set?.name || inventory.name,
+          theme: set ? this.getTopLevelThemeName(set.theme_id) : '',
+          setYear: set?.year ?? null
+        };
+      }));
+      if (loadId !== this.loadId) return;
+
+      this.rows = rows.sort((a, b) =>
+        (b.inventory.purchase?.date || '').localeCompare(a.inventory.purchase?.date || '')
+        || a.inventory.set_num.localeCompare(b.inventory.set_num, undefined, { numeric: true }));
+      this.totals = sumSpend(rows, () => '');
+      this.totalsByTheme = sumSpend(rows, row => row.theme || 'Unknown theme');
+      this.totalsByYear = sumSpend(rows, row => getPurchaseYear(row.inventory) || 'Unknown year');
+      this.unrecordedCount = rows.filter(row => row.inventory.purchase?.price === undefined).length;
+    } catch (error) {
+      console.error('Error loading purchase records:', error);
+    } finally {
+      if (loadId === this.loadId) this.loading = false;
+    }
+  }
+
+  private getTopLevelThemeName(themeId: number): string {
+    const seen = new globalThis.Set<number>();
+    let theme = this.themesById.get(themeId);
+    while (theme?.parent_id && this.themesById.has(theme.parent_id) && !seen.has(theme.id)) {
+      seen.add(theme.id);
+      theme = this.themesById.get(theme.parent_id);
+    }
+    return theme?.name || '';
+  }
+}
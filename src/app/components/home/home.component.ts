@@ -2,7 +2,14 @@ import { Component, OnInit } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { RouterLink } from '@angular/router';
 import { StorageService } from '../../services/storage.service';
-import { UserInventory } from '../../models/models';
+import { InventoryStatus, UserInventory } from '../../models/models';
+import { INVENTORY_STATUSES, INVENTORY_STATUS_LABELS } from '../../utils/inventory-status';
+
+interface StatusCount {
+  status: InventoryStatus | 'none';
+  label: string;
+  count: number;
+}
 
 @Component({
   selector: 'app-home',
@@ -13,6 +20,7 @@ import { UserInventory } from '../../models/models';
 })
 export class HomeComponent implements OnInit {
   userInventories: UserInventory[] = [];
+  statusCounts: StatusCount[] = []; // Tracked sets per lifecycle status, empty statuses left out
   loading = true;
 
   constructor(
@@ -23,7 +31,18 @@ export class HomeComponent implements OnInit {
     // Get user inventories
     this.storageService.getState().subscribe(state => {
       this.userInventories = state.userInventories;
+      this.statusCounts = this.countStatuses(state.userInventories);
       this.loading = false;
     });
   }
+
+  private countStatuses(inventories: UserInventory[]): StatusCount[] {
+    const counts: StatusCount[] = INVENTORY_STATUSES.map(status => ({
+      status,
+      label: INVENTORY_STATUS_LABELS[status],
+      count: inventories.filter(inv => inv.status === status).length
+    }));
+    counts.push({ status: 'none', label: 'No status', count: inventories.filter(inv => !inv.status).length });
+    return counts.filter(statusCount => statusCount.count > 0);
+  }
 }
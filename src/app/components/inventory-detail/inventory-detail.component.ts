@@ -2,14 +2,39 @@ import { Component, OnInit, OnDestroy, ChangeDetectorRef } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { ActivatedRoute, RouterLink } from '@angular/router';
 import { FormsModule } from '@angular/forms';
-import { DataService } from '../../services/data.service';
+import { DataService, PartLookups, RelatedPart } from '../../services/data.service';
 import { StorageService } from '../../services/storage.service';
+import { InventorySnapshotService } from '../../services/inventory-snapshot.service';
+import { ExportService } from '../../services/export.service';
+import { CachedImageDirective } from '../../directives/cached-image.directive';
+import { ChildSetsComponent } from '../child-sets/child-sets.component';
+import { EMPTY_PROGRESS, InventoryProgress } from '../../services/inventory-progress.service';
+import {
+  SUBSTITUTE_RELATIONSHIP_LABELS, getPartSubstitute, getSubstituteQuantity, getSubstituteRelationshipTypes, isSubstituteAccepted
+} from '../../utils/part-substitutes';
+import { getInventoryDisplayName, getNextCopyLabel } from '../../utils/inventory-copies';
+import { PartAllocation, allocateParts } from '../../utils/part-allocation';
+import { StorageLocationEntry, flattenLocationTree } from '../../utils/storage-locations';
+import {
+  PART_CONDITIONS, PART_CONDITION_LABELS, formatPartConditionCounts, getAcceptablePartConditions,
+  getConditionChange, getMissingQuantity, getPartConditionCounts, getUnacceptableQuantity, setPartConditions
+} from '../../utils/part-conditions';
+import { collectLineTags, hasLineTag, lineNoteMatches, parseTags } from '../../utils/line-notes';
+import { INVENTORY_STATUSES, INVENTORY_STATUS_LABELS, getMissingPartsExcludedStatuses } from '../../utils/inventory-status';
+import { applyAction, getActionChanges, getActionHistory } from '../../utils/action-history';
+import { WantedItem, WantedListOptions, buildWantedListXml, getBrickLinkMapping } from '../../utils/bricklink';
+import {
+  PartListLine, formatPartListCsv, matchPartListToSet, mergePartListLines, parsePartListCsv
+} from '../../utils/part-list-csv';
 import {
   UserInventory, Inventory, InventoryPart,
-  Part, Color, InventoryMinifig, Minifig, SortOption, Element, GlobalSettings, PartialSet, UndoAction, Theme
+  Part, Color, InventoryMinifig, Minifig, SortOption, Element, GlobalSettings, PartialSet, UndoAction, Theme,
+  SubstituteRelationshipType, PartSubstitute, AppState, PartCondition, PartConditionCounts, InventoryLineNote, InventoryStatus,
+  InventoryStatusChange, InventoryPurchase, BrickLinkMapping, ActionHistory, HistoryAction, QuantityChange
 } from '../../models/models';
 import type { Set } from '../../models/models';
-import { switchMap, map, forkJoin, of, catchError, filter } from 'rxjs';
+import { Observable, switchMap, map, forkJoin, of, from, catchError, filter, firstValueFrom } from 'rxjs';
+import { v4 as uuidv4 } from 'uuid';
 
 interface PartDetail {
   inventoryPart: InventoryPart;
@@ -25,6 +50,19 @@ interface PartDetail {
   inventoryId?: string;
 }
 
+// A checklist line in the print view; boxes are ticked when a part is already owned
+interface PrintLine {
+  part: PartDetail;
+  quantity: number;
+  boxes: boolean[]; // Empty when there are too many to draw
+}
+
+interface PrintGroup {
+  title: string;
+  colorRgb?: string;
+  lines: PrintLine[];
+}
+
 interface MinifigDetail {
   inventoryMinifig: InventoryMinifig;
   minifig: Minifig;
@@ -40,12 +78,13 @@ interface MinifigDetail {
 @Component({
   selector: 'app-inventory-detail',
   standalone: true,
-  imports: [CommonModule, RouterLink, FormsModule],
+  imports: [CommonModule, RouterLink, FormsModule, CachedImageDirective, ChildSetsComponent],
   templateUrl: './inventory-detail.component.html',
   styleUrls: ['./inventory-detail.component.css']
 })
 export class InventoryDetailComponent implements OnInit, OnDestroy {
   userInventory: UserInventory | null = null;
+  definitionChanged = false; // Catalog definition differs from the pinned snapshot
   inventory: Inventory | null = null;
   set: PartialSet | null = null;
   parts: PartDetail[] = [];
@@ -53,6 +92,7 @@ export class InventoryDetailComponent implements OnInit, OnDestroy {
   spareParts: PartDetail[] = [];
   loading = true;
   searchTerm = '';
+  tagFilter = '';
   filteredParts: PartDetail[] = [];
   activeTab: 'parts' | 'minifigs' | 'spare-parts' = 'parts';
   missingPartsCount = 0;
@@ -62,6 +102,7 @@ export class InventoryDetailComponent implements OnInit, OnDestroy {
   // Missing parts mode
   isMissingPartsMode = false;
   userInventories: UserInventory[] = [];
+  missingPartsInventories: UserInventory[] = []; // Tracked sets whose status is not left out of missing parts mode
 
   // Set details
   theme: Theme | null = null;
@@ -75,6 +116,13 @@ export class InventoryDetailComponent implements OnInit, OnDestroy {
   totalSparePartsNeeded = 0;
   totalSparePartsOwned = 0;
   overallProgress = 0;
+  ownProgress: InventoryProgress = EMPTY_PROGRESS; // Same totals, passed to the included sets section
+  parentInventory: UserInventory | null = null; // Set this inventory is tracked as part of
+  isEditingCopyLabel = false;
+  copyLabelDraft = '';
+  versionCount = 0; // Inventory versions of this set in the catalog
+  partAllocation: PartAllocation | null = null; // Shared owned quantities in missing parts mode, if enabled
+  isOverAllocated = false; // Records parts that higher priority sets were given
 
   // Sorting properties
   showSortOptions = false;
@@ -97,9 +145,77 @@ export class InventoryDetailComponent implements OnInit, OnDestroy {
   overlayImageUrl = '';
   overlayImageAlt = '';
 
+  // Alternate parts
+  substituteRelationshipLabels = SUBSTITUTE_RELATIONSHIP_LABELS;
+  substituteRelationshipTypes = Object.keys(SUBSTITUTE_RELATIONSHIP_LABELS) as SubstituteRelationshipType[];
+  substitutePickerPart: PartDetail | null = null;
+  substituteOptions: RelatedPart[] = [];
+  substituteQuantityDraft = 0;
+  loadingSubstitutes = false;
+
+  // Storage locations
+  storageLocationEntries: StorageLocationEntry[] = [];
+  locationPickerPart: PartDetail | null = null;
+  private partLocations: Record<string, string> = {};
+
+  // Part conditions
+  partConditions = PART_CONDITIONS;
+  partConditionLabels = PART_CONDITION_LABELS;
+  conditionEditorPart: PartDetail | null = null;
+  conditionDraft: Record<PartCondition, number> = { new: 0, used: 0, damaged: 0, yellowed: 0 };
+
+  // Line notes and tags
+  availableTags: string[] = [];
+  noteEditorTarget: { inventory: UserInventory; key: string; title: string } | null = null;
+  noteDraft = '';
+  tagsDraft = '';
+
+  // Lifecycle status
+  inventoryStatuses = INVENTORY_STATUSES;
+  inventoryStatusLabels = INVENTORY_STATUS_LABELS;
+  statusNoteDraft = '';
+
+  // Purchase record
+  isEditingPurchase = false;
+  purchaseDraft = { date: '', price: null as number | null, currency: '', vendor: '', hasBox: false, hasInstructions: false };
+
+  // BrickLink wanted list export in missing parts mode
+  showWantedListExport = false;
+  wantedListInclude = { parts: true, spareParts: true, minifigs: true };
+  wantedListOptions: WantedListOptions = { condition: 'any', maxPrice: null, notify: false };
+  wantedListSkipped: string[] = []; // Items left out of the last export
+  wantedListEmpty = false; // The last export had nothing left to download
+  private brickLinkMapping: BrickLinkMapping = getBrickLinkMapping({});
+
+  // Part list CSV import and export
+  showPartListCsv = false;
+  partListImportText = '';
+  partListImportTarget: 'this' | 'new-copy' = 'this';
+  partListImportReplace = false;
+  partListImportErrors: string[] = [];
+  partListImportMessage = '';
+  partListImportLeftOver: PartListLine[] = []; // Lines or quantities the set has no room for
+  partListNewCopyId: string | null = null;
+
+  // Printable checklist
+  showPrintView = false;
+  printGroupBy: 'color' | 'category' = 'color';
+  printIncludeSpareParts = true;
+  printIncludeMinifigs = true;
+  printPartGroups: PrintGroup[] = [];
+  printSparePartGroups: PrintGroup[] = [];
+  printMinifigLines: { minifig: MinifigDetail; quantity: number; boxes: boolean[] }[] = [];
+  printedAt = 0;
+  private readonly maxPrintBoxes = 30;
+  private partCategoryNames = new Map<number, string>();
+
   // Undo functionality
-  private maxUndoHistory = 100;
   canUndo = false;
+  canRedo = false;
+  showHistoryPanel = false;
+  historyEntries: { action: HistoryAction; position: number; applied: boolean; setName: string }[] = []; // Newest first
+  private actionHistory: ActionHistory = getActionHistory({});
+  private readonly keyDownListener = (event: KeyboardEvent) => this.handleKeyDown(event);
   showUndoNotification = false;
   undoNotificationMessage = '';
 
@@ -141,6 +257,8 @@ export class InventoryDetailComponent implements OnInit, OnDestroy {
     private route: ActivatedRoute,
     public dataService: DataService,
     private storageService: StorageService,
+    private snapshotService: InventorySnapshotService,
+    private exportService: ExportService,
     private changeDetectorRef: ChangeDetectorRef
   ) {
     // Initialize default sort options
@@ -230,9 +348,8 @@ export class InventoryDetailComponent implements OnInit, OnDestroy {
       return this.sortMinifigParts([...cachedParts]);
     }
 
-    // Get all inventories and find the one for this minifigure
-    const allInventories = this.dataService.getCurrentInventories();
-    const minifigInventory = allInventories.find(inv => inv.set_num === figNum);
+    // Find the inventory for this minifigure
+    const minifigInventory = this.dataService.getInventoriesForSet(figNum)[0];
 
     if (!minifigInventory) {
       // No inventory found for this minifigure, return empty array
@@ -250,26 +367,16 @@ export class InventoryDetailComponent implements OnInit, OnDestroy {
    * Load minifigure parts asynchronously and update cache
    */
   private loadMinifigPartsAsync(figNum: string, inventoryId: number): void {
-        // Get cached reference data
-        const allParts = this.dataService.getCurrentParts();
-        const allColors = this.dataService.getCurrentColors();
-        const allElements = this.dataService.getCurrentElements();
-
-    // Create quick lookup maps
-        const partsMap = new Map(allParts.map(p => [p.part_num, p]));
-        const colorsMap = new Map(allColors.map(c => [c.id, c]));
-        const elementsMap = new Map(allElements.map(e => [`${e.part_num}_${e.color_id}`, e.element_id]));
-
-    // Load inventory parts for this minifigure
-    this.dataService.getInventoryPartsFromCache(inventoryId).subscribe(inventoryParts => {
+    // Load inventory parts for this minifigure with their part, color and element records
+    this.loadInventoryPartsWithLookups(inventoryId).subscribe(({ inventoryParts, lookups }) => {
         const partDetails: PartDetail[] = [];
 
         for (const invPart of inventoryParts) {
-          const part = partsMap.get(invPart.part_num);
-          const color = colorsMap.get(invPart.color_id);
+          const part = lookups.parts.get(invPart.part_num);
+          const color = lookups.colors.get(invPart.color_id);
 
           if (part && color) {
-            const elementId = elementsMap.get(`${invPart.part_num}_${invPart.color_id}`);
+            const elementId = lookups.elements.get(`${invPart.part_num}_${invPart.color_id}`)?.element_id;
           const storageKey = this.getMinifigPartStorageKey(
             this.userInventory?.set_num || '',
             figNum,
@@ -380,10 +487,11 @@ export class InventoryDetailComponent implements OnInit, OnDestroy {
   }
 
   private updateCounts(): void {
-    // Calculate total missing pieces (not unique parts)
-    this.missingPartsCount = this.parts.reduce((total, p) => total + Math.max(0, p.quantityNeeded - p.quantityOwned), 0);
+    // Calculate total missing pieces (not unique parts); parts in conditions
+    // that are not acceptable are still missing
+    this.missingPartsCount = this.sumMissingPartQuantity(this.parts);
     this.missingMinifigsCount = this.minifigs.reduce((total, m) => total + Math.max(0, m.quantityNeeded - m.quantityOwned), 0);
-    this.missingSparePartsCount = this.spareParts.reduce((total, p) => total + Math.max(0, p.quantityNeeded - p.quantityOwned), 0);
+    this.missingSparePartsCount = this.sumMissingPartQuantity(this.spareParts);
 
     // Total quantity tracking
     this.totalPartsNeeded = this.parts.reduce((total, part) => total + part.quantityNeeded, 0);
@@ -393,6 +501,10 @@ export class InventoryDetailComponent implements OnInit, OnDestroy {
     this.totalSparePartsNeeded = this.spareParts.reduce((total, part) => total + part.quantityNeeded, 0);
     this.totalSparePartsOwned = this.spareParts.reduce((total, part) => total + part.quantityOwned, 0);
 
+    // Parts in conditions that are not acceptable do not count towards progress
+    const acceptablePartsOwned = this.totalPartsNeeded - this.missingPartsCount;
+    const acceptableSparePartsOwned = this.totalSparePartsNeeded - this.missingSparePartsCount;
+
     // Overall progress calculation based on global setting
     let totalNeeded: number;
     let totalOwned: number;
@@ -400,37 +512,76 @@ export class InventoryDetailComponent implements OnInit, OnDestroy {
     if (this.globalSettings.includeSparePartsInProgress) {
       // Include all parts, minifigs, and spare parts
       totalNeeded = this.totalPartsNeeded + this.totalMinifigsNeeded + this.totalSparePartsNeeded;
-      totalOwned = this.totalPartsOwned + this.totalMinifigsOwned + this.totalSparePartsOwned;
+      totalOwned = acceptablePartsOwned + this.totalMinifigsOwned + acceptableSparePartsOwned;
     } else {
       // Only include parts and minifigs, exclude spare parts
       totalNeeded = this.totalPartsNeeded + this.totalMinifigsNeeded;
-      totalOwned = this.totalPartsOwned + this.totalMinifigsOwned;
+      totalOwned = acceptablePartsOwned + this.totalMinifigsOwned;
     }
 
     this.overallProgress = totalNeeded > 0 ? (totalOwned / totalNeeded) * 100 : 0;
+    if (this.ownProgress.totalOwned !== totalOwned || this.ownProgress.totalNeeded !== totalNeeded) {
+      this.ownProgress = { totalOwned, totalNeeded, progress: this.overallProgress };
+    }
 
     // Update cached minifig parts progress
     this.updateTotalMinifigPartsProgress();
   }
 
   filterParts(): void {
-    if (!this.searchTerm) {
+    if (!this.searchTerm && !this.tagFilter) {
       this.filteredParts = [...this.parts];
       return;
     }
 
+    const filtered = this.parts.filter(part => this.matchesPartFilter(part));
+
+    // Apply sorting to filtered results
+    this.filteredParts = this.sortParts(filtered);
+  }
+
+  /**
+   * Whether a part line matches the search term and tag filter
+   */
+  private matchesPartFilter(part: PartDetail): boolean {
     const term = this.searchTerm.toLowerCase();
-    const filtered = this.parts.filter(part =>
+    return (!this.tagFilter || hasLineTag(this.getPartLineNote(part), this.tagFilter)) && (
       part.part.name.toLowerCase().includes(term) ||
       part.part.part_num.toLowerCase().includes(term) ||
-      part.color.name.toLowerCase().includes(term)
+      part.color.name.toLowerCase().includes(term) ||
+      lineNoteMatches(this.getPartLineNote(part), term)
     );
+  }
 
-    // Apply sorting to filtered results
-    this.filteredParts = this.sortParts(filtered);
+  private matchesMinifigFilter(minifig: MinifigDetail): boolean {
+    const term = this.searchTerm.toLowerCase();
+    return (!this.tagFilter || hasLineTag(this.getMinifigLineNote(minifig), this.tagFilter)) && (
+      minifig.minifig.name.toLowerCase().includes(term) ||
+      minifig.minifig.fig_num.toLowerCase().includes(term) ||
+      lineNoteMatches(this.getMinifigLineNote(minifig), term)
+    );
+  }
+
+  get isFiltered(): boolean {
+    return !!this.searchTerm || !!this.tagFilter;
+  }
+
+  /**
+   * Spare part and minifigure lines matching the part search and tag filter
+   */
+  get filteredSpareParts(): PartDetail[] {
+    return this.isFiltered ? this.spareParts.filter(part => this.matchesPartFilter(part)) : this.spareParts;
+  }
+
+  get filteredMinifigs(): MinifigDetail[] {
+    return this.isFiltered ? this.minifigs.filter(minifig => this.matchesMinifigFilter(minifig)) : this.minifigs;
   }
 
   updatePartQuantity(part: PartDetail, quantity: number): void {
+    if (this.isMissingPartsMode) {
+      this.updateMissingModeQuantity(part, quantity);
+      return;
+    }
     if (!this.userInventory) return;
 
     // Determine if this is a spare part by checking which array it belongs to
@@ -457,11 +608,17 @@ export class InventoryDetailComponent implements OnInit, OnDestroy {
     }
     partsOwned[key] = clampedQuantity;
 
+    // Conditions recorded for parts that are no longer owned are dropped, and restored on undo
+    const conditionChange = getConditionChange(this.userInventory, key, clampedQuantity);
+
     const updatedInventory: UserInventory = {
       ...this.userInventory,
       partsOwned: partsOwned,
       lastUpdated: Date.now()
     };
+    if (conditionChange.newConditions) {
+      updatedInventory.partConditions = setPartConditions(updatedInventory.partConditions, key, conditionChange.newConditions);
+    }
 
     this.userInventory = updatedInventory;
     this.storageService.updateUserInventory(updatedInventory);
@@ -473,6 +630,7 @@ export class InventoryDetailComponent implements OnInit, OnDestroy {
       key: key,
       previousQuantity: previousQuantity,
       newQuantity: clampedQuantity,
+      ...conditionChange,
       timestamp: Date.now(),
       description: `Changed ${part.part.name} quantity from ${previousQuantity} to ${clampedQuantity}`
     };
@@ -480,6 +638,10 @@ export class InventoryDetailComponent implements OnInit, OnDestroy {
   }
 
   updateMinifigQuantity(minifig: MinifigDetail, quantity: number): void {
+    if (this.isMissingPartsMode) {
+      this.updateMissingModeQuantity(minifig, quantity);
+      return;
+    }
     if (!this.userInventory) return;
 
     // Capture previous state for undo
@@ -525,6 +687,40 @@ export class InventoryDetailComponent implements OnInit, OnDestroy {
     this.addUndoAction(undoAction);
   }
 
+  /**
+   * Record a quantity edit from missing parts mode on the set the line belongs
+   * to. The change is applied to what that set records, which differs from the
+   * shown quantity when owned parts are shared between sets.
+   */
+  private updateMissingModeQuantity(line: PartDetail | MinifigDetail, quantity: number): void {
+    const inventory = this.userInventories.find(inv => inv.id === line.inventoryId);
+    if (!inventory) return;
+
+    const clampedQuantity = Math.max(0, Math.min(quantity, line.quantityNeeded));
+    if (clampedQuantity === line.quantityOwned) return;
+
+    const isPart = 'inventoryPart' in line;
+    const key = isPart
+      ? this.getPartStorageKey(line.inventoryPart.part_num, line.inventoryPart.color_id, line.inventoryPart.is_spare)
+      : line.inventoryMinifig.fig_num;
+    const previousQuantity = (isPart ? inventory.partsOwned : inventory.minifigsOwned)[key] || 0;
+    const newQuantity = Math.max(0, previousQuantity + clampedQuantity - line.quantityOwned);
+    line.quantityOwned = clampedQuantity;
+
+    const action: HistoryAction = {
+      type: isPart ? 'part' : 'minifig',
+      key,
+      previousQuantity,
+      newQuantity,
+      ...(isPart ? getConditionChange(inventory, key, newQuantity) : {}),
+      timestamp: Date.now(),
+      description: `Changed ${isPart ? line.part.name : line.minifig.name} quantity in ${line.setName} from ${previousQuantity} to ${newQuantity}`,
+      inventoryId: inventory.id
+    };
+    this.storageService.updateUserInventory(applyAction(inventory, action, false));
+    this.storageService.recordAction(action);
+  }
+
   /**
    * Update quantity for a specific minifigure part
    */
@@ -638,7 +834,7 @@ export class InventoryDetailComponent implements OnInit, OnDestroy {
   getPartImageUrl(partNum: string, colorId: number, elementId: string): string {
     // This would be replaced with actual image paths in a real implementation
     // return `assets/images/placeholder.svg?part=${partNum}&color=${colorId}`;
-    return `https://cdn.rebrickable.com/media/thumbs/parts/elements/${elementId}.jpg/800x800p.jpg?` + (Date.now() % 1000000);
+    return `https://cdn.rebrickable.com/media/thumbs/parts/elements/${elementId}.jpg/800x800p.jpg`;
   }
 
   getMinifigImageUrl(figNum: string): string {
@@ -646,6 +842,767 @@ export class InventoryDetailComponent implements OnInit, OnDestroy {
     return `assets/images/placeholder.svg?fig=${figNum}`;
   }
 
+  /**
+   * Relationship types accepted as substitutes in this inventory
+   */
+  getAcceptedSubstituteTypes(): SubstituteRelationshipType[] {
+    return getSubstituteRelationshipTypes(this.userInventory, this.globalSettings);
+  }
+
+  hasSubstituteTypeOverride(): boolean {
+    return !!this.userInventory?.substituteRelationshipTypes;
+  }
+
+  getAcceptedSubstituteTypesText(): string {
+    const types = this.getAcceptedSubstituteTypes();
+    return types.length > 0 ? types.map(type => this.substituteRelationshipLabels[type]).join(', ') : 'None';
+  }
+
+  getRelationshipLabel(relType: string): string {
+    return this.substituteRelationshipLabels[relType as SubstituteRelationshipType] || relType;
+  }
+
+  toggleInventorySubstituteType(type: SubstituteRelationshipType, accepted: boolean): void {
+    if (!this.userInventory) return;
+
+    const current = this.getAcceptedSubstituteTypes();
+    const types = accepted
+      ? this.substituteRelationshipTypes.filter(t => t === type || current.includes(t))
+      : current.filter(t => t !== type);
+
+    this.saveSubstituteTypes(types);
+  }
+
+  /**
+   * Drop this inventory's override and follow the global setting again
+   */
+  useGlobalSubstituteTypes(): void {
+    this.saveSubstituteTypes(undefined);
+  }
+
+  private saveSubstituteTypes(types: SubstituteRelationshipType[] | undefined): void {
+    if (!this.userInventory) return;
+
+    const updatedInventory: UserInventory = {
+      ...this.userInventory,
+      substituteRelationshipTypes: types,
+      lastUpdated: Date.now()
+    };
+
+    this.userInventory = updatedInventory;
+    this.storageService.updateUserInventory(updatedInventory);
+  }
+
+  startEditingCopyLabel(): void {
+    this.copyLabelDraft = this.userInventory?.copyLabel || '';
+    this.isEditingCopyLabel = true;
+  }
+
+  cancelEditingCopyLabel(): void {
+    this.isEditingCopyLabel = false;
+  }
+
+  /**
+   * Save the label that tells this copy apart from other copies of the set
+   */
+  saveCopyLabel(): void {
+    if (!this.userInventory) return;
+
+    const updatedInventory: UserInventory = {
+      ...this.userInventory,
+      copyLabel: this.copyLabelDraft.trim() || undefined,
+      lastUpdated: Date.now()
+    };
+
+    this.userInventory = updatedInventory;
+    this.storageService.updateUserInventory(updatedInventory);
+    this.isEditingCopyLabel = false;
+  }
+
+  /**
+   * Related part recorded as owned in place of a line, if any
+   */
+  getPartSubstitute(part: PartDetail): PartSubstitute | undefined {
+    const inventory = this.getPartInventory(part);
+    if (!inventory) return undefined;
+
+    const key = this.getPartStorageKey(part.inventoryPart.part_num, part.inventoryPart.color_id, part.inventoryPart.is_spare);
+    return getPartSubstitute(inventory, key);
+  }
+
+  /**
+   * Whether a line's recorded substitute is of a type its inventory accepts
+   */
+  isPartSubstituteAccepted(part: PartDetail): boolean {
+    const substitute = this.getPartSubstitute(part);
+    return !!substitute && isSubstituteAccepted(substitute, this.getPartSubstituteTypes(part));
+  }
+
+  /**
+   * Pieces of a line's substitute that count towards it
+   */
+  getSubstitutePartQuantity(part: PartDetail): number {
+    const inventory = this.getPartInventory(part);
+    if (!inventory) return 0;
+
+    const key = this.getPartStorageKey(part.inventoryPart.part_num, part.inventoryPart.color_id, part.inventoryPart.is_spare);
+    return Math.min(part.quantityNeeded, getSubstituteQuantity(inventory, key, this.getPartSubstituteTypes(part)));
+  }
+
+  private getPartSubstituteTypes(part: PartDetail): SubstituteRelationshipType[] {
+    return getSubstituteRelationshipTypes(this.getPartInventory(part), this.globalSettings);
+  }
+
+  openSubstitutePicker(part: PartDetail): void {
+    if (this.isMissingPartsMode) return;
+
+    this.substitutePickerPart = part;
+    this.substituteOptions = [];
+    this.substituteQuantityDraft = this.getPartSubstitute(part)?.quantity
+      || Math.max(1, part.quantityNeeded - part.quantityOwned);
+    this.loadingSubstitutes = true;
+
+    this.dataService.getRelatedParts(part.inventoryPart.part_num, this.getAcceptedSubstituteTypes()).subscribe({
+      next: options => {
+        // Ignore results for a picker that was closed or switched to another part meanwhile
+        if (this.substitutePickerPart !== part) return;
+        this.substituteOptions = options;
+        this.loadingSubstitutes = false;
+      },
+      error: error => {
+        console.error('Error loading related parts:', error);
+        this.loadingSubstitutes = false;
+      }
+    });
+  }
+
+  closeSubstitutePicker(): void {
+    this.substitutePickerPart = null;
+    this.substituteOptions = [];
+    this.loadingSubstitutes = false;
+  }
+
+  /**
+   * Record how many pieces of a related part are owned in place of a line,
+   * or clear the substitute with null
+   */
+  setPartSubstitute(part: PartDetail, option: RelatedPart | null): void {
+    if (!this.userInventory) return;
+
+    const key = this.getPartStorageKey(part.inventoryPart.part_num, part.inventoryPart.color_id, part.inventoryPart.is_spare);
+    const partSubstitutes = { ...this.userInventory.partSubstitutes };
+    if (option) {
+      partSubstitutes[key] = {
+        part_num: option.part_num,
+        rel_type: option.rel_type as SubstituteRelationshipType,
+        quantity: Math.max(0, Math.min(part.quantityNeeded, Math.floor(this.substituteQuantityDraft) || 0))
+      };
+    } else {
+      delete partSubstitutes[key];
+    }
+
+    const updatedInventory: UserInventory = {
+      ...this.userInventory,
+      partSubstitutes,
+      lastUpdated: Date.now()
+    };
+
+    this.userInventory = updatedInventory;
+    this.storageService.updateUserInventory(updatedInventory);
+    this.closeSubstitutePicker();
+  }
+
+  private loadStorageLocations(state: AppState): void {
+    this.storageLocationEntries = flattenLocationTree(state.storageLocations || []);
+    this.partLocations = state.partLocations || {};
+  }
+
+  private loadLineTags(state: AppState): void {
+    this.availableTags = collectLineTags(state.userInventories);
+    if (this.tagFilter && !this.availableTags.includes(this.tagFilter)) {
+      this.tagFilter = '';
+    }
+  }
+
+  getPartLocationId(part: PartDetail): string | undefined {
+    return this.partLocations[`${part.inventoryPart.part_num}_${part.inventoryPart.color_id}`];
+  }
+
+  /**
+   * Full path of the location a part/color is kept in, if one is set
+   */
+  getPartLocation(part: PartDetail): string | undefined {
+    const locationId = this.getPartLocationId(part);
+    return this.storageLocationEntries.find(entry => entry.location.id === locationId)?.path;
+  }
+
+  openLocationPicker(part: PartDetail): void {
+    this.locationPickerPart = part;
+  }
+
+  closeLocationPicker(): void {
+    this.locationPickerPart = null;
+  }
+
+  /**
+   * Record where a part/color is kept, or clear it with null
+   */
+  setPartLocation(part: PartDetail, locationId: string | null): void {
+    this.storageService.setPartLocation(part.inventoryPart.part_num, part.inventoryPart.color_id, locationId);
+    this.closeLocationPicker();
+  }
+
+  /**
+   * Tracked inventory a part line belongs to, in either mode
+   */
+  private getPartInventory(part: PartDetail): UserInventory | null | undefined {
+    return this.isMissingPartsMode
+      ? this.userInventories.find(inv => inv.id === part.inventoryId)
+      : this.userInventory;
+  }
+
+  private getPartConditions(part: PartDetail): PartConditionCounts {
+    const inventory = this.getPartInventory(part);
+    if (!inventory) return {};
+    const key = this.getPartStorageKey(part.inventoryPart.part_num, part.inventoryPart.color_id, part.inventoryPart.is_spare);
+    return getPartConditionCounts(inventory, key);
+  }
+
+  getPartConditionSummary(part: PartDetail): string {
+    return formatPartConditionCounts(this.getPartConditions(part));
+  }
+
+  /**
+   * Owned parts of a line in conditions that do not count towards progress
+   */
+  getUnacceptablePartQuantity(part: PartDetail): number {
+    const inventory = this.getPartInventory(part);
+    if (!inventory) return 0;
+    const key = this.getPartStorageKey(part.inventoryPart.part_num, part.inventoryPart.color_id, part.inventoryPart.is_spare);
+    return Math.min(part.quantityOwned, getUnacceptableQuantity(inventory, key, getAcceptablePartConditions(this.globalSettings)));
+  }
+
+  /**
+   * Parts of a line still needed; owned parts in conditions that are not
+   * acceptable are needed too, owned pieces of an accepted substitute are not
+   */
+  getMissingPartQuantity(part: PartDetail): number {
+    const inventory = this.getPartInventory(part);
+    if (!inventory) return Math.max(0, part.quantityNeeded - part.quantityOwned);
+    const key = this.getPartStorageKey(part.inventoryPart.part_num, part.inventoryPart.color_id, part.inventoryPart.is_spare);
+    return getMissingQuantity(
+      inventory, key, part.quantityNeeded, getAcceptablePartConditions(this.globalSettings),
+      this.getPartSubstituteTypes(part), part.quantityOwned
+    );
+  }
+
+  private sumMissingPartQuantity(parts: PartDetail[]): number {
+    return parts.reduce((total, part) => total + this.getMissingPartQuantity(part), 0);
+  }
+
+  openConditionEditor(part: PartDetail): void {
+    const counts = this.getPartConditions(part);
+    this.conditionDraft = { new: 0, used: 0, damaged: 0, yellowed: 0 };
+    this.partConditions.forEach(condition => this.conditionDraft[condition] = counts[condition] || 0);
+    this.conditionEditorPart = part;
+  }
+
+  closeConditionEditor(): void {
+    this.conditionEditorPart = null;
+  }
+
+  get conditionDraftTotal(): number {
+    return this.partConditions.reduce((total, condition) => total + (Number(this.conditionDraft[condition]) || 0), 0);
+  }
+
+  /**
+   * Save how the owned quantity of the line being edited splits by condition
+   */
+  saveConditions(): void {
+    const part = this.conditionEditorPart;
+    const inventory = part && this.getPartInventory(part);
+    if (!part || !inventory || this.conditionDraftTotal > part.quantityOwned) return;
+
+    const counts: PartConditionCounts = {};
+    this.partConditions.forEach(condition => {
+      const quantity = Math.floor(Number(this.conditionDraft[condition]) || 0);
+      if (quantity > 0) counts[condition] = quantity;
+    });
+
+    const key = this.getPartStorageKey(part.inventoryPart.part_num, part.inventoryPart.color_id, part.inventoryPart.is_spare);
+    const owned = inventory.partsOwned[key] || 0;
+    const summary = formatPartConditionCounts(counts) || 'none';
+    const action: HistoryAction = {
+      type: 'part',
+      key,
+      previousQuantity: owned,
+      newQuantity: owned,
+      previousConditions: inventory.partConditions?.[key] || {},
+      newConditions: counts,
+      timestamp: Date.now(),
+      description: this.isMissingPartsMode
+        ? `Recorded conditions of ${part.part.name} in ${part.setName}: ${summary}`
+        : `Recorded conditions of ${part.part.name}: ${summary}`,
+      inventoryId: inventory.id
+    };
+    const updatedInventory = applyAction(inventory, action, false);
+
+    if (!this.isMissingPartsMode) {
+      this.userInventory = updatedInventory;
+    }
+    this.storageService.updateUserInventory(updatedInventory);
+    this.storageService.recordAction(action);
+    this.closeConditionEditor();
+  }
+
+  getPartLineNote(part: PartDetail): InventoryLineNote | undefined {
+    const key = this.getPartStorageKey(part.inventoryPart.part_num, part.inventoryPart.color_id, part.inventoryPart.is_spare);
+    return this.getPartInventory(part)?.lineNotes?.[key];
+  }
+
+  getMinifigLineNote(minifig: MinifigDetail): InventoryLineNote | undefined {
+    return this.getMinifigInventory(minifig)?.lineNotes?.[minifig.inventoryMinifig.fig_num];
+  }
+
+  getMinifigPartLineNote(figNum: string, part: PartDetail): InventoryLineNote | undefined {
+    const inventory = this.getPartInventory(part);
+    if (!inventory) return undefined;
+    const key = this.getMinifigPartStorageKey(inventory.set_num, figNum, part.inventoryPart.part_num, part.inventoryPart.color_id);
+    return inventory.lineNotes?.[key];
+  }
+
+  private getMinifigInventory(minifig: MinifigDetail): UserInventory | null | undefined {
+    return this.isMissingPartsMode
+      ? this.userInventories.find(inv => inv.id === minifig.inventoryId)
+      : this.userInventory;
+  }
+
+  openPartNoteEditor(part: PartDetail): void {
+    const inventory = this.getPartInventory(part);
+    if (!inventory) return;
+    const key = this.getPartStorageKey(part.inventoryPart.part_num, part.inventoryPart.color_id, part.inventoryPart.is_spare);
+    this.openNoteEditor(inventory, key, `${part.part.part_num} ${part.part.name} in ${part.color.name}`);
+  }
+
+  openMinifigNoteEditor(minifig: MinifigDetail): void {
+    const inventory = this.getMinifigInventory(minifig);
+    if (!inventory) return;
+    this.openNoteEditor(inventory, minifig.inventoryMinifig.fig_num, `${minifig.minifig.fig_num} ${minifig.minifig.name}`);
+  }
+
+  openMinifigPartNoteEditor(figNum: string, part: PartDetail): void {
+    const inventory = this.getPartInventory(part);
+    if (!inventory) return;
+    const key = this.getMinifigPartStorageKey(inventory.set_num, figNum, part.inventoryPart.part_num, part.inventoryPart.color_id);
+    this.openNoteEditor(inventory, key, `${part.part.part_num} ${part.part.name} in ${part.color.name} (${figNum})`);
+  }
+
+  private openNoteEditor(inventory: UserInventory, key: string, title: string): void {
+    const lineNote = inventory.lineNotes?.[key];
+    this.noteDraft = lineNote?.note || '';
+    this.tagsDraft = (lineNote?.tags || []).join(', ');
+    this.noteEditorTarget = { inventory, key, title };
+  }
+
+  closeNoteEditor(): void {
+    this.noteEditorTarget = null;
+  }
+
+  addTagToDraft(tag: string): void {
+    this.tagsDraft = parseTags(`${this.tagsDraft},${tag}`).join(', ');
+  }
+
+  /**
+   * Save the note and tags of the line being edited; empty ones are removed
+   */
+  saveLineNote(): void {
+    if (!this.noteEditorTarget) return;
+    const { inventory, key } = this.noteEditorTarget;
+
+    const note = this.noteDraft.trim();
+    const tags = parseTags(this.tagsDraft);
+    const lineNotes = { ...inventory.lineNotes };
+    if (note || tags.length > 0) {
+      lineNotes[key] = {
+        ...(note ? { note } : {}),
+        ...(tags.length > 0 ? { tags } : {})
+      };
+    } else {
+      delete lineNotes[key];
+    }
+
+    const updatedInventory: UserInventory = {
+      ...inventory,
+      lineNotes,
+      lastUpdated: Date.now()
+    };
+
+    if (!this.isMissingPartsMode) {
+      this.userInventory = updatedInventory;
+    }
+    this.storageService.updateUserInventory(updatedInventory);
+    this.closeNoteEditor();
+    this.filterParts();
+  }
+
+  filterByTag(tag: string): void {
+    this.tagFilter = tag;
+    this.filterParts();
+  }
+
+  startEditingPurchase(): void {
+    const purchase = this.userInventory?.purchase || {};
+    this.purchaseDraft = {
+      date: purchase.date || '',
+      price: purchase.price ?? null,
+      currency: purchase.currency || '',
+      vendor: purchase.vendor || '',
+      hasBox: purchase.hasBox ?? false,
+      hasInstructions: purchase.hasInstructions ?? false
+    };
+    this.isEditingPurchase = true;
+  }
+
+  cancelEditingPurchase(): void {
+    this.isEditingPurchase = false;
+  }
+
+  /**
+   * Save where, when and for how much this copy was bought
+   */
+  savePurchase(): void {
+    if (!this.userInventory) return;
+
+    const draft = this.purchaseDraft;
+    const price = draft.price === null || String(draft.price) === '' ? NaN : Number(draft.price);
+    const purchase: InventoryPurchase = {
+      hasBox: draft.hasBox,
+      hasInstructions: draft.hasInstructions
+    };
+    if (draft.date) purchase.date = draft.date;
+    if (Number.isFinite(price) && price >= 0) purchase.price = price;
+    if (draft.currency.trim()) purchase.currency = draft.currency.trim().toUpperCase();
+    if (draft.vendor.trim()) purchase.vendor = draft.vendor.trim();
+
+    const updatedInventory: UserInventory = {
+      ...this.userInventory,
+      purchase,
+      lastUpdated: Date.now()
+    };
+
+    this.userInventory = updatedInventory;
+    this.storageService.updateUserInventory(updatedInventory);
+    this.isEditingPurchase = false;
+  }
+
+  clearPurchase(): void {
+    if (!this.userInventory || !confirm('Remove the purchase record of this set?')) return;
+
+    const { purchase, ...rest } = this.userInventory;
+    const updatedInventory: UserInventory = { ...rest, lastUpdated: Date.now() };
+
+    this.userInventory = updatedInventory;
+    this.storageService.updateUserInventory(updatedInventory);
+    this.isEditingPurchase = false;
+  }
+
+  /**
+   * Change the lifecycle status of this set, with the optional note typed beside it
+   */
+  changeStatus(status: InventoryStatus): void {
+    if (!this.userInventory) return;
+    this.storageService.setInventoryStatus(this.userInventory.id, status, this.statusNoteDraft);
+    this.statusNoteDraft = '';
+  }
+
+  get statusHistoryNewestFirst(): InventoryStatusChange[] {
+    return [...(this.userInventory?.statusHistory || [])].reverse();
+  }
+
+  get missingPartsExcludedStatuses(): InventoryStatus[] {
+    return getMissingPartsExcludedStatuses(this.globalSettings);
+  }
+
+  get excludedByStatusCount(): number {
+    return this.userInventories.length - this.missingPartsInventories.length;
+  }
+
+  /**
+   * Include or leave out sets with a status in missing parts mode
+   */
+  toggleMissingPartsStatus(status: InventoryStatus, included: boolean): void {
+    const current = this.missingPartsExcludedStatuses;
+    const statuses = included
+      ? current.filter(s => s !== status)
+      : this.inventoryStatuses.filter(s => s === status || current.includes(s));
+    this.storageService.updateGlobalSettings({ missingPartsExcludedStatuses: statuses });
+  }
+
+  openWantedListExport(): void {
+    this.wantedListSkipped = [];
+    this.wantedListEmpty = false;
+    this.showWantedListExport = true;
+  }
+
+  closeWantedListExport(): void {
+    this.showWantedListExport = false;
+  }
+
+  /**
+   * Download the shortages as a BrickLink wanted list. A search or tag filter
+   * applies to every section. Owned parts in conditions that do not count
+   * towards progress are wanted too.
+   */
+  exportWantedList(): void {
+    const partItems = (parts: PartDetail[]): WantedItem[] => parts.map(part => ({
+      type: 'part',
+      id: part.inventoryPart.part_num,
+      color_id: part.inventoryPart.color_id,
+      quantity: this.getMissingPartQuantity(part)
+    }));
+
+    const items: WantedItem[] = [];
+    if (this.wantedListInclude.parts) items.push(...partItems(this.filteredParts));
+    if (this.wantedListInclude.spareParts) items.push(...partItems(this.filteredSpareParts));
+    if (this.wantedListInclude.minifigs) {
+      items.push(...this.filteredMinifigs.map(minifig => ({
+        type: 'minifig' as const,
+        id: minifig.minifig.fig_num,
+        quantity: minifig.quantityNeeded - minifig.quantityOwned
+      })));
+    }
+
+    const { xml, itemCount, skipped } = buildWantedListXml(items, this.brickLinkMapping, this.wantedListOptions);
+    this.wantedListSkipped = skipped;
+    this.wantedListEmpty = itemCount === 0;
+    if (this.wantedListEmpty) return;
+
+    this.exportService.downloadFile(xml, `bricklink-wanted-list-${new Date().toISOString().slice(0, 10)}.xml`, 'application/xml');
+
+    if (skipped.length === 0) {
+      this.showWantedListExport = false;
+    }
+  }
+
+  openPartListCsv(): void {
+    this.partListImportText = '';
+    this.partListImportErrors = [];
+    this.partListImportMessage = '';
+    this.partListImportLeftOver = [];
+    this.partListNewCopyId = null;
+    this.showPartListCsv = true;
+  }
+
+  closePartListCsv(): void {
+    this.showPartListCsv = false;
+  }
+
+  /**
+   * Download the owned or missing regular and spare part lines as a
+   * Rebrickable part list CSV
+   */
+  exportPartList(kind: 'owned' | 'missing'): void {
+    const lines = mergePartListLines([...this.parts, ...this.spareParts].map(part => ({
+      part_num: part.inventoryPart.part_num,
+      color_id: part.inventoryPart.color_id,
+      quantity: kind === 'owned'
+        ? part.quantityOwned
+        : this.getMissingPartQuantity(part),
+      is_spare: part.inventoryPart.is_spare || undefined
+    }))).filter(line => line.quantity > 0);
+
+    const name = this.isMissingPartsMode ? 'missing-parts' : `${this.userInventory?.set_num}-${kind}-parts`;
+    this.exportService.downloadFile(formatPartListCsv(lines), `${name}-${new Date().toISOString().slice(0, 10)}.csv`, 'text/csv');
+  }
+
+  async onPartListFile(event: Event): Promise<void> {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    if (!file) return;
+
+    this.partListImportText = await file.text();
+    input.value = '';
+  }
+
+  /**
+   * Record owned quantities from a part list CSV on this set, or on a new copy
+   * of it. Parts the set does not contain and quantities beyond what it still
+   * needs are listed rather than recorded. An import into this set is one
+   * action that can be undone.
+   */
+  async importPartList(): Promise<void> {
+    const inventory = this.userInventory;
+    if (!inventory) return;
+
+    const { lines, errors } = parsePartListCsv(this.partListImportText);
+    this.partListImportErrors = errors;
+    this.partListNewCopyId = null;
+    if (lines.length === 0) {
+      this.partListImportMessage = 'No part lines found.';
+      this.partListImportLeftOver = [];
+      return;
+    }
+
+    const newCopy = this.partListImportTarget === 'new-copy';
+    const additive = !newCopy && !this.partListImportReplace;
+    if (!newCopy && this.partListImportReplace && !confirm('Replace the owned quantities of every part in this set with the imported list?')) return;
+
+    // Added to what is owned already, a line only takes what the set still needs
+    const setParts = [...this.parts, ...this.spareParts];
+    const partKey = (part: PartDetail) =>
+      this.getPartStorageKey(part.inventoryPart.part_num, part.inventoryPart.color_id, part.inventoryPart.is_spare);
+    const currentOwned = (part: PartDetail) => additive ? inventory.partsOwned[partKey(part)] || 0 : 0;
+    const { owned, unmatched, excess } = matchPartListToSet(lines, setParts.map(part => ({
+      ...part.inventoryPart,
+      quantity: Math.max(0, part.quantityNeeded - currentOwned(part))
+    })));
+    this.partListImportLeftOver = [...unmatched, ...excess];
+    const recorded = Object.values(owned).reduce((total, quantity) => total + quantity, 0);
+
+    if (newCopy) {
+      const state = await firstValueFrom(this.storageService.getState());
+      const copies = state.userInventories.filter(inv => inv.set_num === inventory.set_num);
+
+      // Label the first copy once there is more than one to tell apart
+      if (copies.length === 1 && !copies[0].copyLabel) {
+        this.storageService.updateUserInventory({ ...copies[0], copyLabel: 'Copy 1' });
+      }
+
+      const newInventory: UserInventory = {
+        id: uuidv4(),
+        set_num: inventory.set_num,
+        version: inventory.version,
+        name: inventory.name,
+        copyLabel: getNextCopyLabel(state.userInventories, inventory.set_num),
+        partsOwned: owned,
+        minifigsOwned: {},
+        minifigPartsOwned: {},
+        lastUpdated: Date.now()
+      };
+      this.storageService.addUserInventory(newInventory);
+      this.partListNewCopyId = newInventory.id;
+      this.partListImportMessage = `Created ${newInventory.copyLabel} with ${recorded} owned ${recorded === 1 ? 'part' : 'parts'}.`;
+      this.partListImportText = '';
+      return;
+    }
+
+    const changes: QuantityChange[] = [];
+    setParts.forEach(part => {
+      const key = partKey(part);
+      const previousQuantity = inventory.partsOwned[key] || 0;
+      const newQuantity = currentOwned(part) + (owned[key] || 0);
+      if (newQuantity !== previousQuantity) {
+        changes.push({ key, previousQuantity, newQuantity, ...getConditionChange(inventory, key, newQuantity) });
+        part.quantityOwned = newQuantity;
+      }
+    });
+
+    const fromLines = `from ${lines.length} ${lines.length === 1 ? 'line' : 'lines'}`;
+    this.partListImportMessage = additive
+      ? `Recorded ${recorded} owned ${recorded === 1 ? 'part' : 'parts'} ${fromLines}.`
+      : `Replaced the owned quantities with ${recorded} ${recorded === 1 ? 'part' : 'parts'} ${fromLines}.`;
+    this.partListImportText = '';
+    if (changes.length === 0) return;
+
+    const [first, ...additionalChanges] = changes;
+    const action: HistoryAction = {
+      type: 'part',
+      ...first,
+      additionalChanges,
+      timestamp: Date.now(),
+      description: `${additive ? 'Imported' : 'Replaced owned parts with'} a part list of ${recorded} ${recorded === 1 ? 'part' : 'parts'}`,
+      inventoryId: inventory.id
+    };
+    const updatedInventory = applyAction(inventory, action, false);
+    this.storageService.updateUserInventory(updatedInventory);
+    this.storageService.recordAction(action);
+    this.userInventory = updatedInventory;
+    this.updateCounts();
+  }
+
+  /**
+   * Switch to the printable checklist of the parts shown
+   */
+  async openPrintView(): Promise<void> {
+    try {
+      const categoryIds = Array.from(new globalThis.Set([...this.parts, ...this.spareParts].map(part => part.part.part_cat_id)));
+      const categories = await firstValueFrom(this.dataService.getPartCategoriesByIds(categoryIds));
+      this.partCategoryNames = new Map(categories.map(category => [category.id, category.name]));
+    } catch (error) {
+      // The checklist can still be printed, with every part under "Other" when grouped by category
+      console.error('Error loading part categories for the print view:', error);
+    }
+
+    try {
+      this.buildPrintGroups();
+      this.printedAt = Date.now();
+      this.showPrintView = true;
+      window.scrollTo(0, 0);
+    } catch (error) {
+      console.error('Error building the print view:', error);
+    }
+  }
+
+  closePrintView(): void {
+    this.showPrintView = false;
+  }
+
+  printChecklist(): void {
+    window.print();
+  }
+
+  buildPrintGroups(): void {
+    this.printPartGroups = this.groupPrintLines(this.filteredParts);
+    this.printSparePartGroups = this.groupPrintLines(this.spareParts);
+    this.printMinifigLines = this.minifigs
+      .map(minifig => {
+        const { quantity, ticked } = this.getPrintQuantity(minifig.quantityNeeded, minifig.quantityOwned);
+        return { minifig, quantity, boxes: this.getPrintBoxes(quantity, ticked) };
+      })
+      .filter(line => line.quantity > 0);
+  }
+
+  /**
+   * Boxes to print for a part or minifigure line: the missing ones in missing
+   * parts mode, otherwise the whole line with owned ones already ticked
+   */
+  private getPrintQuantity(needed: number, owned: number): { quantity: number; ticked: number } {
+    const missing = Math.max(0, needed - owned);
+    return this.isMissingPartsMode ? { quantity: missing, ticked: 0 } : { quantity: needed, ticked: needed - missing };
+  }
+
+  private getPrintBoxes(quantity: number, ticked: number): boolean[] {
+    return quantity > this.maxPrintBoxes ? [] : Array.from({ length: quantity }, (_, index) => index < ticked);
+  }
+
+  private groupPrintLines(parts: PartDetail[]): PrintGroup[] {
+    const groups = new Map<string, PrintGroup>();
+    parts.forEach(part => {
+      const acceptableOwned = part.quantityNeeded - this.getMissingPartQuantity(part);
+      const { quantity, ticked } = this.getPrintQuantity(part.quantityNeeded, acceptableOwned);
+      if (quantity === 0) return;
+
+      const title = this.printGroupBy === 'color'
+        ? part.color.name
+        : this.partCategoryNames.get(part.part.part_cat_id) || 'Other';
+      const group = groups.get(title) || {
+        title,
+        colorRgb: this.printGroupBy === 'color' ? `#${part.color.rgb}` : undefined,
+        lines: []
+      };
+      group.lines.push({ part, quantity, boxes: this.getPrintBoxes(quantity, ticked) });
+      groups.set(title, group);
+    });
+
+    return Array.from(groups.values())
+      .sort((a, b) => a.title.localeCompare(b.title))
+      .map(group => ({
+        ...group,
+        lines: group.lines.sort((a, b) =>
+          String(a.part.part.part_num).localeCompare(String(b.part.part.part_num), undefined, { numeric: true }))
+      }));
+  }
+
   markAllPartsOwned(owned: boolean): void {
     if (!this.userInventory) return;
 
@@ -750,36 +1707,25 @@ export class InventoryDetailComponent implements OnInit, OnDestroy {
    */
   private async updateMinifigPartsAsync(figNum: string, owned: boolean): Promise<void> {
     return new Promise((resolve, reject) => {
-      // Get all inventories and find the one for this minifigure
-      const allInventories = this.dataService.getCurrentInventories();
-      const minifigInventory = allInventories.find(inv => inv.set_num === figNum);
+      // Find the inventory for this minifigure
+      const minifigInventory = this.dataService.getInventoriesForSet(figNum)[0];
 
       if (!minifigInventory) {
         resolve(); // No inventory found, nothing to update
         return;
       }
 
-      // Get cached reference data
-      const allParts = this.dataService.getCurrentParts();
-      const allColors = this.dataService.getCurrentColors();
-      const allElements = this.dataService.getCurrentElements();
-
-      // Create quick lookup maps
-      const partsMap = new Map(allParts.map(p => [p.part_num, p]));
-      const colorsMap = new Map(allColors.map(c => [c.id, c]));
-      const elementsMap = new Map(allElements.map(e => [`${e.part_num}_${e.color_id}`, e.element_id]));
-
-      // Load inventory parts for this minifigure
-      this.dataService.getInventoryPartsFromCache(minifigInventory.id).subscribe({
-        next: (inventoryParts) => {
+      // Load inventory parts for this minifigure with their part, color and element records
+      this.loadInventoryPartsWithLookups(minifigInventory.id).subscribe({
+        next: ({ inventoryParts, lookups }) => {
           const partDetails: PartDetail[] = [];
 
           for (const invPart of inventoryParts) {
-            const part = partsMap.get(invPart.part_num);
-            const color = colorsMap.get(invPart.color_id);
+            const part = lookups.parts.get(invPart.part_num);
+            const color = lookups.colors.get(invPart.color_id);
 
             if (part && color) {
-              const elementId = elementsMap.get(`${invPart.part_num}_${invPart.color_id}`);
+              const elementId = lookups.elements.get(`${invPart.part_num}_${invPart.color_id}`)?.element_id;
               const storageKey = this.getMinifigPartStorageKey(
                 this.userInventory!.set_num,
                 figNum,
@@ -997,8 +1943,8 @@ export class InventoryDetailComponent implements OnInit, OnDestroy {
   comparePartsByField(a: PartDetail, b: PartDetail, field: SortOption['field']): number {
     switch (field) {
       case 'completion':
-        const aComplete = a.quantityOwned >= a.quantityNeeded;
-        const bComplete = b.quantityOwned >= b.quantityNeeded;
+        const aComplete = this.getMissingPartQuantity(a) === 0;
+        const bComplete = this.getMissingPartQuantity(b) === 0;
         if (aComplete === bComplete) return 0;
         return aComplete ? 1 : -1; // incomplete (missing) first
 
@@ -1023,8 +1969,8 @@ export class InventoryDetailComponent implements OnInit, OnDestroy {
         return aElementId.localeCompare(bElementId);
 
       case 'quantityMissing':
-        const aMissing = Math.max(0, a.quantityNeeded - a.quantityOwned);
-        const bMissing = Math.max(0, b.quantityNeeded - b.quantityOwned);
+        const aMissing = this.getMissingPartQuantity(a);
+        const bMissing = this.getMissingPartQuantity(b);
         return aMissing - bMissing;
 
       case 'quantityNeeded':
@@ -1089,8 +2035,8 @@ export class InventoryDetailComponent implements OnInit, OnDestroy {
   compareSparePartsByField(a: PartDetail, b: PartDetail, field: SortOption['field']): number {
     switch (field) {
       case 'completion':
-        const aComplete = a.quantityOwned >= a.quantityNeeded;
-        const bComplete = b.quantityOwned >= b.quantityNeeded;
+        const aComplete = this.getMissingPartQuantity(a) === 0;
+        const bComplete = this.getMissingPartQuantity(b) === 0;
         if (aComplete === bComplete) return 0;
         return aComplete ? 1 : -1; // incomplete (missing) first
 
@@ -1115,8 +2061,8 @@ export class InventoryDetailComponent implements OnInit, OnDestroy {
         return aElementId.localeCompare(bElementId);
 
       case 'quantityMissing':
-        const aMissing = Math.max(0, a.quantityNeeded - a.quantityOwned);
-        const bMissing = Math.max(0, b.quantityNeeded - b.quantityOwned);
+        const aMissing = this.getMissingPartQuantity(a);
+        const bMissing = this.getMissingPartQuantity(b);
         return aMissing - bMissing;
 
       case 'quantityNeeded':
@@ -1351,8 +2297,9 @@ export class InventoryDetailComponent implements OnInit, OnDestroy {
     // For higher resolution, try to get a larger version of the image
     // This assumes the image URL can be modified to get a larger version
     if (imageUrl.includes('https://cdn.rebrickable.com/media/') && !imageUrl.includes('https://cdn.rebrickable.com/media/thumbs/')) {
-      // replace https://cdn.rebrickable.com/media/ with https://cdn.rebrickable.com/media/thumbs/ and append a timestamp
-      return imageUrl.replace('https://cdn.rebrickable.com/media/', 'https://cdn.rebrickable.com/media/thumbs/')  + '/800x800p.jpg?' + Date.now();
+      // replace https://cdn.rebrickable.com/media/ with https://cdn.rebrickable.com/media/thumbs/
+      // (no cache-busting suffix, so the image cache and browser cache can serve it offline)
+      return imageUrl.replace('https://cdn.rebrickable.com/media/', 'https://cdn.rebrickable.com/media/thumbs/') + '/800x800p.jpg';
     }
     return imageUrl;
   }
@@ -1473,9 +2420,6 @@ export class InventoryDetailComponent implements OnInit, OnDestroy {
   private preloadAllMinifigParts(): void {
     if (!this.minifigs || this.minifigs.length === 0) return;
 
-    // Get all inventories to find minifigure inventories
-    const allInventories = this.dataService.getCurrentInventories();
-
     this.minifigs.forEach(minifig => {
       const figNum = minifig.minifig.fig_num;
 
@@ -1483,7 +2427,7 @@ export class InventoryDetailComponent implements OnInit, OnDestroy {
       if (this.minifigPartsCache.has(figNum)) return;
 
       // Find the inventory for this minifigure
-      const minifigInventory = allInventories.find(inv => inv.set_num === figNum);
+      const minifigInventory = this.dataService.getInventoriesForSet(figNum)[0];
       if (minifigInventory) {
         this.loadMinifigPartsAsync(figNum, minifigInventory.id);
       }
@@ -1502,8 +2446,14 @@ export class InventoryDetailComponent implements OnInit, OnDestroy {
           map(state => {
             // Load global settings
             this.globalSettings = { ...state.globalSettings };
+            this.loadStorageLocations(state);
+            this.loadLineTags(state);
+            this.loadActionHistory(state);
 
             const userInventory = state.userInventories.find(inv => inv.id === inventoryId);
+            this.parentInventory = state.userInventories.find(inv => inv.id === userInventory?.parentInventoryId) || null;
+            this.isOverAllocated = !!userInventory && state.globalSettings.partAllocationEnabled === true
+              && allocateParts(state).overAllocatedInventoryIds.has(userInventory.id);
             return userInventory || null;
           })
         );
@@ -1518,7 +2468,6 @@ export class InventoryDetailComponent implements OnInit, OnDestroy {
         this.updateCounts();
         this.applySorting();
         this.filterParts();
-        this.updateCanUndo();
 
         // Initialize minifigPartsOwned if it doesn't exist (for backward compatibility)
         if (!this.userInventory.minifigPartsOwned) {
@@ -1569,7 +2518,15 @@ export class InventoryDetailComponent implements OnInit, OnDestroy {
       switchMap(state => {
         // Load global settings
         this.globalSettings = { ...state.globalSettings };
+        this.loadStorageLocations(state);
+        this.loadLineTags(state);
+        this.loadActionHistory(state);
+        this.brickLinkMapping = getBrickLinkMapping(state);
         this.userInventories = state.userInventories;
+        this.partAllocation = state.globalSettings.partAllocationEnabled ? allocateParts(state) : null;
+
+        const excludedStatuses = getMissingPartsExcludedStatuses(state.globalSettings);
+        this.missingPartsInventories = state.userInventories.filter(inv => !inv.status || !excludedStatuses.includes(inv.status));
 
         if (this.userInventories.length === 0) {
           this.loading = false;
@@ -1614,16 +2571,12 @@ export class InventoryDetailComponent implements OnInit, OnDestroy {
   }
 
   private loadInventoryData(userInventory: UserInventory) {
-    // Get the inventory first
-    const allInventories = this.dataService.getCurrentInventories();
-
-    // Also try trimmed comparison
-    const trimmedMatches = allInventories.filter(inv =>
-      inv.set_num && inv.set_num.trim() === userInventory.set_num.trim()
-    );
+    // All inventories (versions) of this set, from the set number index
+    const inventoriesForThisSet = this.dataService.getInventoriesForSet(userInventory.set_num);
+    this.versionCount = inventoriesForThisSet.length;
 
-    const inventory = this.dataService.getCurrentInventories().find(inv =>
-      inv.set_num && inv.set_num.trim() === userInventory.set_num.trim() && Number(inv.version) === Number(userInventory.version)
+    const inventory = inventoriesForThisSet.find(inv =>
+      Number(inv.version) === Number(userInventory.version)
     );
 
     if (!inventory) {
@@ -1638,68 +2591,45 @@ export class InventoryDetailComponent implements OnInit, OnDestroy {
       s.set_num && s.set_num.trim() === userInventory.set_num.trim()
     );
 
-    // Get inventory parts and minifigs
-    const allInventoryParts = this.dataService.getCurrentInventoryParts();
-
-    // Let's also check if there are multiple inventories for this set
-    const inventoriesForThisSet = allInventories.filter(inv =>
-      inv.set_num && inv.set_num.trim() === userInventory.set_num.trim()
-    );
-
-    // Find the inventory with the most parts (prefer the user's version if it has parts)
-    let bestInventory = inventory; // Start with the exact match
-    let maxParts = allInventoryParts.filter((part: any) => part.inventory_id === inventory.id).length;
-
-    // If the user's version has no parts, find the version with the most parts
-    if (maxParts === 0) {
-      inventoriesForThisSet.forEach(inv => {
-        const partsCount = allInventoryParts.filter((part: any) => part.inventory_id === inv.id).length;
-        if (partsCount > maxParts) {
-          maxParts = partsCount;
-          bestInventory = inv;
+    // Prefer the user's version, but if it has no parts use the version with the most parts
+    return this.dataService.countInventoryParts(inventory.id).pipe(
+      switchMap(partsCount => partsCount > 0
+        ? of(inventory)
+        : this.findInventoryWithMostParts(inventoriesForThisSet, inventory)
+      ),
+      switchMap(bestInventory => {
+        if (bestInventory.id !== inventory.id) {
+          console.log(`Switching from version ${inventory.version} (${inventory.id}) to version ${bestInventory.version} (${bestInventory.id})`);
+          this.inventory = bestInventory;
         }
-      });
 
-      if (bestInventory.id !== inventory.id) {
-        console.log(`Switching from version ${inventory.version} (${inventory.id}) to version ${bestInventory.version} (${bestInventory.id}) which has ${maxParts} parts`);
-        this.inventory = bestInventory;
-      }
-    }
-
-    return forkJoin({
-      inventoryParts: this.dataService.getInventoryPartsFromCache(bestInventory.id),
-      inventoryMinifigs: this.dataService.getInventoryMinifigsFromCache(bestInventory.id)
-    }).pipe(
-      map((data: { inventoryParts: InventoryPart[], inventoryMinifigs: InventoryMinifig[] }) => {
-        const { inventoryParts, inventoryMinifigs } = data;
+        return forkJoin({
+          // The tracked version is measured against the part list it is pinned to
+          partsWithLookups: this.loadInventoryPartsWithLookups(bestInventory.id, bestInventory.id === inventory.id ? userInventory : undefined),
+          inventoryMinifigs: this.dataService.getInventoryMinifigsFromCache(bestInventory.id)
+        });
+      }),
+      map(({ partsWithLookups, inventoryMinifigs }) => {
+        const { inventoryParts, lookups } = partsWithLookups;
 
         // Migrate existing spare parts data if needed
         userInventory = this.migrateSparePartsData(userInventory, inventoryParts);
 
-        // Get cached reference data
-        const allParts = this.dataService.getCurrentParts();
-        const allColors = this.dataService.getCurrentColors();
-        const allElements = this.dataService.getCurrentElements();
-        const allMinifigs = this.dataService.getCurrentMinifigs();
-
-        // Create quick lookup maps (these are small and fast)
-        const partsMap = new Map(allParts.map(p => [p.part_num, p]));
-        const colorsMap = new Map(allColors.map(c => [c.id, c]));
-        const elementsMap = new Map(allElements.map(e => [`${e.part_num}_${e.color_id}`, e.element_id]));
-        const minifigsMap = new Map(allMinifigs.map(m => [m.fig_num, m]));
+        // Minifigures are a small resident table
+        const minifigsMap = new Map(this.dataService.getCurrentMinifigs().map(m => [m.fig_num, m]));
 
         // Process parts (simple and fast)
         const partDetails: PartDetail[] = [];
         const sparePartDetails: PartDetail[] = [];
 
         for (const invPart of inventoryParts) {
-          const part = partsMap.get(invPart.part_num);
-          const color = colorsMap.get(invPart.color_id);
+          const part = lookups.parts.get(invPart.part_num);
+          const color = lookups.colors.get(invPart.color_id);
 
           if (part && color) {
             const key = this.getPartStorageKey(invPart.part_num, invPart.color_id, invPart.is_spare);
             const quantityOwned = userInventory.partsOwned[key] || 0;
-            const elementId = elementsMap.get(`${invPart.part_num}_${invPart.color_id}`);
+            const elementId = lookups.elements.get(`${invPart.part_num}_${invPart.color_id}`)?.element_id;
 
             const partDetail: PartDetail = {
               inventoryPart: invPart,
@@ -1770,24 +2700,23 @@ export class InventoryDetailComponent implements OnInit, OnDestroy {
   }
 
   private loadAllMissingItemsData() {
-    // Get cached reference data
-    const allInventories = this.dataService.getCurrentInventories();
-    const allParts = this.dataService.getCurrentParts();
-    const allColors = this.dataService.getCurrentColors();
-    const allElements = this.dataService.getCurrentElements();
-    const allMinifigs = this.dataService.getCurrentMinifigs();
-
-    // Create quick lookup maps
-    const partsMap = new Map(allParts.map(p => [p.part_num, p]));
-    const colorsMap = new Map(allColors.map(c => [c.id, c]));
-    const elementsMap = new Map(allElements.map(e => [`${e.part_num}_${e.color_id}`, e.element_id]));
-    const minifigsMap = new Map(allMinifigs.map(m => [m.fig_num, m]));
+    // Minifigures are a small resident table
+    const minifigsMap = new Map(this.dataService.getCurrentMinifigs().map(m => [m.fig_num, m]));
+
+    const acceptableConditions = getAcceptablePartConditions(this.globalSettings);
 
     // Process each user inventory
-    const inventoryObservables = this.userInventories.map(userInventory => {
-      // Get the inventory from cached data
-      const inventory = allInventories.find(inv =>
-        inv.set_num === userInventory.set_num && Number(inv.version) === Number(userInventory.version)
+    const inventoryObservables = this.missingPartsInventories.map(userInventory => {
+      const substituteTypes = getSubstituteRelationshipTypes(userInventory, this.globalSettings);
+
+      // With part allocation a set only owns what it was allocated from the shared stock
+      const partsOwned = this.partAllocation
+        ? this.partAllocation.partsOwned.get(userInventory.id) || {}
+        : userInventory.partsOwned;
+
+      // Get the inventory from the set number index
+      const inventory = this.dataService.getInventoriesForSet(userInventory.set_num).find(inv =>
+        Number(inv.version) === Number(userInventory.version)
       );
 
       if (!inventory) {
@@ -1796,11 +2725,11 @@ export class InventoryDetailComponent implements OnInit, OnDestroy {
 
       // Get inventory parts and minifigs
       return forkJoin({
-        inventoryParts: this.dataService.getInventoryPartsFromCache(inventory.id),
+        partsWithLookups: this.loadInventoryPartsWithLookups(inventory.id, userInventory),
         inventoryMinifigs: this.dataService.getInventoryMinifigsFromCache(inventory.id)
       }).pipe(
-        map((data: { inventoryParts: InventoryPart[], inventoryMinifigs: InventoryMinifig[] }) => {
-          const { inventoryParts, inventoryMinifigs } = data;
+        map(({ partsWithLookups, inventoryMinifigs }) => {
+          const { inventoryParts, lookups } = partsWithLookups;
 
           const partDetails: PartDetail[] = [];
           const sparePartDetails: PartDetail[] = [];
@@ -1808,15 +2737,15 @@ export class InventoryDetailComponent implements OnInit, OnDestroy {
           // Process parts - only include missing ones
           for (const invPart of inventoryParts) {
             const key = this.getPartStorageKey(invPart.part_num, invPart.color_id, invPart.is_spare);
-            const quantityOwned = userInventory.partsOwned[key] || 0;
+            const quantityOwned = partsOwned[key] || 0;
 
-            // Only include if missing
-            if (quantityOwned < invPart.quantity) {
-              const part = partsMap.get(invPart.part_num);
-              const color = colorsMap.get(invPart.color_id);
+            // Only include if missing; owned parts in conditions that are not acceptable are missing too
+            if (getMissingQuantity(userInventory, key, invPart.quantity, acceptableConditions, substituteTypes, quantityOwned) > 0) {
+              const part = lookups.parts.get(invPart.part_num);
+              const color = lookups.colors.get(invPart.color_id);
 
               if (part && color) {
-                const elementId = elementsMap.get(`${invPart.part_num}_${invPart.color_id}`);
+                const elementId = lookups.elements.get(`${invPart.part_num}_${invPart.color_id}`)?.element_id;
 
                 const partDetail: PartDetail = {
                   inventoryPart: invPart,
@@ -1827,7 +2756,7 @@ export class InventoryDetailComponent implements OnInit, OnDestroy {
                   quantityOwned: quantityOwned,
                   elementId: elementId,
                   // Set information for missing parts mode
-                  setName: userInventory.name,
+                  setName: getInventoryDisplayName(userInventory),
                   setNum: userInventory.set_num,
                   inventoryId: userInventory.id
                 };
@@ -1858,7 +2787,7 @@ export class InventoryDetailComponent implements OnInit, OnDestroy {
                   quantityNeeded: invMinifig.quantity,
                   quantityOwned: quantityOwned,
                   // Set information for missing parts mode
-                  setName: userInventory.name,
+                  setName: getInventoryDisplayName(userInventory),
                   setNum: userInventory.set_num,
                   inventoryId: userInventory.id
                 });
@@ -1875,6 +2804,11 @@ export class InventoryDetailComponent implements OnInit, OnDestroy {
       );
     });
 
+    // forkJoin of nothing would never emit
+    if (inventoryObservables.length === 0) {
+      return of({ parts: [], spareParts: [], minifigs: [], set: null });
+    }
+
     return forkJoin(inventoryObservables).pipe(
       map(results => {
         // Flatten all missing parts and minifigs from all inventories
@@ -1898,6 +2832,44 @@ export class InventoryDetailComponent implements OnInit, OnDestroy {
     );
   }
 
+  /**
+   * Load an inventory's parts together with their part, color and element records.
+   * Given the tracked inventory, its pinned part list is loaded instead.
+   */
+  private loadInventoryPartsWithLookups(inventoryId: number, userInventory?: UserInventory): Observable<{ inventoryParts: InventoryPart[], lookups: PartLookups }> {
+    const inventoryParts$ = userInventory
+      ? from(this.snapshotService.getPinnedParts(userInventory))
+      : this.dataService.getInventoryPartsFromCache(inventoryId);
+    return inventoryParts$.pipe(
+      switchMap(inventoryParts => this.dataService.getPartLookups(inventoryParts).pipe(
+        map(lookups => ({ inventoryParts, lookups }))
+      ))
+    );
+  }
+
+  /**
+   * Pick the inventory version with the most parts, counted through the inventory_id index
+   */
+  private findInventoryWithMostParts(inventories: Inventory[], fallback: Inventory): Observable<Inventory> {
+    if (inventories.length === 0) {
+      return of(fallback);
+    }
+
+    return forkJoin(inventories.map(inv => this.dataService.countInventoryParts(inv.id))).pipe(
+      map(counts => {
+        let bestInventory = fallback;
+        let maxParts = 0;
+        counts.forEach((partsCount, i) => {
+          if (partsCount > maxParts) {
+            maxParts = partsCount;
+            bestInventory = inventories[i];
+          }
+        });
+        return bestInventory;
+      })
+    );
+  }
+
   private loadDefaultPreferencesForMissingMode(): void {
     // Use default sorting for missing parts mode
     this.initializeDefaultSorting();
@@ -1924,6 +2896,9 @@ export class InventoryDetailComponent implements OnInit, OnDestroy {
       if (this.isMissingPartsMode) {
         await this.loadMissingPartsData();
       } else if (inventoryId) {
+        this.snapshotService.getChange(inventoryId).subscribe(change => {
+          this.definitionChanged = !!change;
+        });
         await this.loadStandardInventoryData();
       }
 
@@ -1938,67 +2913,119 @@ export class InventoryDetailComponent implements OnInit, OnDestroy {
 
   private setupKeyboardListeners(): void {
     // Listen for keyboard events on the document
-    document.addEventListener('keydown', this.handleKeyDown.bind(this));
+    document.addEventListener('keydown', this.keyDownListener);
   }
 
   ngOnDestroy(): void {
     // Clean up keyboard event listener
-    document.removeEventListener('keydown', this.handleKeyDown.bind(this));
+    document.removeEventListener('keydown', this.keyDownListener);
   }
 
   private handleKeyDown(event: KeyboardEvent): void {
-    // Check for CMD+Z (Mac) or CTRL+Z (Windows/Linux)
-    if (event.key === 'z' && (event.metaKey || event.ctrlKey) && !event.shiftKey) {
+    if (!(event.metaKey || event.ctrlKey)) return;
+
+    // Leave text fields their own undo
+    const target = event.target as HTMLElement | null;
+    if (target instanceof HTMLTextAreaElement || (target instanceof HTMLInputElement && target.type === 'text')) return;
+
+    const key = event.key.toLowerCase();
+    if (key === 'z' && !event.shiftKey) {
+      // CMD+Z (Mac) or CTRL+Z (Windows/Linux)
       event.preventDefault();
       this.performUndo();
+    } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+      // CMD+Shift+Z or CTRL+Y
+      event.preventDefault();
+      this.performRedo();
     }
   }
 
   private addUndoAction(action: UndoAction): void {
     if (!this.userInventory) return;
+    this.storageService.recordAction({ ...action, inventoryId: this.userInventory.id });
+  }
 
-    if (!this.userInventory.undoHistory) {
-      this.userInventory.undoHistory = [];
-    }
-
-    // Add the action to the beginning of the array
-    this.userInventory.undoHistory.unshift(action);
-
-    // Limit to maxUndoHistory actions
-    if (this.userInventory.undoHistory.length > this.maxUndoHistory) {
-      this.userInventory.undoHistory = this.userInventory.undoHistory.slice(0, this.maxUndoHistory);
-    }
+  private loadActionHistory(state: AppState): void {
+    const history = getActionHistory(state);
+    this.actionHistory = history;
+    this.canUndo = history.position > 0;
+    this.canRedo = history.position < history.actions.length;
 
-    this.updateCanUndo();
-    this.saveUserInventory();
+    const inventoriesById = new Map(state.userInventories.map(inv => [inv.id, inv]));
+    this.historyEntries = history.actions
+      .map((action, index) => {
+        const inventory = inventoriesById.get(action.inventoryId);
+        return {
+          action,
+          position: index + 1, // Applied actions once this one is the latest
+          applied: index < history.position,
+          setName: inventory ? getInventoryDisplayName(inventory) : action.inventoryId
+        };
+      })
+      .reverse();
   }
 
-  private updateCanUndo(): void {
-    this.canUndo = this.userInventory?.undoHistory && this.userInventory.undoHistory.length > 0 || false;
+  get undoCount(): number {
+    return this.actionHistory.position;
   }
 
   performUndo(): void {
-    if (!this.userInventory?.undoHistory || this.userInventory.undoHistory.length === 0) {
-      return;
+    if (!this.canUndo) return;
+
+    const [step] = this.moveActionHistory(this.actionHistory.position - 1);
+    if (step) {
+      this.showUndoNotificationMessage(`Undone: ${step.action.description}`);
     }
+  }
 
-    const lastAction = this.userInventory.undoHistory.shift();
-    if (!lastAction) return;
+  performRedo(): void {
+    if (!this.canRedo) return;
 
-    // Apply the undo without creating a new undo action
-    if (lastAction.type === 'part') {
-      this.updatePartQuantityInternal(lastAction.key, lastAction.previousQuantity);
-    } else if (lastAction.type === 'minifig') {
-      this.updateMinifigQuantityInternal(lastAction.key, lastAction.previousQuantity);
-    } else if (lastAction.type === 'minifig-part') {
-      this.updateMinifigPartQuantityInternal(lastAction.key, lastAction.previousQuantity);
+    const [step] = this.moveActionHistory(this.actionHistory.position + 1);
+    if (step) {
+      this.showUndoNotificationMessage(`Redone: ${step.action.description}`);
     }
+  }
+
+  /**
+   * Undo or redo every action after or up to the chosen one in the history panel
+   */
+  jumpToHistoryPosition(position: number): void {
+    const steps = this.moveActionHistory(position);
+    if (steps.length === 0) return;
 
-    this.updateCanUndo();
-    this.saveUserInventory();
+    const undone = steps.filter(step => step.undone).length;
+    this.showUndoNotificationMessage(undone > 0
+      ? `Undone ${undone} ${undone === 1 ? 'action' : 'actions'}`
+      : `Redone ${steps.length} ${steps.length === 1 ? 'action' : 'actions'}`);
+  }
 
-    // Show undo notification
-    this.showUndoNotificationMessage(`Undone: ${lastAction.description}`);
+  toggleHistoryPanel(): void {
+    this.showHistoryPanel = !this.showHistoryPanel;
+  }
+
+  /**
+   * Step through the saved history and show the restored quantities of this
+   * set's lines, including minifigure parts that are not reloaded with it
+   */
+  private moveActionHistory(position: number): { action: HistoryAction; undone: boolean }[] {
+    const steps = this.storageService.moveActionHistory(position);
+
+    steps.forEach(({ action, undone }) => {
+      if (this.isMissingPartsMode || action.inventoryId !== this.userInventory?.id) return;
+
+      getActionChanges(action).forEach(change => {
+        const quantity = undone ? change.previousQuantity : change.newQuantity;
+        if (action.type === 'part') {
+          this.updatePartQuantityInternal(change.key, quantity, undone ? change.previousConditions : change.newConditions);
+        } else if (action.type === 'minifig') {
+          this.updateMinifigQuantityInternal(change.key, quantity);
+        } else if (action.type === 'minifig-part') {
+          this.updateMinifigPartQuantityInternal(change.key, quantity);
+        }
+      });
+    });
+    return steps;
   }
 
   private showUndoNotificationMessage(message: string): void {
@@ -2011,17 +3038,14 @@ export class InventoryDetailComponent implements OnInit, OnDestroy {
     }, 3000);
   }
 
-  private saveUserInventory(): void {
-    if (this.userInventory) {
-      this.storageService.updateUserInventory(this.userInventory);
-    }
-  }
-
-  private updatePartQuantityInternal(key: string, quantity: number): void {
+  private updatePartQuantityInternal(key: string, quantity: number, conditions?: PartConditionCounts): void {
     if (!this.userInventory) return;
 
     // Update storage without creating undo action
     this.userInventory.partsOwned[key] = quantity;
+    if (conditions) {
+      this.userInventory.partConditions = setPartConditions(this.userInventory.partConditions, key, conditions);
+    }
 
     // Update the part in the current parts list
     const part = this.parts.find(p => this.getPartStorageKey(p.inventoryPart.part_num, p.inventoryPart.color_id, p.inventoryPart.is_spare) === key);
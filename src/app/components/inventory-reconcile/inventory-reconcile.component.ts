@@ -0,0 +1,116 @@
+import { Component, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ActivatedRoute, Router, RouterLink } from '@angular/router';
+import { combineLatest, of, switchMap } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { DataService, PartLookups } from '../../services/data.service';
+import { StorageService } from '../../services/storage.service';
+import { InventoryDefinitionChange, InventorySnapshotService } from '../../services/inventory-snapshot.service';
+import { CatalogPartChange, UserInventory } from '../../models/models';
+
+/**
+ * Guided review of upstream catalog changes to a tracked inventory before
+ * adopting the new definition
+ */
+@Component({
+  selector: 'app-inventory-reconcile',
+  standalone: true,
+  imports: [CommonModule, RouterLink],
+  templateUrl: './inventory-reconcile.component.html',
+  styleUrls: ['./inventory-reconcile.component.css']
+})
+export class InventoryReconcileComponent implements OnInit {
+  userInventory: UserInventory | null = null;
+  change: InventoryDefinitionChange | null = null;
+  lookups: PartLookups | null = null;
+  currentRelease: string | null = null;
+  loading = true;
+  adopting = false;
+
+  constructor(
+    private route: ActivatedRoute,
+    private router: Router,
+    private dataService: DataService,
+    private storageService: StorageService,
+    private snapshotService: InventorySnapshotService
+  ) {}
+
+  ngOnInit(): void {
+    this.currentRelease = this.dataService.getCatalogRelease();
+
+    this.route.paramMap.pipe(
+      switchMap(params => {
+        const inventoryId = params.get('id') || '';
+        return combineLatest([
+          this.storageService.getState().pipe(
+            map(state => state.userInventories.find(inv => inv.id === inventoryId) || null)
+          ),
+          this.snapshotService.getChange(inventoryId)
+        ]);
+      }),
+      switchMap(([userInventory, change]) => {
+        this.userInventory = userInventory;
+        this.change = change || null;
+        if (!change) {
+          return of(null);
+        }
+        return this.dataService.getPartLookups([...(change.previousParts || []), ...change.currentParts]);
+      })
+    ).subscribe({
+      next: lookups => {
+        this.lookups = lookups;
+        this.loading = false;
+      },
+      error: error => {
+        console.error('Error loading catalog changes:', error);
+        this.loading = false;
+      }
+    });
+  }
+
+  get totalChanges(): number {
+    if (!this.change) return 0;
+    const { added, removed, changed } = this.change.diff;
+    return added.length + removed.length + changed.length;
+  }
+
+  getPartName(partNum: string): string {
+    return this.lookups?.parts.get(partNum)?.name || partNum;
+  }
+
+  getColorName(colorId: number): string {
+    return this.lookups?.colors.get(colorId)?.name || `Color ${colorId}`;
+  }
+
+  getColorRgb(colorId: number): string {
+    const rgb = this.lookups?.colors.get(colorId)?.rgb;
+    return rgb ? `#${rgb}` : 'transparent';
+  }
+
+  /**
+   * Quantity of a line the user has marked as owned
+   */
+  getOwnedQuantity(line: CatalogPartChange): number {
+    if (!this.userInventory) return 0;
+    const baseKey = `${line.part_num}_${line.color_id}`;
+    const key = line.is_spare ? `spare_${baseKey}` : baseKey;
+    return this.userInventory.partsOwned[key] || 0;
+  }
+
+  /**
+   * Accept the current catalog definition and return to the inventory
+   */
+  async adoptNewDefinition(): Promise<void> {
+    if (!this.userInventory || this.adopting) return;
+
+    this.adopting = true;
+    try {
+      await this.snapshotService.adoptCurrentDefinition(this.userInventory.id);
+      this.router.navigate(['/inventory', this.userInventory.id]);
+    } catch (error) {
+      console.error('Failed to adopt the new catalog definition:', error);
+    } finally {
+      this.adopting = false;
+    }
+  }
+}
@@ -0,0 +1,249 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { RouterLink } from '@angular/router';
+import { Subscription, firstValueFrom } from 'rxjs';
+import { DataService, PartLookups } from '../../services/data.service';
+import { StorageService } from '../../services/storage.service';
+import { AppState, InventoryPart, UserInventory } from '../../models/models';
+import { StorageLocationEntry, flattenLocationTree, getLocationAndDescendantIds } from '../../utils/storage-locations';
+import { collectOwnedParts } from '../../utils/owned-parts';
+import { getInventoryDisplayName } from '../../utils/inventory-copies';
+
+/**
+ * How much of a stored part/color one tracked set uses
+ */
+interface LocationPartUse {
+  inventory: UserInventory;
+  needed: number;
+  owned: number;
+}
+
+interface LocationPartRow {
+  key: string;
+  part_num: string;
+  color_id: number;
+  locationPath: string;
+  owned: number; // Across tracked sets, minifigures and loose parts
+  uses: LocationPartUse[];
+}
+
+/**
+ * Storage location hierarchy with the parts kept in each location and the
+ * tracked sets that use them
+ */
+@Component({
+  selector: 'app-locations',
+  standalone: true,
+  imports: [CommonModule, FormsModule, RouterLink],
+  templateUrl: './locations.component.html',
+  styleUrls: ['./locations.component.css']
+})
+export class LocationsComponent implements OnInit, OnDestroy {
+  entries: StorageLocationEntry[] = [];
+  selectedLocationId: string | null = null;
+  includeNested = true;
+  rows: LocationPartRow[] = [];
+  lookups: PartLookups | null = null;
+  loadingRows = false;
+
+  // Add location form
+  newLocationName = '';
+  newLocationParentId = '';
+
+  // Rename
+  editingLocationId: string | null = null;
+  renameDraft = '';
+
+  private state: AppState | null = null;
+  private partCounts = new Map<string, number>(); // Location id -> assigned part/color lines
+  private setPartsCache = new Map<string, InventoryPart[]>(); // `${set_num}_${version}` -> catalog parts
+  private stateSubscription: Subscription | null = null;
+  private loadId = 0;
+
+  constructor(
+    private dataService: DataService,
+    private storageService: StorageService
+  ) {}
+
+  ngOnInit(): void {
+    this.stateSubscription = this.storageService.getState().subscribe(state => {
+      this.state = state;
+      this.entries = flattenLocationTree(state.storageLocations || []);
+
+      this.partCounts = new Map();
+      Object.values(state.partLocations || {}).forEach(locationId =>
+        this.partCounts.set(locationId, (this.partCounts.get(locationId) || 0) + 1));
+
+      if (this.selectedLocationId && !this.entries.some(entry => entry.location.id === this.selectedLocationId)) {
+        this.selectedLocationId = null;
+      }
+      this.loadRows();
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.stateSubscription?.unsubscribe();
+  }
+
+  get selectedEntry(): StorageLocationEntry | undefined {
+    return this.entries.find(entry => entry.location.id === this.selectedLocationId);
+  }
+
+  getPartCount(locationId: string): number {
+    return this.partCounts.get(locationId) || 0;
+  }
+
+  selectLocation(locationId: string): void {
+    this.selectedLocationId = locationId;
+    this.loadRows();
+  }
+
+  toggleIncludeNested(): void {
+    this.loadRows();
+  }
+
+  addLocation(): void {
+    const name = this.newLocationName.trim();
+    if (!name) return;
+
+    const location = this.storageService.addStorageLocation(name, this.newLocationParentId || undefined);
+    this.newLocationName = '';
+    this.selectLocation(location.id);
+  }
+
+  /**
+   * Prefill the add form to create a location inside another one
+   */
+  addInside(entry: StorageLocationEntry): void {
+    this.newLocationParentId = entry.location.id;
+    this.newLocationName = '';
+  }
+
+  startRename(entry: StorageLocationEntry): void {
+    this.editingLocationId = entry.location.id;
+    this.renameDraft = entry.location.name;
+  }
+
+  cancelRename(): void {
+    this.editingLocationId = null;
+  }
+
+  saveRename(): void {
+    const name = this.renameDraft.trim();
+    if (this.editingLocationId && name) {
+      this.storageService.renameStorageLocation(this.editingLocationId, name);
+    }
+    this.editingLocationId = null;
+  }
+
+  deleteLocation(entry: StorageLocationEntry): void {
+    const target = entry.location.parentId ? 'its parent location' : 'no location';
+    if (!confirm(`Delete "${entry.path}"? Locations and parts inside it move to ${target}.`)) return;
+    this.storageService.deleteStorageLocation(entry.location.id);
+  }
+
+  clearPartLocation(row: LocationPartRow): void {
+    this.storageService.setPartLocation(row.part_num, row.color_id, null);
+  }
+
+  getInventoryDisplayName(inventory: UserInventory): string {
+    return getInventoryDisplayName(inventory);
+  }
+
+  getPartName(partNum: string): string {
+    return this.lookups?.parts.get(partNum)?.name || partNum;
+  }
+
+  getColorName(colorId: number): string {
+    return this.lookups?.colors.get(colorId)?.name || `Color ${colorId}`;
+  }
+
+  getColorRgb(colorId: number): string {
+    const rgb = this.lookups?.colors.get(colorId)?.rgb;
+    return rgb ? `#${rgb}` : 'transparent';
+  }
+
+  trackEntry(index: number, entry: StorageLocationEntry): string {
+    return entry.location.id;
+  }
+
+  trackRow(index: number, row: LocationPartRow): string {
+    return row.key;
+  }
+
+  private async loadRows(): Promise<void> {
+    const loadId = ++this.loadId;
+    const state = this.state;
+    if (!state || !this.selectedLocationId) {
+      this.rows = [];
+      return;
+    }
+
+    const locationIds = this.includeNested
+      ? getLocationAndDescendantIds(state.storageLocations || [], this.selectedLocationId)
+      : new globalThis.Set([this.selectedLocationId]);
+    const paths = new Map(this.entries.map(entry => [entry.location.id, entry.path]));
+    const owned = collectOwnedParts(state);
+
+    const rows: LocationPartRow[] = Object.entries(state.partLocations || {})
+      .filter(([, locationId]) => locationIds.has(locationId))
+      .map(([key, locationId]) => {
+        const separator = key.lastIndexOf('_');
+        return {
+          key,
+          part_num: key.slice(0, separator),
+          color_id: Number(key.slice(separator + 1)),
+          locationPath: paths.get(locationId) || '',
+          owned: owned.get(key) || 0,
+          uses: []
+        };
+      });
+
+    this.loadingRows = true;
+    try {
+      const [lookups, setParts] = await Promise.all([
+        firstValueFrom(this.dataService.getPartLookups(rows)),
+        this.loadSetParts(state.userInventories)
+      ]);
+      if (loadId !== this.loadId) return;
+
+      const byKey = new Map(rows.map(row => [row.key, row]));
+      state.userInventories.forEach(inventory => {
+        const uses = new Map<string, LocationPartUse>();
+        (setParts.get(`${inventory.set_num}_${inventory.version}`) || []).forEach(part => {
+          const key = `${part.part_num}_${part.color_id}`;
+          if (!byKey.has(key)) return;
+          const use = uses.get(key) || { inventory, needed: 0, owned: 0 };
+          use.needed += part.quantity;
+          use.owned += inventory.partsOwned[`${part.is_spare ? 'spare_' : ''}${key}`] || 0;
+          uses.set(key, use);
+        });
+        uses.forEach((use, key) => byKey.get(key)!.uses.push(use));
+      });
+
+      this.lookups = lookups;
+      this.rows = rows.sort((a, b) =>
+        a.locationPath.localeCompare(b.locationPath)
+        || a.part_num.localeCompare(b.part_num, undefined, { numeric: true })
+        || a.color_id - b.color_id);
+    } catch (error) {
+      console.error('Error loading location contents:', error);
+    } finally {
+      if (loadId === this.loadId) this.loadingRows = false;
+    }
+  }
+
+  /**
+   * Catalog parts of every tracked set, loaded once per set and version
+   */
+  private async loadSetParts(inventories: UserInventory[]): Promise<Map<string, InventoryPart[]>> {
+    await Promise.all(inventories.map(async inventory => {
+      const key = `${inventory.set_num}_${inventory.version}`;
+      if (this.setPartsCache.has(key)) return;
+      const parts = await firstValueFrom(this.dataService.getSetInventoryPartsBySetNum(inventory.set_num, inventory.version));
+      this.setPartsCache.set(key, parts);
+    }));
+    return this.setPartsCache;
+  }
+}
@@ -0,0 +1,199 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subscription, firstValueFrom } from 'rxjs';
+import { DataService, PartLookups } from '../../services/data.service';
+import { StorageService } from '../../services/storage.service';
+import { ExportService } from '../../services/export.service';
+import { CachedImageDirective } from '../../directives/cached-image.directive';
+import { Color } from '../../models/models';
+import { PartListLine, formatPartListCsv, parsePartListCsv, toPartListLines } from '../../utils/part-list-csv';
+
+interface LoosePartRow extends PartListLine {
+  name: string;
+  colorName: string;
+  colorRgb: string;
+  imageUrl: string;
+}
+
+/**
+ * Parts kept in bulk storage rather than with a set: editable, searchable
+ * and importable from a part list CSV
+ */
+@Component({
+  selector: 'app-loose-parts',
+  standalone: true,
+  imports: [CommonModule, FormsModule, CachedImageDirective],
+  templateUrl: './loose-parts.component.html',
+  styleUrls: ['./loose-parts.component.css']
+})
+export class LoosePartsComponent implements OnInit, OnDestroy {
+  private readonly PAGE_SIZE = 100;
+
+  rows: LoosePartRow[] = [];
+  filteredRows: LoosePartRow[] = [];
+  colors: Color[] = [];
+  searchTerm = '';
+  visibleCount = this.PAGE_SIZE;
+  loading = true;
+
+  // Add part form
+  newPartNum = '';
+  newColorId: number | null = null;
+  newQuantity = 1;
+  addError = '';
+
+  // Import
+  showImport = false;
+  importText = '';
+  importReplace = false;
+  importErrors: string[] = [];
+  importMessage = '';
+
+  private looseParts: Record<string, number> = {};
+  private lookups: PartLookups | null = null;
+  private stateSubscription: Subscription | null = null;
+  private loadId = 0;
+
+  constructor(
+    private dataService: DataService,
+    private storageService: StorageService,
+    private exportService: ExportService
+  ) {}
+
+  ngOnInit(): void {
+    this.colors = [...this.dataService.getCurrentColors()].sort((a, b) => a.name.localeCompare(b.name));
+
+    this.stateSubscription = this.storageService.getState().subscribe(state => {
+      this.looseParts = state.looseParts || {};
+      this.loadRows();
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.stateSubscription?.unsubscribe();
+  }
+
+  get totalQuantity(): number {
+    return this.rows.reduce((total, row) => total + row.quantity, 0);
+  }
+
+  get visibleRows(): LoosePartRow[] {
+    return this.filteredRows.slice(0, this.visibleCount);
+  }
+
+  filterRows(): void {
+    const term = this.searchTerm.trim().toLowerCase();
+    this.filteredRows = term
+      ? this.rows.filter(row =>
+          row.part_num.toLowerCase().includes(term)
+          || row.name.toLowerCase().includes(term)
+          || row.colorName.toLowerCase().includes(term))
+      : this.rows;
+    this.visibleCount = this.PAGE_SIZE;
+  }
+
+  showMore(): void {
+    this.visibleCount += this.PAGE_SIZE;
+  }
+
+  setQuantity(row: LoosePartRow, quantity: number): void {
+    this.storageService.setLoosePartQuantity(row.part_num, row.color_id, Math.max(0, Math.floor(Number(quantity) || 0)));
+  }
+
+  async addPart(): Promise<void> {
+    this.addError = '';
+    const partNum = this.newPartNum.trim();
+    if (!partNum || this.newColorId === null || this.newQuantity < 1) {
+      this.addError = 'Enter a part number, color and quantity.';
+      return;
+    }
+
+    const [part] = await firstValueFrom(this.dataService.getPartsByNumbers([partNum]));
+    if (!part) {
+      this.addError = `Part ${partNum} is not in the catalog.`;
+      return;
+    }
+
+    // Record the number as entered, which the catalog lookup matched exactly
+    this.storageService.importLooseParts([{ part_num: partNum, color_id: Number(this.newColorId), quantity: this.newQuantity }], false);
+    this.newPartNum = '';
+    this.newQuantity = 1;
+  }
+
+  async onImportFile(event: Event): Promise<void> {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    if (!file) return;
+
+    this.importText = await file.text();
+    input.value = '';
+  }
+
+  importParts(): void {
+    const { lines, errors } = parsePartListCsv(this.importText);
+    this.importErrors = errors;
+
+    if (lines.length === 0) {
+      this.importMessage = 'No part lines found.';
+      return;
+    }
+    if (this.importReplace && !confirm('Replace all loose parts with the imported list?')) return;
+
+    // Spare flags do not matter for bulk storage
+    this.storageService.importLooseParts(
+      lines.map(({ part_num, color_id, quantity }) => ({ part_num, color_id, quantity })),
+      this.importReplace
+    );
+    const quantity = lines.reduce((total, line) => total + line.quantity, 0);
+    this.importMessage = `Imported ${lines.length} ${lines.length === 1 ? 'line' : 'lines'} (${quantity} parts).`;
+    this.importText = '';
+  }
+
+  exportParts(): void {
+    const lines = this.rows.map(({ part_num, color_id, quantity }) => ({ part_num, color_id, quantity }));
+    this.exportService.downloadFile(
+      formatPartListCsv(lines),
+      `loose-parts-${new Date().toISOString().slice(0, 10)}.csv`,
+      'text/csv'
+    );
+  }
+
+  trackRow(index: number, row: LoosePartRow): string {
+    return `${row.part_num}_${row.color_id}`;
+  }
+
+  private async loadRows(): Promise<void> {
+    const loadId = ++this.loadId;
+    const lines = toPartListLines(this.looseParts);
+
+    try {
+      const lookups = await firstValueFrom(this.dataService.getPartLookups(lines));
+      if (loadId !== this.loadId) return;
+      this.lookups = lookups;
+
+      this.rows = lines
+        .map(line => this.toRow(line))
+        .sort((a, b) => a.part_num.localeCompare(b.part_num, undefined, { numeric: true }) || a.colorName.localeCompare(b.colorName));
+      const visibleCount = this.visibleCount;
+      this.filterRows();
+      this.visibleCount = Math.max(visibleCount, this.PAGE_SIZE);
+    } catch (error) {
+      console.error('Error loading loose parts:', error);
+    } finally {
+      if (loadId === this.loadId) this.loading = false;
+    }
+  }
+
+  private toRow(line: PartListLine): LoosePartRow {
+    const color = this.lookups?.colors.get(line.color_id);
+    const element = this.lookups?.elements.get(`${line.part_num}_${line.color_id}`);
+    return {
+      ...line,
+      name: this.lookups?.parts.get(line.part_num)?.name || line.part_num,
+      colorName: color?.name || `Color ${line.color_id}`,
+      colorRgb: color?.rgb ? `#${color.rgb}` : 'transparent',
+      imageUrl: element ? `https://cdn.rebrickable.com/media/thumbs/parts/elements/${element.element_id}.jpg/250x250p.jpg` : ''
+    };
+  }
+}
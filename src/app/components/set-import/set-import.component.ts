@@ -0,0 +1,196 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { RouterLink } from '@angular/router';
+import { Subscription, filter, firstValueFrom } from 'rxjs';
+import { v4 as uuidv4 } from 'uuid';
+import { DataService } from '../../services/data.service';
+import { StorageService } from '../../services/storage.service';
+import { PartialSet, UserInventory } from '../../models/models';
+import { getNextCopyLabel } from '../../utils/inventory-copies';
+import { SetListEntry, findSetCandidates, indexSetNumbers, parseSetList } from '../../utils/set-list-import';
+
+interface SetImportRow {
+  entry: SetListEntry;
+  candidates: PartialSet[]; // Catalog sets the listed number may mean
+  setNum: string; // Chosen set, empty until an ambiguous number is resolved
+  versions: number[];
+  version: number;
+  quantity: number;
+  include: boolean;
+}
+
+/**
+ * Track many sets at once from pasted set numbers or a set list CSV
+ */
+@Component({
+  selector: 'app-set-import',
+  standalone: true,
+  imports: [CommonModule, FormsModule, RouterLink],
+  templateUrl: './set-import.component.html',
+  styleUrls: ['./set-import.component.css']
+})
+export class SetImportComponent implements OnInit, OnDestroy {
+  importText = '';
+  parseErrors: string[] = [];
+  rows: SetImportRow[] = [];
+  resolving = false;
+  importMessage = '';
+
+  private userInventories: UserInventory[] = [];
+  private stateSubscription: Subscription | null = null;
+
+  constructor(
+    private dataService: DataService,
+    private storageService: StorageService
+  ) {}
+
+  ngOnInit(): void {
+    this.stateSubscription = this.storageService.getState().subscribe(state => {
+      this.userInventories = state.userInventories;
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.stateSubscription?.unsubscribe();
+  }
+
+  get unknownRows(): SetImportRow[] {
+    return this.rows.filter(row => row.candidates.length === 0);
+  }
+
+  get ambiguousRows(): SetImportRow[] {
+    return this.rows.filter(row => row.candidates.length > 1);
+  }
+
+  /**
+   * Rows that will be tracked: included, with a set chosen
+   */
+  get readyRows(): SetImportRow[] {
+    return this.rows.filter(row => row.include && row.setNum && row.quantity > 0);
+  }
+
+  get readyCopyCount(): number {
+    return this.readyRows.reduce((total, row) => total + row.quantity, 0);
+  }
+
+  async onImportFile(event: Event): Promise<void> {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    if (!file) return;
+
+    this.importText = await file.text();
+    input.value = '';
+  }
+
+  /**
+   * Look up every listed set in the catalog and show the result for review
+   */
+  async preview(): Promise<void> {
+    const { entries, errors } = parseSetList(this.importText);
+    this.parseErrors = errors;
+    this.importMessage = '';
+    this.resolving = true;
+
+    try {
+      await firstValueFrom(this.dataService.isDataLoaded().pipe(filter(loaded => loaded)));
+      const index = indexSetNumbers(this.dataService.getCurrentSets());
+
+      this.rows = entries.map(entry => {
+        const candidates = findSetCandidates(entry.input, index);
+        const row: SetImportRow = {
+          entry,
+          candidates,
+          setNum: '',
+          versions: [],
+          version: 1,
+          quantity: entry.quantity,
+          include: candidates.length > 0
+        };
+        if (candidates.length === 1) {
+          this.chooseSet(row, candidates[0].set_num);
+        }
+        return row;
+      });
+    } catch (error) {
+      console.error('Error resolving set list:', error);
+    } finally {
+      this.resolving = false;
+    }
+  }
+
+  /**
+   * Pick the catalog set of a row, defaulting to the version the list gave
+   */
+  chooseSet(row: SetImportRow, setNum: string): void {
+    row.setNum = setNum;
+    const versions = this.dataService.getInventoriesForSet(setNum).map(inv => Number(inv.version));
+    row.versions = versions.length > 0 ? versions : [1];
+    row.version = row.entry.version && row.versions.includes(row.entry.version) ? row.entry.version : row.versions[0];
+  }
+
+  getSetName(row: SetImportRow): string {
+    return row.candidates.find(set => set.set_num === row.setNum)?.name || '';
+  }
+
+  getTrackedCopyCount(setNum: string): number {
+    return this.userInventories.filter(inv => inv.set_num === setNum).length;
+  }
+
+  /**
+   * Leave out the sets that are tracked already
+   */
+  skipTrackedSets(): void {
+    this.rows.forEach(row => {
+      if (row.setNum && this.getTrackedCopyCount(row.setNum) > 0) row.include = false;
+    });
+  }
+
+  /**
+   * Start tracking every ready row, one inventory per copy
+   */
+  importSets(): void {
+    const all = [...this.userInventories];
+    const added: UserInventory[] = [];
+    const relabeled = new Map<string, UserInventory>();
+
+    this.readyRows.forEach(row => {
+      const set = row.candidates.find(candidate => candidate.set_num === row.setNum);
+      if (!set) return;
+
+      for (let copy = 0; copy < row.quantity; copy++) {
+        const copies = all.filter(inv => inv.set_num === set.set_num);
+
+        // Label the first copy once there is more than one to tell apart
+        if (copies.length === 1 && !copies[0].copyLabel) {
+          const labeled = { ...copies[0], copyLabel: 'Copy 1' };
+          all[all.indexOf(copies[0])] = labeled;
+          if (added.includes(copies[0])) {
+            added[added.indexOf(copies[0])] = labeled;
+          } else {
+            relabeled.set(labeled.id, labeled);
+          }
+        }
+
+        const inventory: UserInventory = {
+          id: uuidv4(),
+          set_num: set.set_num,
+          version: row.version,
+          name: set.name,
+          copyLabel: copies.length > 0 ? getNextCopyLabel(all, set.set_num) : undefined,
+          partsOwned: {},
+          minifigsOwned: {},
+          minifigPartsOwned: {},
+          lastUpdated: Date.now()
+        };
+        all.push(inventory);
+        added.push(inventory);
+      }
+    });
+
+    this.storageService.addUserInventories(added, Array.from(relabeled.values()));
+    this.importMessage = `Now tracking ${added.length} more ${added.length === 1 ? 'set' : 'sets'}.`;
+    this.rows = [];
+    this.importText = '';
+  }
+}
@@ -1,31 +1,44 @@
 import { ChangeDetectorRef, Component, OnInit } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { RouterLink } from '@angular/router';
+import { ActivatedRoute, RouterLink } from '@angular/router';
 import { FormsModule } from '@angular/forms';
 import { DataService } from '../../services/data.service';
 import { StorageService } from '../../services/storage.service';
-import { Set, UserInventory, GlobalSettings } from '../../models/models';
+import { InventorySnapshotService } from '../../services/inventory-snapshot.service';
+import { CachedImageDirective } from '../../directives/cached-image.directive';
+import { InventoryProgress, InventoryProgressService } from '../../services/inventory-progress.service';
+import { InventoryCopyGroup, getInventoryDisplayName, getNextCopyLabel, groupInventoryCopies } from '../../utils/inventory-copies';
+import { allocateParts } from '../../utils/part-allocation';
+import { getAcceptablePartConditions } from '../../utils/part-conditions';
+import { INVENTORY_STATUSES, INVENTORY_STATUS_LABELS, getInventoryStatusLabel, matchesStatusFilter } from '../../utils/inventory-status';
+import { Set, UserInventory, GlobalSettings, InventoryStatus } from '../../models/models';
 import { v4 as uuidv4 } from 'uuid';
-import { firstValueFrom } from 'rxjs';
 
 @Component({
   selector: 'app-sets',
   standalone: true,
-  imports: [CommonModule, RouterLink, FormsModule],
+  imports: [CommonModule, RouterLink, FormsModule, CachedImageDirective],
   templateUrl: './sets.component.html',
   styleUrls: ['./sets.component.css']
 })
 export class SetsComponent implements OnInit {
   sets: Set[] = [];
   userInventories: UserInventory[] = [];
+  inventoryGroups: InventoryCopyGroup[] = []; // Tracked copies grouped by set
+  visibleInventoryGroups: InventoryCopyGroup[] = []; // Groups with only the copies matching the status filter
+  statusFilter: InventoryStatus | 'none' | '' = '';
+  inventoryStatuses = INVENTORY_STATUSES;
+  inventoryStatusLabels = INVENTORY_STATUS_LABELS;
   filteredSets: Set[] = [];
   paginatedSets: Set[] = [];
   searchTerm: string = '';
   yearFilter: number | null = null;
   loading = true;
   selectedVersions: Record<string, number> = {};
-  allInventoryProgress: Record<string, {totalOwned: number, totalNeeded: number, progress: number}> = {};
+  allInventoryProgress: Record<string, InventoryProgress> = {};
   allInventorySetImageUrls: Record<string, string> = {};
+  changedInventoryIds: string[] = []; // Inventories whose catalog definition changed
+  overAllocatedInventoryIds = new globalThis.Set<string>(); // With part allocation, sets that record parts they were not given
 
   // Global settings
   globalSettings: GlobalSettings = {
@@ -47,17 +60,31 @@ export class SetsComponent implements OnInit {
   overlayImageAlt = '';
 
   constructor(
+    private route: ActivatedRoute,
     private dataService: DataService,
     private storageService: StorageService,
+    private snapshotService: InventorySnapshotService,
+    private progressService: InventoryProgressService,
     private cdr: ChangeDetectorRef
   ) {}
 
   ngOnInit(): void {
+    // The home dashboard links here with a status to filter by
+    const status = this.route.snapshot.queryParamMap.get('status');
+    if (status === 'none' || INVENTORY_STATUSES.includes(status as InventoryStatus)) {
+      this.statusFilter = status as InventoryStatus | 'none';
+    }
+
     // Load user inventories and global settings
     this.storageService.getState().subscribe({
       next: (state) => {
         this.userInventories = state.userInventories;
+        this.inventoryGroups = groupInventoryCopies(state.userInventories);
+        this.filterInventoryGroups();
         this.globalSettings = { ...state.globalSettings };
+        this.overAllocatedInventoryIds = state.globalSettings.partAllocationEnabled
+          ? allocateParts(state).overAllocatedInventoryIds
+          : new globalThis.Set<string>();
         this.getAllInventoryProgress();
         this.getAllInventorySetImageUrls();
       },
@@ -66,6 +93,10 @@ export class SetsComponent implements OnInit {
       }
     });
 
+    this.snapshotService.getChanges().subscribe(changes => {
+      this.changedInventoryIds = Array.from(changes.keys());
+    });
+
     // Load first page of sets
     this.loadSetsPage();
   }
@@ -159,21 +190,47 @@ export class SetsComponent implements OnInit {
     return this.userInventories.some(inv => inv.set_num === setNum);
   }
 
+  /**
+   * Tracked copies of a set, in the order they were added
+   */
+  getTrackedCopies(setNum: string): UserInventory[] {
+    return this.userInventories.filter(inv => inv.set_num === setNum);
+  }
+
   getInventoryLink(setNum: string): any[] {
     const inventory = this.userInventories.find(inv => inv.set_num === setNum);
     return inventory ? ['/inventory', inventory.id] : ['/sets'];
   }
 
+  /**
+   * Start tracking a (further) physical copy of a set
+   */
   addToMyInventory(set: Set, version: number = 1): void {
-    if (this.isSetTracked(set.set_num)) {
-      return; // Already tracking this set
+    this.addCopy(set.set_num, set.name, version);
+  }
+
+  /**
+   * Track another copy of a set from its group in My Sets
+   */
+  addAnotherCopy(group: InventoryCopyGroup): void {
+    const lastCopy = group.copies[group.copies.length - 1];
+    this.addCopy(group.set_num, group.name, Number(lastCopy.version));
+  }
+
+  private addCopy(setNum: string, name: string, version: number): void {
+    const copies = this.getTrackedCopies(setNum);
+
+    // Label the first copy once there is more than one to tell apart
+    if (copies.length === 1 && !copies[0].copyLabel) {
+      this.storageService.updateUserInventory({ ...copies[0], copyLabel: 'Copy 1' });
     }
 
     const newInventory: UserInventory = {
       id: uuidv4(),
-      set_num: set.set_num,
+      set_num: setNum,
       version: version,
-      name: set.name,
+      name: name,
+      copyLabel: copies.length > 0 ? getNextCopyLabel(this.userInventories, setNum) : undefined,
       partsOwned: {},
       minifigsOwned: {},
       minifigPartsOwned: {},
@@ -183,87 +240,56 @@ export class SetsComponent implements OnInit {
     this.storageService.addUserInventory(newInventory);
   }
 
-  removeFromMyInventory(setNum: string, version: number = 1): void {
-    const inventory = this.userInventories.find(inv => inv.set_num === setNum && inv.version === version);
-    if (inventory) {
-      this.storageService.deleteUserInventory(inventory.id);
+  removeFromMyInventory(inventory: UserInventory): void {
+    if (this.getTrackedCopies(inventory.set_num).length > 1 && !confirm(`Stop tracking ${getInventoryDisplayName(inventory)}?`)) {
+      return;
     }
+    this.storageService.deleteUserInventory(inventory.id);
+  }
+
+  filterInventoryGroups(): void {
+    this.visibleInventoryGroups = this.inventoryGroups
+      .map(group => ({ ...group, copies: group.copies.filter(inv => matchesStatusFilter(inv, this.statusFilter)) }))
+      .filter(group => group.copies.length > 0);
+  }
+
+  getInventoryStatusLabel(inventory: UserInventory): string {
+    return getInventoryStatusLabel(inventory);
   }
 
   async getAllInventoryProgress(): Promise<void> {
     for (const inventory of this.userInventories) {
-      // Use unique key that includes both set_num and version
-      const uniqueKey = `${inventory.set_num}_v${inventory.version}`;
-      this.allInventoryProgress[uniqueKey] = await this.getInventoryProgressAsync(inventory);
+      this.allInventoryProgress[inventory.id] = await this.getInventoryProgressAsync(inventory);
     }
   }
 
-  async getInventoryProgressAsync(inventory: UserInventory): Promise<{totalOwned: number, totalNeeded: number, progress: number}> {
-    try {
-      // Wait for data to be loaded
-      const dataLoaded = await firstValueFrom(this.dataService.isDataLoaded());
-      if (!dataLoaded) {
-        return { totalOwned: 0, totalNeeded: 0, progress: 0 };
-      }
-
-      // Convert version to number to ensure type consistency (fix for string vs number issue)
-      const versionAsNumber = Number(inventory.version);
-
-      // Get both parts and minifigures for the user's specified version
-      const [inventoryParts, inventoryMinifigs] = await Promise.all([
-        firstValueFrom(this.dataService.getSetInventoryPartsBySetNum(inventory.set_num, versionAsNumber)),
-        firstValueFrom(this.dataService.getSetInventoryMinifigsBySetNum(inventory.set_num, versionAsNumber))
-      ]);
-
-      let totalNeeded = 0;
-      let totalOwned = 0;
-
-      // Process regular parts and spare parts based on global setting
-      if (inventoryParts) {
-        for (const invPart of inventoryParts) {
-          // Skip spare parts if the setting is disabled
-          if (!this.globalSettings.includeSparePartsInProgress && invPart.is_spare) {
-            continue;
-          }
-
-          // Use the same key generation logic as the inventory detail component
-          const key = this.getPartStorageKey(invPart.part_num, invPart.color_id, invPart.is_spare);
-          const quantityOwned = inventory.partsOwned[key] || 0;
-          totalNeeded += invPart.quantity;
-          totalOwned += Math.min(quantityOwned, invPart.quantity); // Don't count excess
-        }
-      }
-
-      // Process minifigures
-      if (inventoryMinifigs) {
-        for (const invMinifig of inventoryMinifigs) {
-          const quantityOwned = inventory.minifigsOwned[invMinifig.fig_num] || 0;
-          totalNeeded += invMinifig.quantity;
-          totalOwned += Math.min(quantityOwned, invMinifig.quantity); // Don't count excess
-        }
-      }
+  async getInventoryProgressAsync(inventory: UserInventory): Promise<InventoryProgress> {
+    // Sets tracked as part of this one count towards its progress
+    return this.progressService.getRolledUpProgress(
+      inventory,
+      this.userInventories,
+      this.globalSettings.includeSparePartsInProgress,
+      getAcceptablePartConditions(this.globalSettings),
+      this.globalSettings.substituteRelationshipTypes
+    );
+  }
 
-      const progress = totalNeeded > 0 ? (totalOwned / totalNeeded) * 100 : 0;
-      return { totalOwned, totalNeeded, progress };
-    } catch (error) {
-      console.error('Error calculating inventory progress:', error);
-      return { totalOwned: 0, totalNeeded: 0, progress: 0 };
-    }
+  getInventoryProgress(inventory: UserInventory): InventoryProgress {
+    // Keyed by inventory id, since several copies can share a set number and version
+    return this.allInventoryProgress[inventory.id] || { totalOwned: 0, totalNeeded: 0, progress: 0 };
   }
 
   /**
-   * Generate storage key for parts, with different keys for spare parts vs regular parts
-   * This matches the logic used in the inventory detail component
+   * The tracked set this inventory is tracked as part of, if any
    */
-  private getPartStorageKey(partNum: string, colorId: number, isSpare: boolean): string {
-    const baseKey = `${partNum}_${colorId}`;
-    return isSpare ? `spare_${baseKey}` : baseKey;
+  getParentInventory(inventory: UserInventory): UserInventory | undefined {
+    return inventory.parentInventoryId
+      ? this.userInventories.find(inv => inv.id === inventory.parentInventoryId)
+      : undefined;
   }
 
-  getInventoryProgress(inventory: UserInventory): {totalOwned: number, totalNeeded: number, progress: number} {
-    // Use unique key that includes both set_num and version
-    const uniqueKey = `${inventory.set_num}_v${inventory.version}`;
-    return this.allInventoryProgress[uniqueKey] || { totalOwned: 0, totalNeeded: 0, progress: 0 };
+  countChildInventories(inventory: UserInventory): number {
+    return this.userInventories.filter(inv => inv.parentInventoryId === inventory.id).length;
   }
 
   getSetImageUrl(setNum: string): string {
@@ -1,16 +1,24 @@
 import { Component, OnInit } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
+import { RouterLink } from '@angular/router';
 import { StorageService } from '../../services/storage.service';
 import { ExportService } from '../../services/export.service';
 import { DataService } from '../../services/data.service';
-import { GlobalSettings } from '../../models/models';
+import { CatalogPartChange, CatalogUpdateReport, GlobalSettings, PartCondition, SubstituteRelationshipType } from '../../models/models';
 import { IndexedDBService } from '../../services/indexeddb.service';
+import { ImageCacheService, ImageCacheStats } from '../../services/image-cache.service';
+import {
+  DEFAULT_SUBSTITUTE_RELATIONSHIP_TYPES, SUBSTITUTE_RELATIONSHIP_LABELS, getSubstituteRelationshipTypes
+} from '../../utils/part-substitutes';
+import {
+  DEFAULT_ACCEPTABLE_PART_CONDITIONS, PART_CONDITIONS, PART_CONDITION_LABELS, getAcceptablePartConditions
+} from '../../utils/part-conditions';
 
 @Component({
   selector: 'app-settings',
   standalone: true,
-  imports: [CommonModule, FormsModule],
+  imports: [CommonModule, FormsModule, RouterLink],
   templateUrl: './settings.component.html',
   styleUrls: ['./settings.component.css']
 })
@@ -25,11 +33,20 @@ export class SettingsComponent implements OnInit {
   isUsingIndexedDB = false;
   isIndexedDBDisabled = false;
   indexedDBDisabledReason = '';
-  csvCacheInfo: { exists: boolean; timestamp?: number; age?: number; isValid?: boolean } | null = null;
+  csvCacheInfo: { exists: boolean; timestamp?: number; age?: number; isValid?: boolean; release?: string } | null = null;
+  catalogUpdateReport: CatalogUpdateReport | null = null;
   isRefreshingCSV = false;
   isCheckingIntegrity = false;
   isResettingIndexedDB = false;
   isClearingAllData = false;
+  imageCacheStats: ImageCacheStats | null = null;
+  imageCacheLimitOptions = [50, 100, 200, 500, 1000];
+  imagePrefetchProgress: { done: number; total: number } | null = null;
+  isClearingImageCache = false;
+  substituteRelationshipLabels = SUBSTITUTE_RELATIONSHIP_LABELS;
+  substituteRelationshipTypes = Object.keys(SUBSTITUTE_RELATIONSHIP_LABELS) as SubstituteRelationshipType[];
+  partConditionLabels = PART_CONDITION_LABELS;
+  partConditions = PART_CONDITIONS;
   dataIntegrityResults: {
     comparisons: Array<{
       dataType: string;
@@ -46,12 +63,18 @@ export class SettingsComponent implements OnInit {
     private storageService: StorageService,
     private exportService: ExportService,
     private dataService: DataService,
-    private indexedDBService: IndexedDBService
+    private indexedDBService: IndexedDBService,
+    private imageCacheService: ImageCacheService
   ) {}
 
   async ngOnInit(): Promise<void> {
     this.storageService.getState().subscribe(state => {
       this.globalSettings = { ...state.globalSettings };
+      this.catalogUpdateReport = state.catalogUpdateReport || null;
+    });
+
+    this.imageCacheService.getStats().subscribe(stats => {
+      this.imageCacheStats = stats;
     });
 
     // Load storage information
@@ -104,6 +127,111 @@ export class SettingsComponent implements OnInit {
     );
   }
 
+  updatePartAllocationEnabled(enabled: boolean): void {
+    this.globalSettings.partAllocationEnabled = enabled;
+    this.storageService.updateGlobalSettings({ partAllocationEnabled: enabled });
+    this.showMessage(
+      enabled
+        ? 'Owned parts are now shared between sets by priority'
+        : 'Each set now keeps its own owned quantities',
+      'success'
+    );
+  }
+
+  isSubstituteTypeAccepted(type: SubstituteRelationshipType): boolean {
+    return getSubstituteRelationshipTypes(null, this.globalSettings).includes(type);
+  }
+
+  toggleSubstituteType(type: SubstituteRelationshipType, accepted: boolean): void {
+    const current = getSubstituteRelationshipTypes(null, this.globalSettings);
+    const types = accepted
+      ? this.substituteRelationshipTypes.filter(t => t === type || current.includes(t))
+      : current.filter(t => t !== type);
+
+    this.globalSettings.substituteRelationshipTypes = types;
+    this.storageService.updateGlobalSettings({ substituteRelationshipTypes: types });
+  }
+
+  resetSubstituteTypes(): void {
+    this.globalSettings.substituteRelationshipTypes = [...DEFAULT_SUBSTITUTE_RELATIONSHIP_TYPES];
+    this.storageService.updateGlobalSettings({ substituteRelationshipTypes: this.globalSettings.substituteRelationshipTypes });
+  }
+
+  isPartConditionAcceptable(condition: PartCondition): boolean {
+    return getAcceptablePartConditions(this.globalSettings).includes(condition);
+  }
+
+  togglePartCondition(condition: PartCondition, acceptable: boolean): void {
+    const current = getAcceptablePartConditions(this.globalSettings);
+    const conditions = acceptable
+      ? this.partConditions.filter(c => c === condition || current.includes(c))
+      : current.filter(c => c !== condition);
+
+    this.globalSettings.acceptablePartConditions = conditions;
+    this.storageService.updateGlobalSettings({ acceptablePartConditions: conditions });
+  }
+
+  resetPartConditions(): void {
+    this.globalSettings.acceptablePartConditions = [...DEFAULT_ACCEPTABLE_PART_CONDITIONS];
+    this.storageService.updateGlobalSettings({ acceptablePartConditions: this.globalSettings.acceptablePartConditions });
+  }
+
+  get imageCacheLimitMB(): number {
+    return this.globalSettings.imageCacheLimitMB ?? ImageCacheService.DEFAULT_LIMIT_MB;
+  }
+
+  updateImageCacheLimit(limitMB: number): void {
+    this.globalSettings.imageCacheLimitMB = limitMB;
+    this.storageService.updateGlobalSettings({ imageCacheLimitMB: limitMB });
+    this.showMessage(`Offline image cache limited to ${limitMB} MB`, 'success');
+  }
+
+  getImageCachePercentage(): number {
+    if (!this.imageCacheStats || this.imageCacheStats.limitBytes === 0) return 0;
+    return Math.min(100, (this.imageCacheStats.bytes / this.imageCacheStats.limitBytes) * 100);
+  }
+
+  async prefetchImages(): Promise<void> {
+    if (this.imagePrefetchProgress) return;
+
+    this.imagePrefetchProgress = { done: 0, total: 0 };
+    try {
+      const result = await this.imageCacheService.prefetchTrackedSetImages((done, total) => {
+        this.imagePrefetchProgress = { done, total };
+      });
+
+      if (result.limitReached) {
+        this.showMessage(`Image cache is full after ${result.cached} of ${result.total} images. Increase the cache size to store the rest.`, 'error');
+      } else if (result.failed > 0) {
+        this.showMessage(`Cached ${result.cached} of ${result.total} images; ${result.failed} could not be downloaded.`, 'error');
+      } else {
+        this.showMessage(`All ${result.total} images of your sets are available offline.`, 'success');
+      }
+    } catch (error) {
+      console.error('Error prefetching images:', error);
+      this.showMessage('Failed to download images. Please try again.', 'error');
+    } finally {
+      this.imagePrefetchProgress = null;
+    }
+  }
+
+  async clearImageCache(): Promise<void> {
+    if (this.isClearingImageCache) return;
+
+    if (confirm('Remove all cached images? They will be downloaded again when viewed.')) {
+      this.isClearingImageCache = true;
+      try {
+        await this.imageCacheService.clear();
+        this.showMessage('Image cache cleared.', 'success');
+      } catch (error) {
+        console.error('Error clearing image cache:', error);
+        this.showMessage('Failed to clear image cache. Please try again.', 'error');
+      } finally {
+        this.isClearingImageCache = false;
+      }
+    }
+  }
+
   exportData(): void {
     try {
       this.exportService.exportData();
@@ -240,6 +368,12 @@ export class SettingsComponent implements OnInit {
           }
         }
 
+        try {
+          await this.imageCacheService.clear();
+        } catch (error) {
+          console.warn('Failed to clear image cache:', error);
+        }
+
         console.log('All data cleared successfully, reloading page...');
         // Refresh the page to reload everything fresh
         window.location.reload();
@@ -288,6 +422,22 @@ export class SettingsComponent implements OnInit {
     return 'Expired (>12 hours old)';
   }
 
+  /**
+   * Hide the catalog update banner; the report stays available here
+   */
+  dismissCatalogUpdateReport(): void {
+    this.storageService.dismissCatalogUpdateReport();
+  }
+
+  /**
+   * Describe one changed inventory line, e.g. "3001 (Red) 4 → 6"
+   */
+  formatPartChange(change: CatalogPartChange): string {
+    const color = this.dataService.getCurrentColors().find(c => c.id === change.color_id);
+    const spare = change.is_spare ? ' spare' : '';
+    return `${change.part_num} (${color?.name || change.color_id})${spare} ${change.previousQuantity} → ${change.newQuantity}`;
+  }
+
   getCacheStatusClass(): string {
     if (!this.isUsingIndexedDB) return 'text-gray-500';
     if (!this.csvCacheInfo) return 'text-gray-500';
@@ -301,12 +451,12 @@ export class SettingsComponent implements OnInit {
     this.dataIntegrityResults = null;
 
     try {
-      // Get current data stats from DataService
+      // Get record counts from DataService (as imported, or as loaded in memory)
       const memoryStats = this.dataService.getCurrentDataStats();
 
-      // Get IndexedDB cached data
+      // Count the records in each IndexedDB store without loading them
       const indexedDBService = (this.storageService as any).indexedDBService;
-      const cachedData = await indexedDBService.loadCSVDataCache();
+      const cachedCounts = await indexedDBService.getCSVStoreCounts();
 
       const comparisons: Array<{
         dataType: string;
@@ -334,7 +484,7 @@ export class SettingsComponent implements OnInit {
 
       dataTypes.forEach(dataType => {
         const memoryCount = memoryStats[dataType] || 0;
-        const indexedDBCount = cachedData && Array.isArray(cachedData[dataType]) ? cachedData[dataType].length : 0;
+        const indexedDBCount = cachedCounts?.[dataType] || 0;
 
         comparisons.push({
           dataType: dataType.charAt(0).toUpperCase() + dataType.slice(1),
@@ -356,8 +506,8 @@ export class SettingsComponent implements OnInit {
         totalIndexedDB,
         isHealthy: !hasDiscrepancies,
         message: hasDiscrepancies
-          ? 'Some data counts differ between memory and IndexedDB cache. Consider refreshing CSV data.'
-          : 'All data counts match between memory and IndexedDB cache. Data integrity is good.'
+          ? 'Some data counts differ between the imported catalog and IndexedDB cache. Consider refreshing CSV data.'
+          : 'All data counts match between the imported catalog and IndexedDB cache. Data integrity is good.'
       };
 
     } catch (error) {
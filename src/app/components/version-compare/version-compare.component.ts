@@ -0,0 +1,229 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { ActivatedRoute, Router, RouterLink } from '@angular/router';
+import { Subscription, combineLatest, firstValueFrom } from 'rxjs';
+import { DataService, PartLookups } from '../../services/data.service';
+import { StorageService } from '../../services/storage.service';
+import { CatalogPartChange, InventoryLine, InventoryMinifig, Minifig, UserInventory } from '../../models/models';
+import {
+  CarriedOverOwnership,
+  InventoryMinifigsDiff,
+  InventoryPartsDiff,
+  carryOverOwnership,
+  diffInventoryMinifigs,
+  diffInventoryParts,
+  toInventoryLines
+} from '../../utils/inventory-diff';
+import { getInventoryDisplayName } from '../../utils/inventory-copies';
+
+/**
+ * Side-by-side comparison of two inventory versions of a set, with the option
+ * to move a tracked inventory to the other version
+ */
+@Component({
+  selector: 'app-version-compare',
+  standalone: true,
+  imports: [CommonModule, FormsModule, RouterLink],
+  templateUrl: './version-compare.component.html',
+  styleUrls: ['./version-compare.component.css']
+})
+export class VersionCompareComponent implements OnInit, OnDestroy {
+  setNum = '';
+  setName = '';
+  versions: number[] = [];
+  fromVersion = 1;
+  toVersion = 1;
+
+  partsDiff: InventoryPartsDiff | null = null;
+  minifigsDiff: InventoryMinifigsDiff | null = null;
+  lookups: PartLookups | null = null;
+  minifigs = new Map<string, Minifig>();
+
+  trackedInventories: UserInventory[] = []; // Tracked copies of this set
+  moveInventoryId = '';
+  carryOver: CarriedOverOwnership | null = null;
+
+  loading = true;
+  moving = false;
+
+  private toParts: InventoryLine[] = [];
+  private toMinifigs: InventoryMinifig[] = [];
+  private routeSubscription: Subscription | null = null;
+  private loadId = 0;
+
+  constructor(
+    private route: ActivatedRoute,
+    private router: Router,
+    private dataService: DataService,
+    private storageService: StorageService
+  ) {}
+
+  ngOnInit(): void {
+    this.routeSubscription = combineLatest([
+      this.route.paramMap,
+      this.route.queryParamMap,
+      this.storageService.getState()
+    ]).subscribe(([params, queryParams, state]) => {
+      this.setNum = params.get('setNum') || '';
+      this.trackedInventories = state.userInventories.filter(inv => inv.set_num === this.setNum);
+      this.moveInventoryId = queryParams.get('inventory') || this.moveInventoryId || this.trackedInventories[0]?.id || '';
+
+      this.versions = this.dataService.getInventoriesForSet(this.setNum)
+        .map(inv => inv.version)
+        .sort((a, b) => a - b);
+
+      const moveInventory = this.getMoveInventory();
+      this.fromVersion = this.pickVersion(queryParams.get('from'), moveInventory ? Number(moveInventory.version) : this.versions[0]);
+      this.toVersion = this.pickVersion(queryParams.get('to'), this.versions.find(v => v !== this.fromVersion) ?? this.fromVersion);
+
+      this.loadComparison();
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.routeSubscription?.unsubscribe();
+  }
+
+  get totalChanges(): number {
+    if (!this.partsDiff || !this.minifigsDiff) return 0;
+    return [this.partsDiff, this.minifigsDiff]
+      .reduce((total, diff) => total + diff.added.length + diff.removed.length + diff.changed.length, 0);
+  }
+
+  /**
+   * Show another pair of versions (kept in the URL so the view can be linked)
+   */
+  selectVersions(fromVersion: number, toVersion: number): void {
+    this.router.navigate([], {
+      relativeTo: this.route,
+      queryParams: { from: fromVersion, to: toVersion },
+      queryParamsHandling: 'merge',
+      replaceUrl: true
+    });
+  }
+
+  swapVersions(): void {
+    this.selectVersions(this.toVersion, this.fromVersion);
+  }
+
+  selectMoveInventory(inventoryId: string): void {
+    this.moveInventoryId = inventoryId;
+    this.updateCarryOver();
+  }
+
+  getMoveInventory(): UserInventory | undefined {
+    return this.trackedInventories.find(inv => inv.id === this.moveInventoryId);
+  }
+
+  getInventoryDisplayName(inventory: UserInventory): string {
+    return getInventoryDisplayName(inventory);
+  }
+
+  getPartName(partNum: string): string {
+    return this.lookups?.parts.get(partNum)?.name || partNum;
+  }
+
+  getColorName(colorId: number): string {
+    return this.lookups?.colors.get(colorId)?.name || `Color ${colorId}`;
+  }
+
+  getColorRgb(colorId: number): string {
+    const rgb = this.lookups?.colors.get(colorId)?.rgb;
+    return rgb ? `#${rgb}` : 'transparent';
+  }
+
+  getMinifigName(figNum: string): string {
+    return this.minifigs.get(figNum)?.name || figNum;
+  }
+
+  /**
+   * Quantity of a line owned in the inventory that would be moved
+   */
+  getOwnedQuantity(line: CatalogPartChange): number {
+    const inventory = this.getMoveInventory();
+    if (!inventory) return 0;
+    const baseKey = `${line.part_num}_${line.color_id}`;
+    return inventory.partsOwned[line.is_spare ? `spare_${baseKey}` : baseKey] || 0;
+  }
+
+  /**
+   * Move the selected tracked inventory to the version being compared against
+   */
+  async moveInventory(): Promise<void> {
+    const inventory = this.getMoveInventory();
+    if (!inventory || !this.carryOver || this.moving) return;
+
+    const { droppedEntries, reducedEntries } = this.carryOver;
+    if ((droppedEntries > 0 || reducedEntries > 0) && !confirm(
+      `Moving ${getInventoryDisplayName(inventory)} to version ${this.toVersion} drops ${droppedEntries} owned ` +
+      `${droppedEntries === 1 ? 'entry' : 'entries'} and reduces ${reducedEntries}. Continue?`
+    )) {
+      return;
+    }
+
+    this.moving = true;
+    try {
+      this.storageService.moveInventoryToVersion(inventory.id, this.toVersion, this.carryOver);
+      this.router.navigate(['/inventory', inventory.id]);
+    } finally {
+      this.moving = false;
+    }
+  }
+
+  private pickVersion(requested: string | null, fallback: number): number {
+    const version = Number(requested);
+    return requested !== null && this.versions.includes(version) ? version : fallback;
+  }
+
+  private async loadComparison(): Promise<void> {
+    if (!this.setNum || this.versions.length === 0) {
+      this.loading = false;
+      return;
+    }
+
+    const loadId = ++this.loadId;
+    this.loading = true;
+
+    try {
+      const [set, fromParts, toParts, fromMinifigs, toMinifigs] = await Promise.all([
+        firstValueFrom(this.dataService.getSet(this.setNum)),
+        firstValueFrom(this.dataService.getSetInventoryPartsBySetNum(this.setNum, this.fromVersion)),
+        firstValueFrom(this.dataService.getSetInventoryPartsBySetNum(this.setNum, this.toVersion)),
+        firstValueFrom(this.dataService.getSetInventoryMinifigsBySetNum(this.setNum, this.fromVersion)),
+        firstValueFrom(this.dataService.getSetInventoryMinifigsBySetNum(this.setNum, this.toVersion))
+      ]);
+
+      const fromLines = toInventoryLines(fromParts);
+      const toLines = toInventoryLines(toParts);
+      const figNums = [...fromMinifigs, ...toMinifigs].map(minifig => minifig.fig_num);
+      const [lookups, minifigs] = await Promise.all([
+        firstValueFrom(this.dataService.getPartLookups([...fromLines, ...toLines])),
+        firstValueFrom(this.dataService.getMinifigsByNumbers(figNums))
+      ]);
+
+      // The route changed while this comparison was loading
+      if (loadId !== this.loadId) return;
+
+      this.setName = set?.name || this.setNum;
+      this.partsDiff = diffInventoryParts(fromLines, toLines);
+      this.minifigsDiff = diffInventoryMinifigs(fromMinifigs, toMinifigs);
+      this.lookups = lookups;
+      this.minifigs = new Map(minifigs.map(minifig => [minifig.fig_num, minifig]));
+      this.toParts = toLines;
+      this.toMinifigs = toMinifigs;
+      this.updateCarryOver();
+    } catch (error) {
+      console.error('Error comparing set versions:', error);
+    } finally {
+      if (loadId === this.loadId) this.loading = false;
+    }
+  }
+
+  private updateCarryOver(): void {
+    const inventory = this.getMoveInventory();
+    this.carryOver = inventory && Number(inventory.version) !== this.toVersion
+      ? carryOverOwnership(inventory, this.toParts, this.toMinifigs)
+      : null;
+  }
+}
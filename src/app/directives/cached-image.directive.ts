@@ -0,0 +1,58 @@
+import { Directive, ElementRef, Input, OnChanges, OnDestroy } from '@angular/core';
+import { ImageCacheService } from '../services/image-cache.service';
+
+/**
+ * Drop-in replacement for [src] that serves images from the offline image
+ * cache, downloading and caching them on first view
+ */
+@Directive({
+  selector: 'img[appCachedSrc]',
+  standalone: true
+})
+export class CachedImageDirective implements OnChanges, OnDestroy {
+  @Input() appCachedSrc: string | null | undefined = '';
+
+  private objectUrl: string | null = null;
+  private requestId = 0;
+
+  constructor(
+    private element: ElementRef<HTMLImageElement>,
+    private imageCache: ImageCacheService
+  ) {}
+
+  async ngOnChanges(): Promise<void> {
+    const url = this.appCachedSrc || '';
+    const requestId = ++this.requestId;
+    const img = this.element.nativeElement;
+
+    if (!url) {
+      this.releaseObjectUrl();
+      img.removeAttribute('src');
+      return;
+    }
+
+    const src = await this.imageCache.getImageSrc(url);
+
+    // A newer URL arrived (or the element was destroyed) while this one resolved
+    if (requestId !== this.requestId) {
+      if (src !== url) URL.revokeObjectURL(src);
+      return;
+    }
+
+    this.releaseObjectUrl();
+    if (src !== url) this.objectUrl = src;
+    img.src = src;
+  }
+
+  ngOnDestroy(): void {
+    this.requestId++;
+    this.releaseObjectUrl();
+  }
+
+  private releaseObjectUrl(): void {
+    if (this.objectUrl) {
+      URL.revokeObjectURL(this.objectUrl);
+      this.objectUrl = null;
+    }
+  }
+}
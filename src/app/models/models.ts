@@ -87,10 +87,19 @@ export interface UserInventory {
   set_num: string;
   version: number;
   name: string;
+  copyLabel?: string; // Tells physical copies of the same set apart, e.g. "Copy 2" or "Sealed"
   partsOwned: Record<string, number>; // part_num+color_id -> quantity owned
   minifigsOwned: Record<string, number>; // fig_num -> quantity owned
   minifigPartsOwned: Record<string, number>; // setNum_figNum_partNum_colorId -> quantity owned
   collapsedMinifigParts?: string[]; // fig_nums that have collapsed parts (expanded by default)
+  partSubstitutes?: Record<string, PartSubstitute | string>; // part storage key -> related part owned in place of the line; a plain part_num in older states
+  partConditions?: Record<string, PartConditionCounts>; // part storage key -> owned quantity split by condition
+  lineNotes?: Record<string, InventoryLineNote>; // part storage key, fig_num or minifig part key -> note and tags
+  status?: InventoryStatus; // Where the set is in its lifecycle, unset until first chosen
+  statusHistory?: InventoryStatusChange[]; // Oldest first
+  purchase?: InventoryPurchase;
+  substituteRelationshipTypes?: SubstituteRelationshipType[]; // Overrides the global setting for this inventory
+  parentInventoryId?: string; // Set when this inventory is tracked as a child set of another tracked inventory
   lastUpdated: number; // timestamp
   sortPreferences?: {
     parts: SortOption[];
@@ -102,7 +111,27 @@ export interface UserInventory {
     minifigs: 'tiles' | 'list';
     spareParts: 'tiles' | 'list';
   };
-  undoHistory?: UndoAction[]; // Max 100 actions
+  undoHistory?: UndoAction[]; // Only in states saved before AppState.actionHistory; moved into it on load
+  catalogSnapshot?: InventoryCatalogSnapshot; // Part list progress is measured against until a changed definition is adopted
+}
+
+// One line of a set's part list
+export interface InventoryLine {
+  part_num: string;
+  color_id: number;
+  quantity: number;
+  is_spare: boolean;
+}
+
+// Catalog definition a user inventory was pinned to. The part list itself is
+// kept in IndexedDB, keyed by set, version and fingerprint.
+export interface InventoryCatalogSnapshot {
+  set_num: string;
+  version: number;
+  release?: string; // Latest catalog release the part list was found unchanged in, if versioned
+  fingerprint: string; // Hash of the part list, compared against the current catalog
+  parts?: InventoryLine[]; // Only in states saved before part lists moved out of the app state
+  takenAt: number; // timestamp
 }
 
 export interface SortOption {
@@ -110,27 +139,158 @@ export interface SortOption {
   direction: 'asc' | 'desc';
 }
 
-export interface UndoAction {
-  type: 'part' | 'minifig' | 'minifig-part';
+// An owned quantity change of one line
+export interface QuantityChange {
   key: string; // part key or minifig fig_num or minifigure part key
   previousQuantity: number;
   newQuantity: number;
+  previousConditions?: PartConditionCounts; // Set with newConditions when a part line's recorded conditions changed
+  newConditions?: PartConditionCounts; // Empty when no conditions remain recorded
+}
+
+export interface UndoAction extends QuantityChange {
+  type: 'part' | 'minifig' | 'minifig-part';
   timestamp: number;
   description: string; // Human readable description of the action
+  additionalChanges?: QuantityChange[]; // Further lines of the same type changed together, e.g. by a part list import
+}
+
+// An owned quantity change of one tracked inventory
+export interface HistoryAction extends UndoAction {
+  inventoryId: string;
+}
+
+// Quantity changes across all tracked inventories, for undo and redo
+export interface ActionHistory {
+  actions: HistoryAction[]; // Oldest first
+  position: number; // How many actions are applied; the ones after were undone and can be redone
 }
 
 export interface GlobalSettings {
   imagePreviewSize: '1x' | '2x' | '4x';
   includeSparePartsInProgress: boolean; // Whether to include spare parts in overall progress calculation
+  imageCacheLimitMB?: number; // Size limit of the offline image cache (default 200 MB)
+  substituteRelationshipTypes?: SubstituteRelationshipType[]; // Related parts accepted in place of a required part
+  partAllocationEnabled?: boolean; // Share one owned quantity per part/color between tracked sets by priority
+  acceptablePartConditions?: PartCondition[]; // Conditions that count towards progress
+  missingPartsExcludedStatuses?: InventoryStatus[]; // Sets with these statuses are left out of Missing Parts
+}
+
+// part_relationships.csv types that can stand in for a required part:
+// M = alternate mold, A = alternate, P = print, T = pattern
+export type SubstituteRelationshipType = 'M' | 'A' | 'P' | 'T';
+
+// Related part owned in place of a required part line
+export interface PartSubstitute {
+  part_num: string;
+  rel_type?: SubstituteRelationshipType; // Unknown for substitutes recorded before quantities were
+  quantity: number; // Pieces owned; they count towards the line while rel_type is accepted
+}
+
+// How and where a tracked copy of a set was bought
+export interface InventoryPurchase {
+  date?: string; // YYYY-MM-DD
+  price?: number;
+  currency?: string; // ISO 4217 code, e.g. "EUR"
+  vendor?: string;
+  hasBox?: boolean;
+  hasInstructions?: boolean;
+}
+
+export type InventoryStatus = 'sealed' | 'built' | 'on-display' | 'disassembled' | 'sorting' | 'in-storage' | 'sold';
+
+export interface InventoryStatusChange {
+  status: InventoryStatus;
+  changedAt: number; // timestamp
+  note?: string;
+}
+
+// Free-text note and tags on one line of an inventory
+export interface InventoryLineNote {
+  note?: string;
+  tags?: string[];
+}
+
+export type PartCondition = 'new' | 'used' | 'damaged' | 'yellowed';
+
+// Owned parts of each condition; the rest of the owned quantity has no recorded condition
+export type PartConditionCounts = Partial<Record<PartCondition, number>>;
+
+// Rebrickable to BrickLink ids, for catalog entries whose ids differ
+export interface BrickLinkMapping {
+  parts: Record<string, string>; // Rebrickable part_num -> BrickLink item number
+  colors: Record<string, number>; // Rebrickable color id -> BrickLink color id
+  minifigs: Record<string, string>; // Rebrickable fig_num -> BrickLink minifig number
+}
+
+// Physical place parts are kept in, nested like room > cabinet > drawer
+export interface StorageLocation {
+  id: string;
+  name: string;
+  parentId?: string; // Containing location, none for top-level locations
 }
 
 export interface AppState {
   userInventories: UserInventory[];
   activeInventoryId: string | null;
   globalSettings: GlobalSettings;
+  catalogUpdateReport?: CatalogUpdateReport; // Changes from the last catalog release update
+  looseParts?: Record<string, number>; // part_num_color_id -> quantity in bulk storage, not tied to any set
+  partStock?: Record<string, number>; // part_num_color_id -> quantity owned across all sets, for part allocation
+  allocationOrder?: string[]; // User inventory ids, highest allocation priority first
+  storageLocations?: StorageLocation[];
+  partLocations?: Record<string, string>; // part_num_color_id -> storage location id
+  brickLinkMapping?: BrickLinkMapping; // User overrides of Rebrickable to BrickLink ids
+  actionHistory?: ActionHistory;
 }
 
 // CSV file splitting manifest
 export interface CSVManifest {
   [fileName: string]: number; // fileName -> number of parts (1 if not split)
 }
+
+// Compression of the whole-table copies listed in manifest.json: 'gzip' means
+// every table is also available as <name>.csv.gz (never split into parts)
+export type CatalogEncoding = 'gzip';
+
+// Catalog release recorded in manifest.json by update_rebrickable_data.sh
+export interface CatalogRelease {
+  date: string; // Date the Rebrickable dump was downloaded (YYYY-MM-DD)
+  checksums: Record<string, string>; // CSV file name -> sha256 of its contents
+}
+
+// Catalog change reports
+export interface CatalogPartChange {
+  part_num: string;
+  color_id: number;
+  is_spare: boolean;
+  previousQuantity: number; // 0 if the line was added
+  newQuantity: number; // 0 if the line was removed
+}
+
+export interface CatalogPartRename {
+  part_num: string;
+  previousName: string;
+  newName: string;
+}
+
+export interface CatalogSetChange {
+  set_num: string;
+  version: number;
+  name: string;
+  addedParts: CatalogPartChange[];
+  removedParts: CatalogPartChange[];
+  changedParts: CatalogPartChange[]; // Same line, different quantity
+  renamedParts: CatalogPartRename[];
+  newVersions: number[];
+  removedVersions: number[];
+}
+
+export interface CatalogUpdateReport {
+  release: string; // Release date of the new catalog
+  previousRelease: string;
+  updatedAt: number; // timestamp
+  changedTables: string[];
+  sets: CatalogSetChange[]; // Only tracked sets with changes
+  dismissed?: boolean;
+}
@@ -0,0 +1,63 @@
+import { Injectable } from '@angular/core';
+import { SwUpdate, VersionReadyEvent } from '@angular/service-worker';
+import { BehaviorSubject, Observable, filter, interval } from 'rxjs';
+
+/**
+ * A downloaded app version waiting to be activated
+ */
+export interface AvailableUpdate {
+  catalogRelease?: string; // Set when the new version ships a different catalog release
+}
+
+/**
+ * Watches the service worker for new builds and catalog releases
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class AppUpdateService {
+  private readonly CHECK_INTERVAL_MS = 6 * 60 * 60 * 1000; // 6 hours
+
+  private availableUpdate = new BehaviorSubject<AvailableUpdate | null>(null);
+
+  constructor(private swUpdate: SwUpdate) {
+    if (!this.swUpdate.isEnabled) return;
+
+    this.swUpdate.versionUpdates
+      .pipe(filter((event): event is VersionReadyEvent => event.type === 'VERSION_READY'))
+      .subscribe(event => {
+        const current = (event.currentVersion.appData as { catalogRelease?: string } | undefined)?.catalogRelease;
+        const latest = (event.latestVersion.appData as { catalogRelease?: string } | undefined)?.catalogRelease;
+        this.availableUpdate.next({ catalogRelease: latest !== current ? latest : undefined });
+      });
+
+    // The cached app can no longer be served (e.g. files evicted) - reload to recover
+    this.swUpdate.unrecoverable.subscribe(event => {
+      console.error('Service worker is in an unrecoverable state:', event.reason);
+      document.location.reload();
+    });
+
+    // Installed apps can stay open for days, so check for updates periodically
+    interval(this.CHECK_INTERVAL_MS).subscribe(() => {
+      this.swUpdate.checkForUpdate().catch(error => console.warn('Update check failed:', error));
+    });
+  }
+
+  /**
+   * The update waiting to be activated, or null if the app is up to date
+   */
+  getAvailableUpdate(): Observable<AvailableUpdate | null> {
+    return this.availableUpdate.asObservable();
+  }
+
+  /**
+   * Switch to the downloaded version and reload the page
+   */
+  async applyUpdate(): Promise<void> {
+    try {
+      await this.swUpdate.activateUpdate();
+    } finally {
+      document.location.reload();
+    }
+  }
+}
@@ -0,0 +1,139 @@
+import { Injectable } from '@angular/core';
+import { firstValueFrom } from 'rxjs';
+import { DataService } from './data.service';
+import { StorageService } from './storage.service';
+import { PartialSet } from '../models/models';
+import { collectOwnedParts } from '../utils/owned-parts';
+
+/**
+ * How much of a catalog set could be assembled from the parts the user owns
+ */
+export interface BuildabilityResult {
+  set: PartialSet;
+  inventoryId: number;
+  version: number; // Best version of the set
+  totalNeeded: number; // Non-spare parts in the inventory
+  totalAvailable: number; // Of those, parts the user owns
+  percentage: number;
+}
+
+/**
+ * A line of a set inventory the user does not own enough of
+ */
+export interface ShortfallLine {
+  part_num: string;
+  color_id: number;
+  needed: number;
+  owned: number;
+  short: number;
+}
+
+/**
+ * Scores every set in the catalog by the share of its part list that could be
+ * built from the user's tracked sets and loose parts
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class BuildabilityService {
+  private lastRanking: { key: string; results: BuildabilityResult[] } | null = null;
+
+  constructor(
+    private dataService: DataService,
+    private storageService: StorageService
+  ) {}
+
+  /**
+   * Every set with a part list, best buildable first. Each set is scored by
+   * the version the user is closest to completing; spares and minifigures
+   * are not counted.
+   */
+  async rankSets(): Promise<BuildabilityResult[]> {
+    const state = await firstValueFrom(this.storageService.getState());
+    const owned = collectOwnedParts(state);
+
+    // Only the catalog rows of owned part/colors vary between runs
+    const key = `${this.dataService.getCatalogRelease()}|${Array.from(owned.entries()).sort().join(';')}`;
+    if (this.lastRanking?.key === key) return this.lastRanking.results;
+
+    const [totals, ownedRows] = await Promise.all([
+      firstValueFrom(this.dataService.getInventoryPartTotals()),
+      firstValueFrom(this.dataService.getInventoryPartsByPartColors(Array.from(owned.keys())))
+    ]);
+
+    // Quantity needed per inventory and part/color, summing repeated lines
+    const needed = new Map<number, Map<string, number>>();
+    ownedRows.forEach(row => {
+      if (row.is_spare) return;
+      const lines = needed.get(row.inventory_id) || new Map<string, number>();
+      const lineKey = `${row.part_num}_${row.color_id}`;
+      lines.set(lineKey, (lines.get(lineKey) || 0) + row.quantity);
+      needed.set(row.inventory_id, lines);
+    });
+
+    const available = new Map<number, number>();
+    needed.forEach((lines, inventoryId) => {
+      let total = 0;
+      lines.forEach((quantity, lineKey) => total += Math.min(quantity, owned.get(lineKey) || 0));
+      available.set(inventoryId, total);
+    });
+
+    const sets = new Map(this.dataService.getCurrentSets().map(set => [String(set.set_num).trim(), set]));
+    const bestBySet = new Map<string, BuildabilityResult>();
+
+    this.dataService.getCurrentInventories().forEach(inventory => {
+      const setNum = String(inventory.set_num).trim();
+      const set = sets.get(setNum); // Minifig inventories have no set row
+      const totalNeeded = totals.get(inventory.id) || 0;
+      if (!set || totalNeeded === 0) return;
+
+      const totalAvailable = available.get(inventory.id) || 0;
+      const result: BuildabilityResult = {
+        set,
+        inventoryId: inventory.id,
+        version: inventory.version,
+        totalNeeded,
+        totalAvailable,
+        percentage: (totalAvailable / totalNeeded) * 100
+      };
+
+      const best = bestBySet.get(setNum);
+      if (!best || result.percentage > best.percentage || (result.percentage === best.percentage && result.version < best.version)) {
+        bestBySet.set(setNum, result);
+      }
+    });
+
+    const results = Array.from(bestBySet.values())
+      .sort((a, b) => b.percentage - a.percentage || b.totalAvailable - a.totalAvailable);
+
+    this.lastRanking = { key, results };
+    return results;
+  }
+
+  /**
+   * Parts of a set version the user does not own enough of to build it
+   */
+  async getShortfall(setNum: string, version: number): Promise<ShortfallLine[]> {
+    const [state, parts] = await Promise.all([
+      firstValueFrom(this.storageService.getState()),
+      firstValueFrom(this.dataService.getSetInventoryPartsBySetNum(setNum, version))
+    ]);
+    const owned = collectOwnedParts(state);
+
+    const needed = new Map<string, ShortfallLine>();
+    parts.filter(part => !part.is_spare).forEach(part => {
+      const lineKey = `${part.part_num}_${part.color_id}`;
+      const line = needed.get(lineKey);
+      if (line) {
+        line.needed += part.quantity;
+      } else {
+        needed.set(lineKey, { part_num: part.part_num, color_id: part.color_id, needed: part.quantity, owned: owned.get(lineKey) || 0, short: 0 });
+      }
+    });
+
+    return Array.from(needed.values())
+      .map(line => ({ ...line, owned: Math.min(line.owned, line.needed), short: Math.max(0, line.needed - line.owned) }))
+      .filter(line => line.short > 0)
+      .sort((a, b) => b.short - a.short || String(a.part_num).localeCompare(String(b.part_num)));
+  }
+}
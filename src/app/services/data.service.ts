@@ -1,16 +1,56 @@
 import { Injectable } from '@angular/core';
 import { HttpClient } from '@angular/common/http';
-import { BehaviorSubject, Observable, forkJoin, switchMap, of, throwError } from 'rxjs';
-import { map, tap, catchError, take, timeout } from 'rxjs/operators';
+import { BehaviorSubject, Observable, firstValueFrom, forkJoin, from, switchMap, of, throwError } from 'rxjs';
+import { map, tap, catchError, filter, take, timeout } from 'rxjs/operators';
 import {
   Inventory, InventoryPart, InventoryMinifig, InventorySet,
   Part, Color, PartCategory, PartRelationship, Element,
   Minifig, Set, Theme,
-  PartialSet, AppState, CSVManifest
+  PartialSet, AppState, CSVManifest, CatalogEncoding, CatalogRelease, CatalogSetChange
 } from '../models/models';
 import { StorageService } from './storage.service';
-import { IndexedDBService } from './indexeddb.service';
+import { CSVCacheMetadata, IndexedDBService } from './indexeddb.service';
 import { LoadingService } from './loading.service';
+import { CSV_FILE_CONFIGS, CatalogIndexes, buildCatalogIndexes, getTableChecksum, parseCSV } from '../workers/csv-parser';
+import { LRUCache } from '../utils/lru-cache';
+import { SetCatalogSnapshot, diffSetSnapshots, hasSetChanges } from '../utils/inventory-diff';
+import { CSVBatchAck, CSVLoadRequest, CSVLoaderMessage } from '../workers/csv-loader.messages';
+
+/**
+ * manifest.json, split into the file part counts and the catalog release
+ */
+interface CatalogManifest {
+  files: CSVManifest;
+  encoding: CatalogEncoding | null; // Whether compressed copies of the tables exist
+  release: CatalogRelease | null; // Missing in manifests from older update scripts
+}
+
+/**
+ * Lookup maps for the part, color and element records of inventory rows
+ */
+export interface PartLookups {
+  parts: Map<string, Part>;
+  colors: Map<number, Color>;
+  elements: Map<string, Element>; // Keyed by `${part_num}_${color_id}`
+}
+
+/**
+ * A part linked to another one in part_relationships.csv
+ */
+export interface RelatedPart {
+  part_num: string;
+  name: string;
+  rel_type: string; // Rebrickable relationship type (M = mold, A = alternate, P = print, T = pattern...)
+}
+
+/**
+ * An inventory row for a part, with the inventory and set it belongs to
+ */
+export interface PartUsage {
+  inventory: Inventory;
+  inventoryPart: InventoryPart;
+  set?: PartialSet;
+}
 
 @Injectable({
   providedIn: 'root'
@@ -26,9 +66,33 @@ export class DataService {
   private minifigsCache = new Map<string, Minifig>();
   private inventoryPartsCache = new Map<number, InventoryPart[]>(); // Cache by inventory_id
   private inventoryMinifigsCache = new Map<number, InventoryMinifig[]>(); // Cache by inventory_id
+  private inventoriesById = new Map<number, Inventory>();
+  private inventoriesBySetNum = new Map<string, Inventory[]>(); // Sorted by version
+  private setsCache = new Map<string, PartialSet>();
   private cacheInitialized = false;
-
-  // Data stores
+  private prebuiltIndexes: CatalogIndexes | null = null; // Indexes built by the CSV worker
+  private incompleteTables: string[] = []; // Tables loaded into memory with files missing
+
+  // When the catalog is served from IndexedDB only the resident tables are held
+  // in memory; the large tables are queried on demand through these LRU caches
+  private queryFromIndexedDB = false;
+  private partsLRU = new LRUCache<string, Part | null>(5000);
+  private elementsLRU = new LRUCache<string, Element | null>(5000); // Keyed like elementsCache
+  private inventoryPartsLRU = new LRUCache<number, InventoryPart[]>(200);
+  private inventoryMinifigsLRU = new LRUCache<number, InventoryMinifig[]>(200);
+  private inventorySetsLRU = new LRUCache<number, InventorySet[]>(200);
+  private catalogCounts: { [key: string]: number } = {}; // Record counts per table
+  private inventoryPartTotals: Promise<Map<number, number>> | null = null; // Computed once per catalog
+  private readonly INVENTORY_SCAN_STEP = 5000; // Inventory ids read per IndexedDB request when scanning
+  private catalogRelease: string | null = null; // Release date from manifest.json
+
+  // Small tables that are always loaded into memory
+  private readonly RESIDENT_TABLES = ['inventories', 'colors', 'partCategories', 'minifigs', 'sets', 'themes'];
+
+  // Tables that define the part lists of tracked sets, compared across releases
+  private readonly TRACKED_SET_TABLES = ['inventories', 'inventoryParts', 'parts'];
+
+  // Data stores (large tables stay empty when querying IndexedDB)
   private inventories: Inventory[] = [];
   private inventoryParts: InventoryPart[] = [];
   private inventoryMinifigs: InventoryMinifig[] = [];
@@ -42,7 +106,7 @@ export class DataService {
   private sets: PartialSet[] = [];
   private themes: Theme[] = [];
 
-  private readonly CSV_VERSION = '2.0.0'; // Major version bump for new IndexedDB structure with individual object stores
+  private readonly CSV_VERSION = '3.1.0'; // Part numbers and other identifiers are stored as strings
 
   constructor(
     private http: HttpClient,
@@ -69,32 +133,37 @@ export class DataService {
         this.loadingService.updateProgress({ phase: 'Checking cache...', percentage: 5 });
 
         try {
+          const manifest = await this.loadManifest();
+          const metadata = await this.indexedDBService.getCSVCacheMetadata();
+
+          // A cache of a known catalog release only goes stale when the release changes
+          const cachedRelease = manifest.release && metadata?.release && metadata.version === this.CSV_VERSION ? metadata : null;
+          const changedTables = cachedRelease ? this.getChangedTables(manifest, cachedRelease) : [];
+
           // Check cache validity - no timeout, let it complete naturally during database initialization
-          const isCacheValid = await this.indexedDBService.isCSVCacheValid();
+          const isCacheValid = await this.indexedDBService.isCSVCacheValid(!!cachedRelease);
 
-          if (isCacheValid) {
+          // Caches written in an older format are re-imported
+          const isCurrentFormat = metadata?.version === this.CSV_VERSION;
+
+          if (isCacheValid && isCurrentFormat && changedTables.length === 0 && (cachedRelease || !manifest.release)) {
             console.log('✅ Cache validation passed - using cached data');
             this.loadingService.updateProgress({ phase: 'Loading from cache...', percentage: 15 });
 
             // Add more detailed progress during cache loading
             this.loadingService.updateProgress({ phase: 'Reading cached data from IndexedDB...', percentage: 25 });
-            csvData = await this.indexedDBService.loadCSVDataCache((phase: string, percentage: number) => {
+            csvData = await this.loadResidentTablesFromCache((phase: string, percentage: number) => {
               this.loadingService.updateProgress({ phase, percentage });
             });
             this.loadingService.updateProgress({ phase: 'Cache data loaded successfully', percentage: 85 });
+          } else if (isCacheValid && cachedRelease) {
+            console.log(`🔄 Catalog release ${cachedRelease.release} -> ${manifest.release!.date}, updating: ${changedTables.join(', ')}`);
+            this.loadingService.updateProgress({ phase: `Updating catalog to ${manifest.release!.date}...`, percentage: 22 });
+            csvData = await this.updateCatalogTables(manifest, cachedRelease, changedTables);
           } else {
             console.log('❌ Cache validation failed - loading from CSV files');
             this.loadingService.updateProgress({ phase: 'Cache invalid, loading CSV files...', percentage: 12 });
-            csvData = await this.loadFromCSVFilesWithProgress();
-
-            // Try to save to IndexedDB cache if possible
-            if (csvData && IndexedDBService.isSupported() && !this.indexedDBService.isDisabledForSession()) {
-              try {
-                await this.saveToIndexedDB(csvData);
-              } catch (saveError) {
-                console.warn('Failed to save to cache after CSV load:', saveError);
-              }
-            }
+            csvData = await this.loadFromCSVFilesIntoCache(manifest);
           }
         } catch (error) {
           console.warn('IndexedDB operation failed, falling back to CSV files:', error);
@@ -136,52 +205,358 @@ export class DataService {
    * Load CSV files with progress tracking
    */
   private async loadFromCSVFilesWithProgress(): Promise<any> {
-    // First, load the manifest to see which files are split
+    const manifest = await this.loadManifest();
+
+    if (typeof Worker !== 'undefined') {
+      try {
+        return await this.loadFromCSVFilesInWorker(manifest);
+      } catch (error) {
+        console.warn('CSV worker failed, parsing on the main thread instead:', error);
+      }
+    }
+
+    return this.loadFromCSVFilesInline(manifest.files);
+  }
+
+  /**
+   * Stream CSV files straight into the IndexedDB cache and read back the resident
+   * tables, falling back to parsing everything in memory if streaming fails
+   */
+  private async loadFromCSVFilesIntoCache(manifest: CatalogManifest): Promise<any> {
+    if (typeof Worker !== 'undefined') {
+      try {
+        await this.streamCSVFilesIntoIndexedDB(manifest);
+        return await this.loadResidentTablesAfterImport();
+      } catch (error) {
+        console.warn('Streamed CSV import failed, loading files into memory instead:', error);
+      }
+    }
+
+    const csvData = await this.loadFromCSVFilesWithProgress();
+
+    // Try to save to IndexedDB cache if possible
+    if (csvData && IndexedDBService.isSupported() && !this.indexedDBService.isDisabledForSession()) {
+      try {
+        await this.saveToIndexedDB({ ...csvData, ...this.getCacheMetadata(manifest, this.incompleteTables) });
+      } catch (saveError) {
+        console.warn('Failed to save to cache after CSV load:', saveError);
+      }
+    }
+
+    return csvData;
+  }
+
+  /**
+   * Re-import only the tables whose files changed in a new catalog release and
+   * report how the change affected the sets the user tracks
+   */
+  private async updateCatalogTables(manifest: CatalogManifest, cachedRelease: CSVCacheMetadata, changedTables: string[]): Promise<any> {
+    const affectsTrackedSets = changedTables.some(table => this.TRACKED_SET_TABLES.includes(table));
+    const previousSnapshots = affectsTrackedSets ? await this.snapshotTrackedSetsSafely() : null;
+
+    await this.streamCSVFilesIntoIndexedDB(manifest, changedTables, cachedRelease.recordCounts);
+
+    const currentSnapshots = previousSnapshots ? await this.snapshotTrackedSetsSafely() : null;
+    const sets: CatalogSetChange[] = [];
+    previousSnapshots?.forEach((previous, key) => {
+      const current = currentSnapshots?.get(key);
+      if (!current) return;
+      const change = diffSetSnapshots(previous, current);
+      if (hasSetChanges(change)) {
+        sets.push(change);
+      }
+    });
+
+    this.storageService.setCatalogUpdateReport({
+      release: manifest.release!.date,
+      previousRelease: cachedRelease.release!,
+      updatedAt: Date.now(),
+      changedTables,
+      sets,
+      dismissed: sets.length === 0
+    });
+
+    return this.loadResidentTablesAfterImport();
+  }
+
+  /**
+   * Keys of the tables whose files differ from the ones in the cached release
+   */
+  private getChangedTables(manifest: CatalogManifest, cachedRelease: CSVCacheMetadata): string[] {
+    const { tableChecksums } = this.getReleaseMetadata(manifest);
+    return CSV_FILE_CONFIGS
+      .filter(({ key }) => !tableChecksums?.[key] || tableChecksums[key] !== cachedRelease.tableChecksums?.[key])
+      .map(({ key }) => key);
+  }
+
+  /**
+   * Release date and per-table checksums to store with the cache
+   */
+  private getReleaseMetadata(manifest: CatalogManifest): { release?: string; tableChecksums?: { [key: string]: string } } {
+    if (!manifest.release) return {};
+
+    const tableChecksums: { [key: string]: string } = {};
+    CSV_FILE_CONFIGS.forEach(({ key, baseName }) => {
+      const checksum = getTableChecksum(manifest.release!.checksums, baseName, manifest.files[baseName] || 1);
+      if (checksum) {
+        tableChecksums[key] = checksum;
+      }
+    });
+    return { release: manifest.release.date, tableChecksums };
+  }
+
+  /**
+   * Metadata to store with a fresh import. Tables that did not load completely
+   * get no checksum, so the next load fetches them again; without a release
+   * there are no checksums and the cache is stored already expired instead.
+   */
+  private getCacheMetadata(manifest: CatalogManifest, incompleteTables: string[]): Pick<CSVCacheMetadata, 'timestamp' | 'release' | 'tableChecksums'> {
+    const { release, tableChecksums } = this.getReleaseMetadata(manifest);
+    if (incompleteTables.length > 0) {
+      console.warn(`Catalog tables imported incompletely, reloading them next time: ${incompleteTables.join(', ')}`);
+    }
+    incompleteTables.forEach(key => delete tableChecksums?.[key]);
+
+    return {
+      timestamp: release || incompleteTables.length === 0 ? Date.now() : 0,
+      release,
+      tableChecksums
+    };
+  }
+
+  /**
+   * Capture the catalog definition of every tracked set version from the
+   * IndexedDB cache, or null if that fails (the update goes ahead unreported)
+   */
+  private async snapshotTrackedSetsSafely(): Promise<Map<string, SetCatalogSnapshot> | null> {
+    try {
+      await this.storageService.whenStateLoaded();
+      const state = await firstValueFrom(this.storageService.getState());
+      const snapshots = new Map<string, SetCatalogSnapshot>();
+
+      for (const { set_num, version } of state.userInventories) {
+        const key = `${set_num}_${version}`;
+        if (snapshots.has(key)) continue;
+
+        const inventories = await this.indexedDBService.getCSVRecordsByIndex<Inventory>('inventories', 'set_num', set_num);
+        const inventory = inventories.find(inv => inv.version === version);
+        const parts = inventory
+          ? await this.indexedDBService.getCSVRecordsByIndex<InventoryPart>('inventoryParts', 'inventory_id', inventory.id)
+          : [];
+        const partNums = Array.from(new globalThis.Set(parts.map(part => part.part_num)));
+        const partRecords = await this.indexedDBService.getCSVRecordsByKeys<Part>('parts', partNums);
+        const [set] = await this.indexedDBService.getCSVRecordsByKeys<PartialSet>('sets', [set_num]);
+
+        const partNames: Record<string, string> = {};
+        partRecords.forEach(part => {
+          if (part) partNames[part.part_num] = part.name;
+        });
+
+        snapshots.set(key, {
+          set_num,
+          version,
+          name: set?.name || set_num,
+          versions: inventories.map(inv => inv.version).sort((a, b) => a - b),
+          parts,
+          partNames
+        });
+      }
+
+      return snapshots;
+    } catch (error) {
+      console.warn('Failed to snapshot tracked sets for the catalog update report:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Have the CSV worker stream parsed rows in batches and write each batch to
+   * its object store as it arrives, so the full catalog is never held in memory.
+   * When tables are given only those are replaced and the other counts are kept.
+   */
+  private async streamCSVFilesIntoIndexedDB(manifest: CatalogManifest, tables?: string[], previousCounts?: { [key: string]: number }): Promise<void> {
+    await this.indexedDBService.beginCSVStreamingImport();
+
+    try {
+      const { counts, incompleteTables } = await new Promise<{ counts: { [key: string]: number }; incompleteTables: string[] }>((resolve, reject) => {
+        const worker = new Worker(new URL('../workers/csv-loader.worker', import.meta.url), { type: 'module' });
+        // Store operations run one at a time in arrival order
+        let queue = Promise.resolve();
+
+        const fail = (error: unknown) => {
+          worker.terminate();
+          reject(error);
+        };
+
+        worker.onmessage = ({ data }: MessageEvent<CSVLoaderMessage>) => {
+          switch (data.type) {
+            case 'progress':
+              this.loadingService.updateProgress(data.progress);
+              break;
+            case 'begin':
+              queue = queue.then(() => this.indexedDBService.clearCSVStore(data.key)).catch(fail);
+              break;
+            case 'batch':
+              queue = queue
+                .then(() => this.indexedDBService.appendToCSVStore(data.key, data.rows))
+                .then(() => {
+                  const ack: CSVBatchAck = { type: 'ack', batchId: data.batchId };
+                  worker.postMessage(ack);
+                })
+                .catch(fail);
+              break;
+            case 'complete':
+              queue.then(() => {
+                worker.terminate();
+                console.log('Streamed CSV record counts:', data.counts);
+                resolve(data);
+              });
+              break;
+            case 'error':
+              fail(new Error(data.message));
+              break;
+          }
+        };
+
+        worker.onerror = (event: ErrorEvent) => fail(new Error(event.message || 'CSV worker error'));
+
+        const request: CSVLoadRequest = {
+          type: 'stream',
+          baseUrl: new URL('assets/data/', document.baseURI).href,
+          manifest: manifest.files,
+          encoding: manifest.encoding || undefined,
+          tables
+        };
+        worker.postMessage(request);
+      });
+
+      this.loadingService.updateProgress({ phase: 'Finalizing cache...', percentage: 78 });
+      await this.indexedDBService.finishCSVStreamingImport({
+        version: this.CSV_VERSION,
+        recordCounts: { ...previousCounts, ...counts },
+        ...this.getCacheMetadata(manifest, incompleteTables)
+      });
+    } catch (error) {
+      await this.indexedDBService.abortCSVStreamingImport();
+      throw error;
+    }
+  }
+
+  /**
+   * Read only the small resident tables from the IndexedDB cache; the large
+   * tables stay in IndexedDB and are queried on demand
+   */
+  private async loadResidentTablesFromCache(progressCallback?: (phase: string, percentage: number) => void): Promise<any> {
+    const csvData = await this.indexedDBService.loadCSVStores(this.RESIDENT_TABLES, progressCallback);
+
+    this.catalogCounts = await this.indexedDBService.getCSVRecordCounts()
+      || await this.indexedDBService.getCSVStoreCounts();
+    this.queryFromIndexedDB = true;
+
+    return csvData;
+  }
+
+  /**
+   * Read the resident tables back after an import; cache reads report 30-80%,
+   * which is mapped onto 80-90%
+   */
+  private loadResidentTablesAfterImport(): Promise<any> {
+    return this.loadResidentTablesFromCache((phase: string, percentage: number) => {
+      this.loadingService.updateProgress({ phase, percentage: Math.round(80 + (percentage - 30) / 5) });
+    });
+  }
+
+  /**
+   * Load the manifest that lists which CSV files are split into parts and,
+   * when present, the catalog release they belong to
+   */
+  private async loadManifest(): Promise<CatalogManifest> {
     this.loadingService.updateProgress({ phase: 'Loading manifest...', percentage: 20 });
 
-    let manifest: CSVManifest;
     try {
       const manifestText = await this.http.get('assets/data/manifest.json', { responseType: 'text' }).toPromise();
-      manifest = JSON.parse(manifestText || '{}');
+      const { release, encoding, ...files } = JSON.parse(manifestText || '{}');
+      const isRelease = typeof release?.date === 'string' && typeof release?.checksums === 'object';
+      this.catalogRelease = isRelease ? release.date : null;
+      return {
+        files,
+        encoding: encoding === 'gzip' ? encoding : null,
+        release: isRelease ? release : null
+      };
     } catch (error) {
       console.warn('No manifest file found, assuming single files for all CSVs');
       // Default manifest if file doesn't exist
-      manifest = {
-        inventories: 1,
-        inventory_parts: 1,
-        inventory_minifigs: 1,
-        inventory_sets: 1,
-        parts: 1,
-        colors: 1,
-        part_categories: 1,
-        part_relationships: 1,
-        elements: 1,
-        minifigs: 1,
-        sets: 1,
-        themes: 1
+      return {
+        release: null,
+        encoding: null,
+        files: {
+          inventories: 1,
+          inventory_parts: 1,
+          inventory_minifigs: 1,
+          inventory_sets: 1,
+          parts: 1,
+          colors: 1,
+          part_categories: 1,
+          part_relationships: 1,
+          elements: 1,
+          minifigs: 1,
+          sets: 1,
+          themes: 1
+        }
       };
     }
+  }
 
-    this.loadingService.updateProgress({ phase: 'Preparing file requests...', percentage: 22 });
+  /**
+   * Download, parse and index the CSV files in a web worker so the UI stays responsive
+   */
+  private loadFromCSVFilesInWorker(manifest: CatalogManifest): Promise<any> {
+    return new Promise((resolve, reject) => {
+      const worker = new Worker(new URL('../workers/csv-loader.worker', import.meta.url), { type: 'module' });
+
+      worker.onmessage = ({ data }: MessageEvent<CSVLoaderMessage>) => {
+        switch (data.type) {
+          case 'progress':
+            this.loadingService.updateProgress(data.progress);
+            break;
+          case 'result':
+            this.prebuiltIndexes = data.indexes;
+            this.incompleteTables = data.incompleteTables;
+            worker.terminate();
+            this.loadingService.updateProgress({ phase: 'CSV processing completed', percentage: 50 });
+            resolve(data.csvData);
+            break;
+          case 'error':
+            worker.terminate();
+            reject(new Error(data.message));
+            break;
+        }
+      };
 
-    const fileConfigs = [
-      { key: 'inventories', baseName: 'inventories' },
-      { key: 'inventoryParts', baseName: 'inventory_parts' },
-      { key: 'inventoryMinifigs', baseName: 'inventory_minifigs' },
-      { key: 'inventorySets', baseName: 'inventory_sets' },
-      { key: 'parts', baseName: 'parts' },
-      { key: 'colors', baseName: 'colors' },
-      { key: 'partCategories', baseName: 'part_categories' },
-      { key: 'partRelationships', baseName: 'part_relationships' },
-      { key: 'elements', baseName: 'elements' },
-      { key: 'minifigs', baseName: 'minifigs' },
-      { key: 'sets', baseName: 'sets' },
-      { key: 'themes', baseName: 'themes' }
-    ];
+      worker.onerror = (event: ErrorEvent) => {
+        worker.terminate();
+        reject(new Error(event.message || 'CSV worker error'));
+      };
+
+      const request: CSVLoadRequest = {
+        type: 'load',
+        baseUrl: new URL('assets/data/', document.baseURI).href,
+        manifest: manifest.files,
+        encoding: manifest.encoding || undefined
+      };
+      worker.postMessage(request);
+    });
+  }
+
+  /**
+   * Download and parse the CSV files on the main thread (used when workers are unavailable)
+   */
+  private async loadFromCSVFilesInline(manifest: CSVManifest): Promise<any> {
+    this.loadingService.updateProgress({ phase: 'Preparing file requests...', percentage: 22 });
 
     // Count total files to download for progress tracking
     let totalFiles = 0;
-    fileConfigs.forEach(({ baseName }) => {
+    CSV_FILE_CONFIGS.forEach(({ baseName }) => {
       totalFiles += manifest[baseName] || 1;
     });
 
@@ -196,7 +571,7 @@ export class DataService {
     const results: any[] = [];
     let downloadedFiles = 0;
 
-    for (const { key, baseName } of fileConfigs) {
+    for (const { key, baseName } of CSV_FILE_CONFIGS) {
       const partCount = manifest[baseName] || 1;
 
       if (partCount === 1) {
@@ -222,6 +597,7 @@ export class DataService {
         } catch (error) {
           console.error(`Failed to download ${url}:`, error);
           results.push({ key, csv: '', part: 1, totalParts: 1 });
+          this.incompleteTables.push(key);
           downloadedFiles++;
         }
       } else {
@@ -248,6 +624,7 @@ export class DataService {
           } catch (error) {
             console.error(`Failed to download ${url}:`, error);
             results.push({ key, csv: '', part: partNum, totalParts: partCount });
+            if (!this.incompleteTables.includes(key)) this.incompleteTables.push(key);
             downloadedFiles++;
           }
         }
@@ -259,7 +636,7 @@ export class DataService {
     const csvData: any = {};
 
     // Initialize arrays for each key
-    fileConfigs.forEach(({ key }) => {
+    CSV_FILE_CONFIGS.forEach(({ key }) => {
       csvData[key] = [];
     });
 
@@ -291,7 +668,7 @@ export class DataService {
 
         if (parts.length === 1) {
           // Single file
-          csvData[key] = this.parseCSV(parts[0].csv);
+          csvData[key] = parseCSV(parts[0].csv);
           console.log(`Parsed ${key}: ${csvData[key].length} records`);
         } else {
           // Multiple parts - combine them
@@ -304,7 +681,7 @@ export class DataService {
 
           for (let i = 0; i < parts.length; i++) {
             const part = parts[i];
-            const partData = this.parseCSV(part.csv);
+            const partData = parseCSV(part.csv);
 
             if (i === 0) {
               // First part, include all data (create a copy to avoid reference issues)
@@ -363,6 +740,13 @@ export class DataService {
     this.minifigs = csvData.minifigs || [];
     this.sets = csvData.sets || [];
     this.themes = csvData.themes || [];
+
+    if (!this.queryFromIndexedDB) {
+      this.catalogCounts = {};
+      CSV_FILE_CONFIGS.forEach(({ key }) => {
+        this.catalogCounts[key] = (csvData[key] || []).length;
+      });
+    }
   }
 
   /**
@@ -371,48 +755,42 @@ export class DataService {
   private initializeCache(): void {
     if (this.cacheInitialized) return;
 
-    // Cache parts
-    this.loadingService.updateProgress({ phase: 'Indexing parts for quick lookup...', percentage: 96.5 });
-    this.parts.forEach(part => {
-      this.partsCache.set(part.part_num, part);
+    // Use indexes already built off the main thread by the CSV worker when available
+    this.loadingService.updateProgress({ phase: 'Indexing parts, colors and minifigures...', percentage: 97 });
+    const indexes = this.prebuiltIndexes || buildCatalogIndexes({
+      parts: this.parts,
+      colors: this.colors,
+      elements: this.elements,
+      minifigs: this.minifigs,
+      inventoryParts: this.inventoryParts,
+      inventoryMinifigs: this.inventoryMinifigs
     });
-
-    // Cache colors
-    this.loadingService.updateProgress({ phase: 'Indexing colors...', percentage: 97 });
-    this.colors.forEach(color => {
-      this.colorsCache.set(color.id, color);
-    });
-
-    // Cache elements
-    this.loadingService.updateProgress({ phase: 'Indexing elements and part-color combinations...', percentage: 97.5 });
-    this.elements.forEach(element => {
-      this.elementsCache.set(element.element_id, element);
-      // Also cache by part_num + color_id combination
-      this.elementsCache.set(`${element.part_num}_${element.color_id}`, element);
-    });
-
-    // Cache minifigs
-    this.loadingService.updateProgress({ phase: 'Indexing minifigures...', percentage: 98 });
-    this.minifigs.forEach(minifig => {
-      this.minifigsCache.set(minifig.fig_num, minifig);
+    this.prebuiltIndexes = null;
+
+    this.partsCache = indexes.parts;
+    this.colorsCache = indexes.colors;
+    this.elementsCache = indexes.elements;
+    this.minifigsCache = indexes.minifigs;
+    this.inventoryPartsCache = indexes.inventoryParts;
+    this.inventoryMinifigsCache = indexes.inventoryMinifigs;
+
+    // Index inventories and sets by set number
+    this.loadingService.updateProgress({ phase: 'Building set and inventory indexes...', percentage: 98.5 });
+    this.inventoriesById.clear();
+    this.inventoriesBySetNum.clear();
+    this.inventories.forEach(inventory => {
+      this.inventoriesById.set(inventory.id, inventory);
+      const setNum = String(inventory.set_num).trim();
+      if (!this.inventoriesBySetNum.has(setNum)) {
+        this.inventoriesBySetNum.set(setNum, []);
+      }
+      this.inventoriesBySetNum.get(setNum)!.push(inventory);
     });
+    this.inventoriesBySetNum.forEach(inventories => inventories.sort((a, b) => a.version - b.version));
 
-    // Cache inventory parts by inventory_id for O(1) lookups
-    this.loadingService.updateProgress({ phase: 'Building inventory parts index...', percentage: 98.5 });
-    this.inventoryParts.forEach(part => {
-        if (!this.inventoryPartsCache.has(part.inventory_id)) {
-          this.inventoryPartsCache.set(part.inventory_id, []);
-        }
-        this.inventoryPartsCache.get(part.inventory_id)!.push(part);
-      });
-
-    // Cache inventory minifigs by inventory_id for O(1) lookups
-    this.loadingService.updateProgress({ phase: 'Building inventory minifigures index...', percentage: 99 });
-    this.inventoryMinifigs.forEach(minifig => {
-      if (!this.inventoryMinifigsCache.has(minifig.inventory_id)) {
-        this.inventoryMinifigsCache.set(minifig.inventory_id, []);
-      }
-      this.inventoryMinifigsCache.get(minifig.inventory_id)!.push(minifig);
+    this.setsCache.clear();
+    this.sets.forEach(set => {
+      this.setsCache.set(String(set.set_num).trim(), set);
     });
 
     this.loadingService.updateProgress({ phase: 'Finalizing indexes...', percentage: 99.5 });
@@ -443,6 +821,8 @@ export class DataService {
       this.minifigsCache.clear();
       this.inventoryPartsCache.clear();
       this.inventoryMinifigsCache.clear();
+      this.clearQueryCaches();
+      this.queryFromIndexedDB = false;
 
       // Load fresh data
       await this.loadData();
@@ -454,95 +834,6 @@ export class DataService {
     }
   }
 
-  /**
-   * Parse CSV string into typed objects
-   */
-  private parseCSV<T>(csv: string): T[] {
-    // Normalize line endings - convert \r\n and \r to \n
-    const normalizedCsv = csv.replace(/\r\n/g, '\n').replace(/\r/g, '\n');
-    const lines = normalizedCsv.split('\n');
-    if (lines.length < 2) return [];
-
-    // More aggressive header cleaning - remove all types of whitespace and control characters
-    const headers = this.parseCSVLine(lines[0]).map(h =>
-      h.trim()
-       .replace(/\r/g, '')
-       .replace(/\n/g, '')
-       .replace(/[\u0000-\u001F\u007F-\u009F]/g, '') // Remove all control characters
-    );
-
-    const result: T[] = [];
-
-    for (let i = 1; i < lines.length; i++) {
-      const line = lines[i].trim();
-      if (!line) continue;
-
-      try {
-        const values = this.parseCSVLine(line);
-        const obj: any = {};
-
-        headers.forEach((header, j) => {
-          const value = values[j]?.trim().replace(/\r/g, '').replace(/\n/g, '');
-          if (value === undefined || value === null || value === '') return;
-
-          if (value === 'true' || value === 'false' || value === 'True' || value === 'False') {
-            obj[header] = value.toLowerCase() === 'true';
-          } else if (!isNaN(Number(value)) && value !== '') {
-            obj[header] = Number(value);
-          } else {
-            obj[header] = value;
-          }
-        });
-
-        if (Object.keys(obj).length > 0) {
-          result.push(obj as T);
-        }
-      } catch (e) {
-        console.warn('Error parsing CSV line:', line, e);
-      }
-    }
-
-    return result;
-  }
-
-  /**
-   * Parse a single CSV line handling quoted values and commas
-   */
-  private parseCSVLine(line: string): string[] {
-    const result: string[] = [];
-    let current = '';
-    let inQuotes = false;
-    let i = 0;
-
-    while (i < line.length) {
-      const char = line[i];
-      const nextChar = line[i + 1];
-
-      if (char === '"' && inQuotes && nextChar === '"') {
-        // Escaped quote
-          current += '"';
-        i += 2;
-      } else if (char === '"') {
-        // Toggle quote mode
-          inQuotes = !inQuotes;
-          i++;
-      } else if (char === ',' && !inQuotes) {
-        // Field separator
-        result.push(current.trim().replace(/\r/g, '')); // Trim each field value and remove \r
-        current = '';
-        i++;
-      } else {
-        // Regular character
-        current += char;
-        i++;
-      }
-    }
-
-    // Add final field (also trimmed and \r removed)
-    result.push(current.trim().replace(/\r/g, ''));
-    return result;
-  }
-
   // === Public API Methods ===
 
   /**
@@ -556,29 +847,39 @@ export class DataService {
    * Get a specific set by set number and version
    */
   getSet(setNum: string, version: number = 1): Observable<Set | undefined> {
-    const set = this.sets.find(s => s.set_num === setNum);
-    if (set) {
-      const versionsForSet = this.inventories
-        .filter(inv => inv.set_num === setNum)
-        .map(inv => inv.version)
-        .sort((a, b) => a - b);
-
-      return of({
+    return this.whenLoaded(() => {
+      const set = this.setsCache.get(setNum.trim());
+      if (!set) return undefined;
+
+      const versionsForSet = this.getInventoriesForSet(setNum).map(inv => inv.version);
+      return {
         ...set,
         versions: versionsForSet.length > 0 ? versionsForSet : [1]
-      });
-    }
-    return of(undefined);
+      };
+    });
   }
 
   /**
    * Get inventory metadata for a set
    */
   getSetInventory(setNum: string, version: number = 1): Observable<Inventory | undefined> {
-    const inventory = this.inventories.find(inv =>
-      inv.set_num === setNum && inv.version === version
+    return this.whenLoaded(() =>
+      this.getInventoriesForSet(setNum).find(inv => Number(inv.version) === Number(version))
     );
-    return of(inventory);
+  }
+
+  /**
+   * Get every inventory (version) of a set or minifigure, sorted by version
+   */
+  getInventoriesForSet(setNum: string): Inventory[] {
+    return this.inventoriesBySetNum.get(String(setNum).trim()) || [];
+  }
+
+  /**
+   * Get inventory metadata by inventory ID
+   */
+  getInventoryById(inventoryId: number): Inventory | undefined {
+    return this.inventoriesById.get(inventoryId);
   }
 
   /**
@@ -610,119 +911,253 @@ export class DataService {
   }
 
   /**
-   * Get inventory parts from cache (O(1) lookup)
+   * Get inventory parts for an inventory (indexed lookup, cached)
    */
   getInventoryPartsFromCache(inventoryId: number): Observable<InventoryPart[]> {
-    if (!this.cacheInitialized) {
-      // Wait for cache to be initialized
-      return this.dataLoaded.pipe(
-        take(1), // Only take the first emission
-        switchMap(() => {
-          // Double-check cache is initialized after data loaded
-    if (!this.cacheInitialized) {
-      this.initializeCache();
-    }
-          const parts = this.inventoryPartsCache.get(inventoryId) || [];
-      return of(parts);
+    return this.whenLoaded(() => {
+      if (!this.queryFromIndexedDB) {
+        return this.inventoryPartsCache.get(inventoryId) || [];
+      }
+      return this.queryByInventoryId(this.inventoryPartsLRU, 'inventoryParts', inventoryId);
+    });
+  }
+
+  /**
+   * Get inventory minifigs for an inventory (indexed lookup, cached)
+   */
+  getInventoryMinifigsFromCache(inventoryId: number): Observable<InventoryMinifig[]> {
+    return this.whenLoaded(() => {
+      if (!this.queryFromIndexedDB) {
+        return this.inventoryMinifigsCache.get(inventoryId) || [];
+      }
+      return this.queryByInventoryId(this.inventoryMinifigsLRU, 'inventoryMinifigs', inventoryId);
+    });
+  }
+
+  /**
+   * Get the sub-sets included in an inventory (indexed lookup, cached)
+   */
+  getInventorySetsFromCache(inventoryId: number): Observable<InventorySet[]> {
+    return this.whenLoaded(() => {
+      if (!this.queryFromIndexedDB) {
+        return this.inventorySets.filter(invSet => invSet.inventory_id === inventoryId);
+      }
+      return this.queryByInventoryId(this.inventorySetsLRU, 'inventorySets', inventoryId);
+    });
+  }
+
+  /**
+   * Count the parts rows of an inventory without loading them
+   */
+  countInventoryParts(inventoryId: number): Observable<number> {
+    return this.whenLoaded(() => {
+      if (!this.queryFromIndexedDB) {
+        return (this.inventoryPartsCache.get(inventoryId) || []).length;
+      }
+      const cached = this.inventoryPartsLRU.get(inventoryId);
+      if (cached) return cached.length;
+      return this.indexedDBService.countCSVRecordsByIndex('inventoryParts', 'inventory_id', inventoryId);
+    });
+  }
+
+  /**
+   * Get every set inventory that contains a part, optionally in one color
+   */
+  getSetsContainingPart(partNum: string, colorId?: number): Observable<PartUsage[]> {
+    return this.whenLoaded(async () => {
+      let inventoryParts: InventoryPart[];
+
+      if (!this.queryFromIndexedDB) {
+        inventoryParts = this.inventoryParts.filter(invPart =>
+          invPart.part_num === partNum && (colorId === undefined || invPart.color_id === colorId)
+        );
+      } else if (colorId === undefined) {
+        inventoryParts = await this.indexedDBService.getCSVRecordsByIndex<InventoryPart>('inventoryParts', 'part_num', partNum);
+      } else {
+        inventoryParts = await this.indexedDBService.getCSVRecordsByIndex<InventoryPart>('inventoryParts', 'part_color', [partNum, colorId]);
+      }
+
+      const usages: PartUsage[] = [];
+      inventoryParts.forEach(inventoryPart => {
+        const inventory = this.inventoriesById.get(inventoryPart.inventory_id);
+        if (inventory) {
+          usages.push({ inventory, inventoryPart, set: this.setsCache.get(String(inventory.set_num).trim()) });
+        }
+      });
+      return usages;
+    });
+  }
+
+  /**
+   * Get every inventory row of the given part/color combinations
+   */
+  getInventoryPartsByPartColors(partColorKeys: string[]): Observable<InventoryPart[]> {
+    return this.whenLoaded(async () => {
+      if (!this.queryFromIndexedDB) {
+        const keys = new globalThis.Set(partColorKeys);
+        return this.inventoryParts.filter(invPart => keys.has(`${invPart.part_num}_${invPart.color_id}`));
+      }
+
+      return this.indexedDBService.getAllCSVRecordsByIndexKeys<InventoryPart>(
+        'inventoryParts',
+        'part_color',
+        partColorKeys.map(key => {
+          const separator = key.lastIndexOf('_');
+          return [key.slice(0, separator), Number(key.slice(separator + 1))];
         })
       );
+    });
+  }
+
+  /**
+   * Total quantity of non-spare parts in every inventory, keyed by inventory id.
+   * Needs a pass over the whole inventory parts table, so the result is kept
+   * until the catalog is reloaded.
+   */
+  getInventoryPartTotals(): Observable<Map<number, number>> {
+    return this.whenLoaded(() => {
+      if (!this.inventoryPartTotals) {
+        this.inventoryPartTotals = this.computeInventoryPartTotals();
+        this.inventoryPartTotals.catch(() => this.inventoryPartTotals = null);
+      }
+      return this.inventoryPartTotals;
+    });
+  }
+
+  private async computeInventoryPartTotals(): Promise<Map<number, number>> {
+    const totals = new Map<number, number>();
+    const add = (rows: InventoryPart[]) => rows.forEach(row => {
+      if (!row.is_spare) {
+        totals.set(row.inventory_id, (totals.get(row.inventory_id) || 0) + row.quantity);
+      }
+    });
+
+    if (!this.queryFromIndexedDB) {
+      this.inventoryPartsCache.forEach(add);
+      return totals;
     }
 
-    const parts = this.inventoryPartsCache.get(inventoryId) || [];
-    return of(parts);
+    // Read the table in ranges of inventory ids to bound memory use
+    let maxId = 0;
+    this.inventoriesById.forEach((_, id) => maxId = Math.max(maxId, id));
+    for (let start = 0; start <= maxId; start += this.INVENTORY_SCAN_STEP) {
+      add(await this.indexedDBService.getCSVRecordsByIndex<InventoryPart>(
+        'inventoryParts',
+        'inventory_id',
+        IDBKeyRange.bound(start, start + this.INVENTORY_SCAN_STEP, false, true)
+      ));
+    }
+    return totals;
   }
 
   /**
-   * Get inventory minifigs from cache (O(1) lookup)
+   * Get relationships (prints, molds, alternates...) where the part is child or parent
    */
-  getInventoryMinifigsFromCache(inventoryId: number): Observable<InventoryMinifig[]> {
-    if (!this.cacheInitialized) {
-      // Wait for cache to be initialized
-      return this.dataLoaded.pipe(
-        take(1), // Only take the first emission
-        switchMap(() => {
-          // Double-check cache is initialized after data loaded
-    if (!this.cacheInitialized) {
-      this.initializeCache();
+  getPartRelationships(partNum: string): Observable<PartRelationship[]> {
+    return this.whenLoaded(async () => {
+      if (!this.queryFromIndexedDB) {
+        return this.partRelationships.filter(rel =>
+          rel.child_part_num === partNum || rel.parent_part_num === partNum
+        );
+      }
+
+      const [asChild, asParent] = await Promise.all([
+        this.indexedDBService.getCSVRecordsByIndex<PartRelationship>('partRelationships', 'child_part_num', partNum),
+        this.indexedDBService.getCSVRecordsByIndex<PartRelationship>('partRelationships', 'parent_part_num', partNum)
+      ]);
+      return [...asChild, ...asParent];
+    });
+  }
+
+  /**
+   * Get the parts linked to a part by any of the given relationship types, in either direction
+   */
+  getRelatedParts(partNum: string, relTypes: string[]): Observable<RelatedPart[]> {
+    return this.whenLoaded(async () => {
+      const relationships = await firstValueFrom(this.getPartRelationships(partNum));
+
+      const related = new Map<string, string>(); // part_num -> rel_type
+      relationships
+        .filter(rel => relTypes.includes(rel.rel_type))
+        .forEach(rel => {
+          const other = rel.child_part_num === partNum ? rel.parent_part_num : rel.child_part_num;
+          if (other !== partNum && !related.has(other)) {
+            related.set(other, rel.rel_type);
           }
-          const minifigs = this.inventoryMinifigsCache.get(inventoryId) || [];
-          return of(minifigs);
-        })
-      );
-    }
+        });
 
-    const minifigs = this.inventoryMinifigsCache.get(inventoryId) || [];
-    return of(minifigs);
+      const parts = await this.lookupParts(Array.from(related.keys()));
+      return Array.from(related, ([part_num, rel_type]) => ({
+        part_num,
+        rel_type,
+        name: parts.get(part_num)?.name || part_num
+      }));
+    });
   }
 
   /**
-   * Get sets with pagination
+   * Resolve the part, color and element records needed to display inventory rows
    */
-  getSetsPaginated(page: number = 1, pageSize: number = 24, searchTerm?: string, yearFilter?: number): Observable<{sets: Set[], totalCount: number, hasNext: boolean}> {
-    if (!this.cacheInitialized) {
-    return this.dataLoaded.pipe(
-        switchMap(() => this.getSetsPaginatedInternal(page, pageSize, searchTerm, yearFilter))
-      );
-        }
+  getPartLookups(items: { part_num: string; color_id: number }[]): Observable<PartLookups> {
+    return this.whenLoaded(async () => {
+      const partNums = Array.from(new globalThis.Set(items.map(item => item.part_num)));
+      const partColorKeys = Array.from(new globalThis.Set(items.map(item => `${item.part_num}_${item.color_id}`)));
 
-    return this.getSetsPaginatedInternal(page, pageSize, searchTerm, yearFilter);
-            }
+      const [parts, elements] = await Promise.all([
+        this.lookupParts(partNums),
+        this.lookupElementsByPartColor(partColorKeys)
+      ]);
 
-  private getSetsPaginatedInternal(page: number, pageSize: number, searchTerm?: string, yearFilter?: number): Observable<{sets: Set[], totalCount: number, hasNext: boolean}> {
-                // Create a map of set_num to versions for efficient lookup
-                const setVersionsMap = new Map<string, number[]>();
-
-    this.inventories.forEach(inv => {
-                  if (!setVersionsMap.has(inv.set_num)) {
-                    setVersionsMap.set(inv.set_num, []);
-                  }
-                  setVersionsMap.get(inv.set_num)!.push(inv.version);
-                });
-
-                // Sort versions for each set
-                setVersionsMap.forEach((versions, setNum) => {
-                  setVersionsMap.set(setNum, versions.sort((a, b) => a - b));
-                });
-
-                // Map partial sets to full sets with versions
-    let setsWithVersions = this.sets.map(partialSet => ({
-                  ...partialSet,
-                  versions: setVersionsMap.get(partialSet.set_num) || [1]
-                }));
-
-                // Apply filters
-                if (searchTerm && searchTerm.trim()) {
-                  const search = searchTerm.toLowerCase();
-                  setsWithVersions = setsWithVersions.filter(set =>
-                    set.name.toLowerCase().includes(search) ||
-                    set.set_num.toLowerCase().includes(search)
-                  );
-                }
-
-                if (yearFilter) {
-                  setsWithVersions = setsWithVersions.filter(set => set.year === yearFilter);
-                }
-
-                // Apply pagination
-                const totalCount = setsWithVersions.length;
-                const startIndex = (page - 1) * pageSize;
-                const endIndex = startIndex + pageSize;
-                const paginatedSets = setsWithVersions.slice(startIndex, endIndex);
-                const hasNext = endIndex < totalCount;
-
-    return of({
-                  sets: paginatedSets,
-                  totalCount,
-                  hasNext
+      return { parts, colors: this.colorsCache, elements };
     });
   }
 
-  // === Getter methods for current data ===
+  /**
+   * Get sets with pagination
+   */
+  getSetsPaginated(page: number = 1, pageSize: number = 24, searchTerm?: string, yearFilter?: number): Observable<{sets: Set[], totalCount: number, hasNext: boolean}> {
+    return this.whenLoaded(() => this.getSetsPaginatedInternal(page, pageSize, searchTerm, yearFilter));
+  }
+
+  private getSetsPaginatedInternal(page: number, pageSize: number, searchTerm?: string, yearFilter?: number): {sets: Set[], totalCount: number, hasNext: boolean} {
+    // Map partial sets to full sets with versions
+    let setsWithVersions = this.sets.map(partialSet => {
+      const versions = this.getInventoriesForSet(partialSet.set_num).map(inv => inv.version);
+      return {
+        ...partialSet,
+        versions: versions.length > 0 ? versions : [1]
+      };
+    });
+
+    // Apply filters
+    if (searchTerm && searchTerm.trim()) {
+      const search = searchTerm.toLowerCase();
+      setsWithVersions = setsWithVersions.filter(set =>
+        set.name.toLowerCase().includes(search) ||
+        set.set_num.toLowerCase().includes(search)
+      );
+    }
+
+    if (yearFilter) {
+      setsWithVersions = setsWithVersions.filter(set => set.year === yearFilter);
+    }
+
+    // Apply pagination
+    const totalCount = setsWithVersions.length;
+    const startIndex = (page - 1) * pageSize;
+    const endIndex = startIndex + pageSize;
+    const paginatedSets = setsWithVersions.slice(startIndex, endIndex);
+    const hasNext = endIndex < totalCount;
 
-  getCurrentParts(): Part[] {
-    return this.parts;
+    return {
+      sets: paginatedSets,
+      totalCount,
+      hasNext
+    };
   }
 
+  // === Getter methods for current data (resident tables only) ===
+
   getCurrentColors(): Color[] {
     return this.colors;
   }
@@ -731,10 +1166,6 @@ export class DataService {
     return this.minifigs;
   }
 
-  getCurrentElements(): Element[] {
-    return this.elements;
-  }
-
   getCurrentSets(): PartialSet[] {
     return this.sets;
   }
@@ -743,10 +1174,6 @@ export class DataService {
     return this.inventories;
   }
 
-  getCurrentInventoryParts(): InventoryPart[] {
-    return this.inventoryParts;
-  }
-
   getCurrentThemes(): Theme[] {
     return this.themes;
   }
@@ -754,10 +1181,12 @@ export class DataService {
   // === Legacy methods for compatibility ===
 
   getPartsByNumbers(partNumbers: string[]): Observable<Part[]> {
-    const parts = partNumbers
-      .map(partNum => this.partsCache.get(partNum))
-      .filter(part => part !== undefined) as Part[];
-    return of(parts);
+    return this.whenLoaded(async () => {
+      const parts = await this.lookupParts(partNumbers);
+      return partNumbers
+        .map(partNum => parts.get(partNum))
+        .filter(part => part !== undefined) as Part[];
+    });
   }
 
   getColorsByIds(colorIds: number[]): Observable<Color[]> {
@@ -768,10 +1197,16 @@ export class DataService {
   }
 
   getElementsByIds(elementIds: string[]): Observable<Element[]> {
-    const elements = elementIds
-      .map(elementId => this.elementsCache.get(elementId))
-      .filter(element => element !== undefined) as Element[];
-    return of(elements);
+    return this.whenLoaded(async () => {
+      if (!this.queryFromIndexedDB) {
+        return elementIds
+          .map(elementId => this.elementsCache.get(elementId))
+          .filter(element => element !== undefined) as Element[];
+      }
+
+      const elements = await this.indexedDBService.getCSVRecordsByKeys<Element>('elements', elementIds);
+      return elements.filter(element => element !== undefined) as Element[];
+    });
   }
 
   getMinifigsByNumbers(figNumbers: string[]): Observable<Minifig[]> {
@@ -805,10 +1240,85 @@ export class DataService {
     return of(themes);
   }
 
+  // === On-demand query helpers ===
+
+  /**
+   * Run a query once the catalog has finished loading
+   */
+  private whenLoaded<T>(query: () => T | Promise<T>): Observable<T> {
+    return this.dataLoaded.pipe(
+      filter(loaded => loaded),
+      take(1),
+      switchMap(() => from(Promise.resolve(query())))
+    );
+  }
+
+  /**
+   * Look up rows of an inventory-linked table through its inventory_id index
+   */
+  private async queryByInventoryId<T>(cache: LRUCache<number, T[]>, table: string, inventoryId: number): Promise<T[]> {
+    const cached = cache.get(inventoryId);
+    if (cached) return cached;
+
+    const rows = await this.indexedDBService.getCSVRecordsByIndex<T>(table, 'inventory_id', inventoryId);
+    cache.set(inventoryId, rows);
+    return rows;
+  }
+
+  private async lookupParts(partNums: string[]): Promise<Map<string, Part>> {
+    if (!this.queryFromIndexedDB) {
+      return this.partsCache;
+    }
+
+    const missing = partNums.filter(partNum => !this.partsLRU.has(partNum));
+    const fetched = await this.indexedDBService.getCSVRecordsByKeys<Part>('parts', missing);
+    missing.forEach((partNum, i) => this.partsLRU.set(partNum, fetched[i] || null));
+
+    const parts = new Map<string, Part>();
+    partNums.forEach(partNum => {
+      const part = this.partsLRU.get(partNum);
+      if (part) parts.set(partNum, part);
+    });
+    return parts;
+  }
+
+  private async lookupElementsByPartColor(partColorKeys: string[]): Promise<Map<string, Element>> {
+    if (!this.queryFromIndexedDB) {
+      return this.elementsCache;
+    }
+
+    const missing = partColorKeys.filter(key => !this.elementsLRU.has(key));
+    const fetched = await this.indexedDBService.getCSVRecordsByIndexKeys<Element>(
+      'elements',
+      'part_color',
+      missing.map(key => {
+        const separator = key.lastIndexOf('_');
+        return [key.slice(0, separator), Number(key.slice(separator + 1))];
+      })
+    );
+    missing.forEach((key, i) => this.elementsLRU.set(key, fetched[i] || null));
+
+    const elements = new Map<string, Element>();
+    partColorKeys.forEach(key => {
+      const element = this.elementsLRU.get(key);
+      if (element) elements.set(key, element);
+    });
+    return elements;
+  }
+
+  private clearQueryCaches(): void {
+    this.inventoryPartTotals = null;
+    this.partsLRU.clear();
+    this.elementsLRU.clear();
+    this.inventoryPartsLRU.clear();
+    this.inventoryMinifigsLRU.clear();
+    this.inventorySetsLRU.clear();
+  }
+
   /**
    * Get CSV cache information
    */
-  async getCSVCacheInfo(): Promise<{ exists: boolean; timestamp?: number; age?: number; isValid?: boolean }> {
+  async getCSVCacheInfo(): Promise<{ exists: boolean; timestamp?: number; age?: number; isValid?: boolean; release?: string }> {
     try {
       // Check if IndexedDB is available and not disabled
       if (!IndexedDBService.isSupported()) {
@@ -823,23 +1333,18 @@ export class DataService {
   }
 
   /**
-   * Get current data statistics
+   * Release date of the loaded catalog, or null for unversioned data
+   */
+  getCatalogRelease(): string | null {
+    return this.catalogRelease;
+  }
+
+  /**
+   * Get the number of catalog records per table, including tables that are
+   * queried from IndexedDB rather than held in memory
    */
   getCurrentDataStats(): any {
-    return {
-      inventories: this.inventories.length,
-      inventoryParts: this.inventoryParts.length,
-      inventoryMinifigs: this.inventoryMinifigs.length,
-      inventorySets: this.inventorySets.length,
-      parts: this.parts.length,
-      colors: this.colors.length,
-      partCategories: this.partCategories.length,
-      partRelationships: this.partRelationships.length,
-      elements: this.elements.length,
-      minifigs: this.minifigs.length,
-      sets: this.sets.length,
-      themes: this.themes.length
-    };
+    return { ...this.catalogCounts };
   }
 
   /**
@@ -871,8 +1376,8 @@ export class DataService {
 
       // Add timestamp and version to the data
       const dataWithMetadata = {
-        ...csvData,
         timestamp: Date.now(),
+        ...csvData,
         version: this.CSV_VERSION
       };
 
@@ -13,12 +13,19 @@ export class ExportService {
    */
   exportData(): void {
     const data = this.storageService.exportState();
-    const blob = new Blob([data], { type: 'application/json' });
+    this.downloadFile(data, `brick-inventory-export-${new Date().toISOString().slice(0, 10)}.json`, 'application/json');
+  }
+
+  /**
+   * Offer text content as a file download
+   */
+  downloadFile(content: string, fileName: string, type: string): void {
+    const blob = new Blob([content], { type });
     const url = window.URL.createObjectURL(blob);
 
     const a = document.createElement('a');
     a.href = url;
-    a.download = `brick-inventory-export-${new Date().toISOString().slice(0, 10)}.json`;
+    a.download = fileName;
     document.body.appendChild(a);
     a.click();
 
@@ -0,0 +1,345 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable, firstValueFrom } from 'rxjs';
+import { distinctUntilChanged, map } from 'rxjs/operators';
+import { DataService } from './data.service';
+import { StorageService } from './storage.service';
+
+/**
+ * Size and usage of the offline image cache
+ */
+export interface ImageCacheStats {
+  supported: boolean;
+  entries: number;
+  bytes: number;
+  limitBytes: number;
+}
+
+/**
+ * Outcome of prefetching a batch of images
+ */
+export interface ImagePrefetchResult {
+  total: number;
+  cached: number; // Already cached or downloaded now
+  failed: number;
+  limitReached: boolean; // Stopped because the cache is full of images from this run
+}
+
+interface ImageCacheEntry {
+  size: number;
+  lastUsed: number;
+}
+
+interface ImageDownload {
+  blob: Blob | null; // null if the image could not be fetched
+  full: boolean; // Fetched but not stored because only protected images are left to evict
+}
+
+/**
+ * Keeps part, minifig and set images in Cache Storage so they can be shown
+ * offline, evicting the least recently used images beyond the configured size
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ImageCacheService {
+  static readonly DEFAULT_LIMIT_MB = 200;
+
+  private readonly CACHE_NAME = 'brick-images-v1';
+  private readonly INDEX_KEY = 'brickImageCacheIndex';
+  private readonly PREFETCH_CONCURRENCY = 4;
+  private readonly INDEX_SAVE_DELAY_MS = 1000;
+
+  private index = new Map<string, ImageCacheEntry>();
+  private limitBytes = ImageCacheService.DEFAULT_LIMIT_MB * 1024 * 1024;
+  private pending = new Map<string, Promise<ImageDownload>>(); // Downloads in flight by URL
+  private ready: Promise<void>;
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+  private stats = new BehaviorSubject<ImageCacheStats>(this.buildStats());
+
+  constructor(
+    private storageService: StorageService,
+    private dataService: DataService
+  ) {
+    this.ready = this.isSupported() ? this.loadIndex() : Promise.resolve();
+
+    this.storageService.getState().pipe(
+      map(state => state.globalSettings.imageCacheLimitMB ?? ImageCacheService.DEFAULT_LIMIT_MB),
+      distinctUntilChanged()
+    ).subscribe(limitMB => {
+      this.limitBytes = limitMB * 1024 * 1024;
+      // The stats show the limit even when nothing needs evicting
+      this.stats.next(this.buildStats());
+      this.ready.then(() => this.evictToLimit());
+    });
+  }
+
+  /**
+   * Cache Storage is only available in secure contexts
+   */
+  isSupported(): boolean {
+    return typeof window !== 'undefined' && 'caches' in window;
+  }
+
+  getStats(): Observable<ImageCacheStats> {
+    return this.stats.asObservable();
+  }
+
+  /**
+   * Resolve an image URL to something an <img> can show: an object URL of the
+   * cached copy (caller must revoke it), or the original URL if the image
+   * cannot be cached
+   */
+  async getImageSrc(url: string): Promise<string> {
+    if (!this.isCacheable(url)) return url;
+
+    try {
+      await this.ready;
+      const blob = await this.getCachedBlob(url) || (await this.download(url)).blob;
+      return blob ? URL.createObjectURL(blob) : url;
+    } catch (error) {
+      console.warn('Image cache lookup failed:', error);
+      return url;
+    }
+  }
+
+  /**
+   * Download every image of the user's tracked sets that is not cached yet
+   */
+  async prefetchTrackedSetImages(onProgress?: (done: number, total: number) => void): Promise<ImagePrefetchResult> {
+    const urls = await this.getTrackedSetImageUrls();
+    return this.prefetch(urls, onProgress);
+  }
+
+  /**
+   * Download a list of images, never evicting images fetched during this run
+   */
+  async prefetch(urls: string[], onProgress?: (done: number, total: number) => void): Promise<ImagePrefetchResult> {
+    const queue = Array.from(new globalThis.Set(urls.filter(url => this.isCacheable(url))));
+    const result: ImagePrefetchResult = { total: queue.length, cached: 0, failed: 0, limitReached: false };
+    if (!this.isSupported() || queue.length === 0) return result;
+
+    await this.ready;
+    const startedAt = Date.now();
+    let done = 0;
+
+    const worker = async () => {
+      while (queue.length > 0 && !result.limitReached) {
+        const url = queue.shift()!;
+        try {
+          if (this.index.has(url) && await this.getCachedBlob(url)) {
+            result.cached++;
+          } else {
+            const { blob, full } = await this.download(url, startedAt);
+            if (full) {
+              result.limitReached = true;
+            } else if (blob) {
+              result.cached++;
+            } else {
+              result.failed++;
+            }
+          }
+        } catch {
+          result.failed++;
+        }
+        onProgress?.(++done, result.total);
+      }
+    };
+
+    await Promise.all(Array.from({ length: this.PREFETCH_CONCURRENCY }, () => worker()));
+    this.saveIndex();
+    return result;
+  }
+
+  /**
+   * Remove least recently used images until the cache fits its size limit
+   */
+  async evictToLimit(): Promise<void> {
+    await this.evict(this.limitBytes, Number.POSITIVE_INFINITY);
+  }
+
+  /**
+   * Delete every cached image
+   */
+  async clear(): Promise<void> {
+    if (!this.isSupported()) return;
+
+    await this.ready;
+    await caches.delete(this.CACHE_NAME);
+    this.index.clear();
+    this.saveIndex();
+  }
+
+  private isCacheable(url: string | null | undefined): url is string {
+    return !!url && this.isSupported() && /^https?:\/\//.test(url);
+  }
+
+  private async getCachedBlob(url: string): Promise<Blob | null> {
+    const entry = this.index.get(url);
+    if (!entry) return null;
+
+    const cache = await caches.open(this.CACHE_NAME);
+    const response = await cache.match(url);
+    if (!response) {
+      // Evicted by the browser behind our back
+      this.index.delete(url);
+      this.scheduleSave();
+      return null;
+    }
+
+    entry.lastUsed = Date.now();
+    this.scheduleSave();
+    return response.blob();
+  }
+
+  /**
+   * Fetch an image and store it, sharing concurrent requests for the same URL.
+   * Images used at or after protectSince are never evicted to make room.
+   */
+  private download(url: string, protectSince = Number.POSITIVE_INFINITY): Promise<ImageDownload> {
+    let request = this.pending.get(url);
+    if (!request) {
+      request = this.fetchAndStore(url, protectSince).finally(() => this.pending.delete(url));
+      this.pending.set(url, request);
+    }
+    return request;
+  }
+
+  private async fetchAndStore(url: string, protectSince: number): Promise<ImageDownload> {
+    let response: Response;
+    try {
+      // Needs CORS: opaque responses cannot be read back into an object URL
+      response = await fetch(url, { mode: 'cors' });
+    } catch {
+      return { blob: null, full: false }; // Offline or the CDN refused CORS
+    }
+    if (!response.ok) return { blob: null, full: false };
+
+    const blob = await response.clone().blob();
+    if (blob.size > this.limitBytes) return { blob, full: false };
+
+    await this.evict(this.limitBytes - blob.size, protectSince);
+    if (this.getTotalBytes() + blob.size > this.limitBytes) {
+      return { blob, full: true };
+    }
+
+    try {
+      const cache = await caches.open(this.CACHE_NAME);
+      await cache.put(url, response);
+      this.index.set(url, { size: blob.size, lastUsed: Date.now() });
+      this.scheduleSave();
+    } catch (error) {
+      console.warn('Failed to store image in cache:', error);
+    }
+    return { blob, full: false };
+  }
+
+  private async evict(targetBytes: number, protectSince: number): Promise<void> {
+    if (!this.isSupported() || this.getTotalBytes() <= targetBytes) return;
+
+    const candidates = Array.from(this.index.entries())
+      .filter(([, entry]) => entry.lastUsed < protectSince)
+      .sort(([, a], [, b]) => a.lastUsed - b.lastUsed);
+
+    const cache = await caches.open(this.CACHE_NAME);
+    let total = this.getTotalBytes();
+    for (const [url, entry] of candidates) {
+      if (total <= targetBytes) break;
+      await cache.delete(url);
+      this.index.delete(url);
+      total -= entry.size;
+    }
+    this.saveIndex();
+  }
+
+  /**
+   * Load the usage index and drop entries whose responses are gone (and
+   * responses the index no longer knows about)
+   */
+  private async loadIndex(): Promise<void> {
+    try {
+      const stored = localStorage.getItem(this.INDEX_KEY);
+      if (stored) {
+        const entries = JSON.parse(stored) as Record<string, ImageCacheEntry>;
+        this.index = new Map(Object.entries(entries));
+      }
+
+      const cache = await caches.open(this.CACHE_NAME);
+      const cachedUrls = new globalThis.Set((await cache.keys()).map(request => request.url));
+      for (const url of cachedUrls) {
+        if (!this.index.has(url)) await cache.delete(url);
+      }
+      for (const url of Array.from(this.index.keys())) {
+        if (!cachedUrls.has(url)) this.index.delete(url);
+      }
+    } catch (error) {
+      console.warn('Failed to load image cache index:', error);
+    }
+    this.saveIndex();
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => this.saveIndex(), this.INDEX_SAVE_DELAY_MS);
+  }
+
+  private saveIndex(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+
+    try {
+      localStorage.setItem(this.INDEX_KEY, JSON.stringify(Object.fromEntries(this.index)));
+    } catch (error) {
+      console.warn('Failed to save image cache index:', error);
+    }
+    this.stats.next(this.buildStats());
+  }
+
+  private getTotalBytes(): number {
+    let total = 0;
+    this.index.forEach(entry => total += entry.size);
+    return total;
+  }
+
+  private buildStats(): ImageCacheStats {
+    return {
+      supported: this.isSupported(),
+      entries: this.index.size,
+      bytes: this.getTotalBytes(),
+      limitBytes: this.limitBytes
+    };
+  }
+
+  /**
+   * Images shown for the user's tracked sets: the set itself, its parts, its
+   * minifigures and their parts
+   */
+  private async getTrackedSetImageUrls(): Promise<string[]> {
+    const state = await firstValueFrom(this.storageService.getState());
+    const urls: string[] = [];
+
+    for (const inventory of state.userInventories) {
+      const version = Number(inventory.version);
+      const [set, parts, inventoryMinifigs] = await Promise.all([
+        firstValueFrom(this.dataService.getSet(inventory.set_num, version)),
+        firstValueFrom(this.dataService.getSetInventoryPartsBySetNum(inventory.set_num, version)),
+        firstValueFrom(this.dataService.getSetInventoryMinifigsBySetNum(inventory.set_num, version))
+      ]);
+
+      if (set?.img_url) urls.push(set.img_url);
+      parts.forEach(part => part.img_url && urls.push(part.img_url));
+
+      const figNums = inventoryMinifigs.map(minifig => minifig.fig_num);
+      const minifigs = await firstValueFrom(this.dataService.getMinifigsByNumbers(figNums));
+      minifigs.forEach(minifig => minifig.img_url && urls.push(minifig.img_url));
+
+      for (const figNum of figNums) {
+        const figParts = await firstValueFrom(this.dataService.getSetInventoryPartsBySetNum(figNum));
+        figParts.forEach(part => part.img_url && urls.push(part.img_url));
+      }
+    }
+
+    return urls;
+  }
+}
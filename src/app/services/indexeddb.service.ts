@@ -1,5 +1,5 @@
 import { Injectable } from '@angular/core';
-import { AppState, Inventory, InventoryPart, InventoryMinifig, InventorySet, Part, Color, PartCategory, PartRelationship, Element, Minifig, PartialSet, Theme } from '../models/models';
+import { AppState, Inventory, InventoryLine, InventoryPart, InventoryMinifig, InventorySet, Part, Color, PartCategory, PartRelationship, Element, Minifig, PartialSet, Theme } from '../models/models';
 
 interface CSVDataCache {
   inventories: Inventory[];
@@ -16,6 +16,19 @@ interface CSVDataCache {
   themes: Theme[];
   timestamp: number;
   version: string;
+  release?: string;
+  tableChecksums?: { [key: string]: string };
+}
+
+/**
+ * Information about the imported catalog, saved next to the CSV object stores
+ */
+export interface CSVCacheMetadata {
+  timestamp: number;
+  version: string;
+  recordCounts?: { [key: string]: number }; // Records imported per table
+  release?: string; // Catalog release date from manifest.json
+  tableChecksums?: { [key: string]: string }; // Table key -> checksum of its files
 }
 
 @Injectable({
@@ -23,10 +36,11 @@ interface CSVDataCache {
 })
 export class IndexedDBService {
   private readonly DB_NAME = 'BrickInventoryDB';
-  private readonly DB_VERSION = 3; // Increment version to add new CSV object stores
+  private readonly DB_VERSION = 4; // Version 4 adds query indexes to the CSV object stores
   private readonly USER_STORE_NAME = 'appState';
   private readonly CSV_STORE_NAME = 'csvDataCache'; // Legacy store - will be removed
   private readonly STATE_KEY = 'brickInventoryAppState';
+  private readonly CATALOG_SNAPSHOT_KEY_PREFIX = 'catalogSnapshot_'; // Pinned part lists, kept out of the app state
   private readonly CSV_DATA_KEY = 'csvDataCache';
   private readonly CSV_CACHE_EXPIRY_HOURS = 12;
 
@@ -216,6 +230,16 @@ export class IndexedDBService {
         db.createObjectStore(this.USER_STORE_NAME, { keyPath: 'id' });
       }
 
+      // Stores from before version 4 have no query indexes. Indexing a populated
+      // store during the upgrade can be slow, so drop them and let the catalog re-import.
+      if (oldVersion > 0 && oldVersion < 4) {
+        Object.values(this.CSV_STORES).forEach(name => {
+          if (db.objectStoreNames.contains(name)) {
+            db.deleteObjectStore(name);
+          }
+        });
+      }
+
       // For version 3+, create CSV object stores in a simpler way
       if (newVersion >= 3) {
         this.createCSVObjectStoresSimplified(db);
@@ -235,7 +259,6 @@ export class IndexedDBService {
    * Create CSV object stores with simplified approach to avoid upgrade hangs
    */
   private createCSVObjectStoresSimplified(db: IDBDatabase): void {
-    // Only create the essential stores without complex indexing initially
     const essentialStores = [
       { name: this.CSV_STORES.inventories, keyPath: 'id' },
       { name: this.CSV_STORES.parts, keyPath: 'part_num' },
@@ -256,17 +279,51 @@ export class IndexedDBService {
       this.CSV_STORES.partRelationships
     ];
 
+    // Indexes used by the on-demand catalog queries, keyed by store name
+    const storeIndexes: { [storeName: string]: { name: string; keyPath: string | string[] }[] } = {
+      [this.CSV_STORES.inventories]: [
+        { name: 'set_num', keyPath: 'set_num' },
+        { name: 'set_version', keyPath: ['set_num', 'version'] }
+      ],
+      [this.CSV_STORES.inventoryParts]: [
+        { name: 'inventory_id', keyPath: 'inventory_id' },
+        { name: 'part_num', keyPath: 'part_num' },
+        { name: 'part_color', keyPath: ['part_num', 'color_id'] }
+      ],
+      [this.CSV_STORES.inventoryMinifigs]: [
+        { name: 'inventory_id', keyPath: 'inventory_id' },
+        { name: 'fig_num', keyPath: 'fig_num' }
+      ],
+      [this.CSV_STORES.inventorySets]: [
+        { name: 'inventory_id', keyPath: 'inventory_id' },
+        { name: 'set_num', keyPath: 'set_num' }
+      ],
+      [this.CSV_STORES.elements]: [
+        { name: 'part_color', keyPath: ['part_num', 'color_id'] }
+      ],
+      [this.CSV_STORES.partRelationships]: [
+        { name: 'child_part_num', keyPath: 'child_part_num' },
+        { name: 'parent_part_num', keyPath: 'parent_part_num' }
+      ]
+    };
+
+    const createIndexes = (store: IDBObjectStore) => {
+      (storeIndexes[store.name] || []).forEach(({ name, keyPath }) => {
+        store.createIndex(name, keyPath, { unique: false });
+      });
+    };
+
     // Create stores with key paths
     essentialStores.forEach(({ name, keyPath }) => {
       if (!db.objectStoreNames.contains(name)) {
-        db.createObjectStore(name, { keyPath });
+        createIndexes(db.createObjectStore(name, { keyPath }));
       }
     });
 
     // Create stores without key paths
     keylessStores.forEach(name => {
       if (!db.objectStoreNames.contains(name)) {
-        db.createObjectStore(name);
+        createIndexes(db.createObjectStore(name));
       }
     });
   }
@@ -364,6 +421,56 @@ export class IndexedDBService {
     }
   }
 
+  /**
+   * Save the part lists of catalog snapshots in one transaction
+   */
+  async saveCatalogSnapshotParts(entries: { key: string; parts: InventoryLine[] }[]): Promise<void> {
+    this.throwIfDisabled();
+    if (entries.length === 0) return;
+
+    try {
+      const db = await this.ensureDB();
+
+      return new Promise((resolve, reject) => {
+        const transaction = db.transaction([this.USER_STORE_NAME], 'readwrite');
+        const store = transaction.objectStore(this.USER_STORE_NAME);
+
+        entries.forEach(({ key, parts }) => {
+          store.put({ id: this.CATALOG_SNAPSHOT_KEY_PREFIX + key, data: parts, timestamp: Date.now() });
+        });
+
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+      });
+    } catch (error) {
+      console.error('Error saving catalog snapshots to IndexedDB:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Load the part list of a catalog snapshot, or null if it was never stored here
+   */
+  async loadCatalogSnapshotParts(key: string): Promise<InventoryLine[] | null> {
+    this.throwIfDisabled();
+
+    try {
+      const db = await this.ensureDB();
+
+      return new Promise((resolve, reject) => {
+        const transaction = db.transaction([this.USER_STORE_NAME], 'readonly');
+        const store = transaction.objectStore(this.USER_STORE_NAME);
+        const request = store.get(this.CATALOG_SNAPSHOT_KEY_PREFIX + key);
+
+        request.onsuccess = () => resolve(request.result ? request.result.data : null);
+        request.onerror = () => reject(request.error);
+      });
+    } catch (error) {
+      console.error('Error loading catalog snapshot from IndexedDB:', error);
+      throw error;
+    }
+  }
+
   /**
    * Save CSV data cache to individual object stores
    */
@@ -438,8 +545,18 @@ export class IndexedDBService {
         }
       }
 
-      // Save metadata with timestamp and version
-      await this.saveCSVMetadata(csvData.timestamp, csvData.version);
+      // Save metadata with timestamp, version and record counts
+      const recordCounts: { [key: string]: number } = {};
+      storeDataSteps.forEach(step => {
+        recordCounts[step.name] = Array.isArray(step.data) ? step.data.length : 0;
+      });
+      await this.saveCSVMetadata({
+        timestamp: csvData.timestamp,
+        version: csvData.version,
+        recordCounts,
+        release: csvData.release,
+        tableChecksums: csvData.tableChecksums
+      });
 
       // Clear population flag to indicate successful completion
       console.log('✅ Clearing population flag - cache population complete');
@@ -459,6 +576,86 @@ export class IndexedDBService {
     }
   }
 
+  /**
+   * Start a streamed CSV import. Rows are then written table by table with
+   * clearCSVStore/appendToCSVStore and the import is closed with
+   * finishCSVStreamingImport (or abortCSVStreamingImport on failure).
+   */
+  async beginCSVStreamingImport(): Promise<void> {
+    this.throwIfDisabled();
+    await this.ensureDB();
+
+    console.log('🏗️ Setting population flag for streamed import...');
+    await this.setPopulationFlag();
+  }
+
+  /**
+   * Remove all records from one CSV object store
+   */
+  async clearCSVStore(name: string): Promise<void> {
+    const storeName = this.getCSVStoreName(name);
+    const db = await this.ensureDB();
+
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction([storeName], 'readwrite');
+      const request = transaction.objectStore(storeName).clear();
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Append a batch of parsed rows to a CSV object store
+   */
+  async appendToCSVStore(name: string, rows: any[]): Promise<number> {
+    const storeName = this.getCSVStoreName(name);
+    const db = await this.ensureDB();
+    return this.writeBatchToObjectStore(db, storeName, rows, this.getCSVKeyGenerator(name));
+  }
+
+  /**
+   * Record cache metadata and clear the population flag after a streamed import
+   */
+  async finishCSVStreamingImport(metadata: CSVCacheMetadata): Promise<void> {
+    await this.saveCSVMetadata(metadata);
+    await this.clearPopulationFlag();
+    console.log('✅ Streamed CSV import complete');
+  }
+
+  /**
+   * Clear the population flag after a failed streamed import
+   */
+  async abortCSVStreamingImport(): Promise<void> {
+    try {
+      await this.clearPopulationFlag();
+    } catch (error) {
+      console.error('Failed to clear population flag after streamed import error:', error);
+    }
+  }
+
+  private getCSVStoreName(name: string): string {
+    const storeName = this.CSV_STORES[name as keyof typeof this.CSV_STORES];
+    if (!storeName || name === 'metadata') {
+      throw new Error(`Unknown CSV store: ${name}`);
+    }
+    return storeName;
+  }
+
+  /**
+   * Key generator for stores without a natural key path
+   */
+  private getCSVKeyGenerator(name: string): ((item: any) => string) | undefined {
+    switch (name) {
+      case 'inventoryParts': return this.generateInventoryPartKey;
+      case 'inventoryMinifigs': return this.generateInventoryMinifigKey;
+      case 'inventorySets': return this.generateInventorySetKey;
+      case 'partRelationships': return this.generatePartRelationshipKey;
+      default: return undefined;
+    }
+  }
+
   /**
    * Load CSV data cache from individual object stores
    */
@@ -567,78 +764,7 @@ export class IndexedDBService {
       const end = Math.min(start + batchSize, data.length);
       const batch = data.slice(start, end);
 
-      const batchSaved = await new Promise<number>((resolve, reject) => {
-        const batchTransaction = db.transaction([storeName], 'readwrite');
-        const batchStore = batchTransaction.objectStore(storeName);
-        let completed = 0;
-        let errors = 0;
-
-        batchTransaction.oncomplete = () => resolve(completed);
-        batchTransaction.onerror = () => {
-          console.error(`❌ Batch transaction error for ${storeName}:`, batchTransaction.error);
-          reject(batchTransaction.error);
-        };
-
-        batch.forEach((item, index) => {
-          try {
-            // Validate item before processing
-            if (!item || typeof item !== 'object') {
-              errors++;
-              if (errors <= 10) { // Limit logging to prevent console crashes
-                console.error(`❌ Invalid item at ${start + index} in ${storeName}: item is not an object`);
-              }
-              return;
-            }
-
-            const key = keyGenerator ? keyGenerator(item) : undefined;
-
-            // Validate generated key
-            if (keyGenerator && (key === null || key === undefined || key === '')) {
-              errors++;
-              if (errors <= 10) { // Limit logging to prevent console crashes
-                console.error(`❌ Invalid key generated for item ${start + index} in ${storeName}:`,
-                  { item: JSON.stringify(item).substring(0, 200), key });
-              }
-              return;
-            }
-
-            // Use put() instead of add() to allow overwriting existing keys
-            const request = key ? batchStore.put(item, key) : batchStore.put(item);
-
-            request.onsuccess = () => {
-              completed++;
-            };
-
-            request.onerror = () => {
-              errors++;
-              if (errors <= 10) { // Limit logging to prevent console crashes
-                console.error(`❌ Failed to save item ${start + index} in ${storeName}:`, request.error);
-              } else if (errors === 11) {
-                console.warn(`⚠️ Too many errors in ${storeName}, suppressing further error logs...`);
-              }
-              // Don't reject here, let the batch continue
-            };
-          } catch (error) {
-            errors++;
-            if (errors <= 10) { // Limit logging to prevent console crashes
-              console.error(`❌ Exception saving item ${start + index} in ${storeName}:`, error);
-              console.error(`Item data:`, JSON.stringify(item).substring(0, 200));
-            } else if (errors === 11) {
-              console.warn(`⚠️ Too many exceptions in ${storeName}, suppressing further exception logs...`);
-            }
-          }
-        });
-
-        // Set a timeout to prevent hanging
-        setTimeout(() => {
-          if (completed + errors >= batch.length) {
-            resolve(completed);
-          } else {
-            console.warn(`⚠️ Batch timeout for ${storeName}: completed ${completed}, errors ${errors}, expected ${batch.length}`);
-            resolve(completed);
-          }
-        }, 30000); // 30 second timeout
-      });
+      const batchSaved = await this.writeBatchToObjectStore(db, storeName, batch, keyGenerator, start);
 
       totalSaved += batchSaved;
 
@@ -657,6 +783,84 @@ export class IndexedDBService {
     }
   }
 
+  /**
+   * Write one batch of records in a single transaction, resolving with the number saved
+   */
+  private writeBatchToObjectStore<T>(db: IDBDatabase, storeName: string, batch: T[], keyGenerator?: (item: T) => string, start: number = 0): Promise<number> {
+    return new Promise<number>((resolve, reject) => {
+      const batchTransaction = db.transaction([storeName], 'readwrite');
+      const batchStore = batchTransaction.objectStore(storeName);
+      let completed = 0;
+      let errors = 0;
+
+      batchTransaction.oncomplete = () => resolve(completed);
+      batchTransaction.onerror = () => {
+        console.error(`❌ Batch transaction error for ${storeName}:`, batchTransaction.error);
+        reject(batchTransaction.error);
+      };
+
+      batch.forEach((item, index) => {
+        try {
+          // Validate item before processing
+          if (!item || typeof item !== 'object') {
+            errors++;
+            if (errors <= 10) { // Limit logging to prevent console crashes
+              console.error(`❌ Invalid item at ${start + index} in ${storeName}: item is not an object`);
+            }
+            return;
+          }
+
+          const key = keyGenerator ? keyGenerator(item) : undefined;
+
+          // Validate generated key
+          if (keyGenerator && (key === null || key === undefined || key === '')) {
+            errors++;
+            if (errors <= 10) { // Limit logging to prevent console crashes
+              console.error(`❌ Invalid key generated for item ${start + index} in ${storeName}:`,
+                { item: JSON.stringify(item).substring(0, 200), key });
+            }
+            return;
+          }
+
+          // Use put() instead of add() to allow overwriting existing keys
+          const request = key ? batchStore.put(item, key) : batchStore.put(item);
+
+          request.onsuccess = () => {
+            completed++;
+          };
+
+          request.onerror = () => {
+            errors++;
+            if (errors <= 10) { // Limit logging to prevent console crashes
+              console.error(`❌ Failed to save item ${start + index} in ${storeName}:`, request.error);
+            } else if (errors === 11) {
+              console.warn(`⚠️ Too many errors in ${storeName}, suppressing further error logs...`);
+            }
+            // Don't reject here, let the batch continue
+          };
+        } catch (error) {
+          errors++;
+          if (errors <= 10) { // Limit logging to prevent console crashes
+            console.error(`❌ Exception saving item ${start + index} in ${storeName}:`, error);
+            console.error(`Item data:`, JSON.stringify(item).substring(0, 200));
+          } else if (errors === 11) {
+            console.warn(`⚠️ Too many exceptions in ${storeName}, suppressing further exception logs...`);
+          }
+        }
+      });
+
+      // Set a timeout to prevent hanging
+      setTimeout(() => {
+        if (completed + errors >= batch.length) {
+          resolve(completed);
+        } else {
+          console.warn(`⚠️ Batch timeout for ${storeName}: completed ${completed}, errors ${errors}, expected ${batch.length}`);
+          resolve(completed);
+        }
+      }, 30000); // 30 second timeout
+    });
+  }
+
   /**
    * Load all data from a specific object store
    */
@@ -680,21 +884,15 @@ export class IndexedDBService {
   }
 
   /**
-   * Save CSV metadata (timestamp and version)
+   * Save CSV metadata (timestamp, version, record counts and catalog release)
    */
-  private async saveCSVMetadata(timestamp: number, version: string): Promise<void> {
+  private async saveCSVMetadata(metadata: CSVCacheMetadata): Promise<void> {
     const db = await this.ensureDB();
     const transaction = db.transaction([this.CSV_STORES.metadata], 'readwrite');
     const store = transaction.objectStore(this.CSV_STORES.metadata);
 
-    const metadata = {
-      key: 'csv_cache_info',
-      timestamp,
-      version
-    };
-
     return new Promise<void>((resolve, reject) => {
-      const request = store.put(metadata);
+      const request = store.put({ key: 'csv_cache_info', ...metadata });
       request.onsuccess = () => resolve();
       request.onerror = () => reject(request.error);
     });
@@ -703,10 +901,10 @@ export class IndexedDBService {
   /**
    * Load CSV metadata (timestamp and version) with timeout protection
    */
-  private async loadCSVMetadata(): Promise<{ timestamp: number; version: string } | null> {
+  private async loadCSVMetadata(): Promise<CSVCacheMetadata | null> {
     const db = await this.ensureDB();
 
-    return new Promise<{ timestamp: number; version: string } | null>((resolve, reject) => {
+    return new Promise<CSVCacheMetadata | null>((resolve, reject) => {
       const timeout = setTimeout(() => {
         resolve(null);
       }, 5000); // Increased from 2 to 5 seconds
@@ -721,7 +919,10 @@ export class IndexedDBService {
           if (request.result) {
             resolve({
               timestamp: request.result.timestamp,
-              version: request.result.version
+              version: request.result.version,
+              recordCounts: request.result.recordCounts,
+              release: request.result.release,
+              tableChecksums: request.result.tableChecksums
             });
           } else {
             resolve(null);
@@ -778,23 +979,24 @@ export class IndexedDBService {
   };
 
   /**
-   * Check if CSV cache is valid
+   * Check if CSV cache is valid. Caches of a versioned catalog release are
+   * replaced when the release changes, so their age can be ignored.
    */
-  async isCSVCacheValid(): Promise<boolean> {
+  async isCSVCacheValid(ignoreExpiry: boolean = false): Promise<boolean> {
     try {
       this.throwIfDisabled();
 
       // Wait for database to be ready before validating cache
       await this.ensureDB();
 
-      return await this.performCacheValidation();
+      return await this.performCacheValidation(ignoreExpiry);
     } catch (error) {
       console.error('Cache validation error:', error);
       return false;
     }
   }
 
-  private async performCacheValidation(): Promise<boolean> {
+  private async performCacheValidation(ignoreExpiry: boolean): Promise<boolean> {
     try {
       // Remove timeout - let cache validation complete naturally
       // If database is initializing, this will wait for it to complete
@@ -828,7 +1030,7 @@ export class IndexedDBService {
 
       console.log(`📅 Cache metadata: timestamp=${new Date(metadata.timestamp).toISOString()}, age=${ageHours.toFixed(2)}h, version=${metadata.version}`);
 
-      if (ageHours > this.CSV_CACHE_EXPIRY_HOURS) {
+      if (!ignoreExpiry && ageHours > this.CSV_CACHE_EXPIRY_HOURS) {
         console.log(`❌ Cache expired: ${ageHours.toFixed(1)} hours old (max: ${this.CSV_CACHE_EXPIRY_HOURS})`);
         return false;
       }
@@ -1040,7 +1242,7 @@ export class IndexedDBService {
   /**
    * Get CSV cache information
    */
-  async getCSVCacheInfo(): Promise<{ exists: boolean; timestamp?: number; age?: number; isValid?: boolean }> {
+  async getCSVCacheInfo(): Promise<{ exists: boolean; timestamp?: number; age?: number; isValid?: boolean; release?: string }> {
     this.throwIfDisabled();
 
     try {
@@ -1052,13 +1254,15 @@ export class IndexedDBService {
       const now = Date.now();
       const age = now - metadata.timestamp;
       const ageInHours = age / (1000 * 60 * 60);
-      const isValid = ageInHours < this.CSV_CACHE_EXPIRY_HOURS;
+      // Versioned releases stay valid until the manifest lists a new release
+      const isValid = !!metadata.release || ageInHours < this.CSV_CACHE_EXPIRY_HOURS;
 
       return {
         exists: true,
         timestamp: metadata.timestamp,
         age: age,
-        isValid: isValid
+        isValid: isValid,
+        release: metadata.release
       };
     } catch (error) {
       console.error('Error getting CSV cache info:', error);
@@ -1066,6 +1270,180 @@ export class IndexedDBService {
     }
   }
 
+  /**
+   * Load only the given CSV tables from their object stores
+   */
+  async loadCSVStores(names: string[], progressCallback?: (phase: string, percentage: number) => void): Promise<any> {
+    this.throwIfDisabled();
+
+    const results: any = {};
+
+    for (let i = 0; i < names.length; i++) {
+      const name = names[i];
+      const progress = Math.round(30 + (i / names.length) * 50); // 30-80% range
+
+      progressCallback?.(`Loading ${name} data from cache...`, progress);
+      results[name] = await this.loadFromObjectStore(this.getCSVStoreName(name));
+    }
+
+    return results;
+  }
+
+  /**
+   * Get all records whose index matches the query
+   */
+  async getCSVRecordsByIndex<T>(name: string, indexName: string, query: IDBValidKey | IDBKeyRange): Promise<T[]> {
+    this.throwIfDisabled();
+
+    const db = await this.ensureDB();
+    const storeName = this.getCSVStoreName(name);
+
+    return new Promise<T[]>((resolve, reject) => {
+      const request = db.transaction([storeName], 'readonly').objectStore(storeName).index(indexName).getAll(query);
+      request.onsuccess = () => resolve(request.result as T[]);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Get the first record matching each index key, in one transaction
+   */
+  async getCSVRecordsByIndexKeys<T>(name: string, indexName: string, keys: IDBValidKey[]): Promise<(T | undefined)[]> {
+    this.throwIfDisabled();
+    if (keys.length === 0) return [];
+
+    const db = await this.ensureDB();
+    const storeName = this.getCSVStoreName(name);
+
+    return new Promise<(T | undefined)[]>((resolve, reject) => {
+      const transaction = db.transaction([storeName], 'readonly');
+      const index = transaction.objectStore(storeName).index(indexName);
+      const results: (T | undefined)[] = new Array(keys.length);
+
+      keys.forEach((key, i) => {
+        const request = index.get(key);
+        request.onsuccess = () => {
+          results[i] = request.result as T | undefined;
+        };
+      });
+
+      transaction.oncomplete = () => resolve(results);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  /**
+   * Get every record matching any of the index keys, in one transaction
+   */
+  async getAllCSVRecordsByIndexKeys<T>(name: string, indexName: string, keys: IDBValidKey[]): Promise<T[]> {
+    this.throwIfDisabled();
+    if (keys.length === 0) return [];
+
+    const db = await this.ensureDB();
+    const storeName = this.getCSVStoreName(name);
+
+    return new Promise<T[]>((resolve, reject) => {
+      const transaction = db.transaction([storeName], 'readonly');
+      const index = transaction.objectStore(storeName).index(indexName);
+      const results: T[] = [];
+
+      keys.forEach(key => {
+        const request = index.getAll(key);
+        request.onsuccess = () => {
+          results.push(...(request.result as T[]));
+        };
+      });
+
+      transaction.oncomplete = () => resolve(results);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  /**
+   * Get records by primary key, in one transaction
+   */
+  async getCSVRecordsByKeys<T>(name: string, keys: IDBValidKey[]): Promise<(T | undefined)[]> {
+    this.throwIfDisabled();
+    if (keys.length === 0) return [];
+
+    const db = await this.ensureDB();
+    const storeName = this.getCSVStoreName(name);
+
+    return new Promise<(T | undefined)[]>((resolve, reject) => {
+      const transaction = db.transaction([storeName], 'readonly');
+      const store = transaction.objectStore(storeName);
+      const results: (T | undefined)[] = new Array(keys.length);
+
+      keys.forEach((key, i) => {
+        const request = store.get(key);
+        request.onsuccess = () => {
+          results[i] = request.result as T | undefined;
+        };
+      });
+
+      transaction.oncomplete = () => resolve(results);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  /**
+   * Count the records whose index matches the query
+   */
+  async countCSVRecordsByIndex(name: string, indexName: string, query: IDBValidKey | IDBKeyRange): Promise<number> {
+    this.throwIfDisabled();
+
+    const db = await this.ensureDB();
+    const storeName = this.getCSVStoreName(name);
+
+    return new Promise<number>((resolve, reject) => {
+      const request = db.transaction([storeName], 'readonly').objectStore(storeName).index(indexName).count(query);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Number of records currently stored in each CSV object store
+   */
+  async getCSVStoreCounts(): Promise<{ [key: string]: number }> {
+    this.throwIfDisabled();
+
+    const db = await this.ensureDB();
+    const names = Object.keys(this.CSV_STORES).filter(name => name !== 'metadata');
+
+    return new Promise<{ [key: string]: number }>((resolve, reject) => {
+      const storeNames = names.map(name => this.getCSVStoreName(name));
+      const transaction = db.transaction(storeNames, 'readonly');
+      const counts: { [key: string]: number } = {};
+
+      names.forEach((name, i) => {
+        const request = transaction.objectStore(storeNames[i]).count();
+        request.onsuccess = () => {
+          counts[name] = request.result;
+        };
+      });
+
+      transaction.oncomplete = () => resolve(counts);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  /**
+   * Metadata saved when the CSV cache was last imported
+   */
+  async getCSVCacheMetadata(): Promise<CSVCacheMetadata | null> {
+    this.throwIfDisabled();
+    return this.loadCSVMetadata();
+  }
+
+  /**
+   * Record counts saved when the CSV cache was last imported
+   */
+  async getCSVRecordCounts(): Promise<{ [key: string]: number } | null> {
+    const metadata = await this.loadCSVMetadata();
+    return metadata?.recordCounts || null;
+  }
+
   /**
    * Get inventory parts by inventory ID (efficient indexed lookup)
    */
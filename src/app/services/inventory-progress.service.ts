@@ -0,0 +1,140 @@
+import { Injectable } from '@angular/core';
+import { firstValueFrom } from 'rxjs';
+import { PartCondition, SubstituteRelationshipType, UserInventory } from '../models/models';
+import { DataService } from './data.service';
+import { InventorySnapshotService } from './inventory-snapshot.service';
+import { DEFAULT_ACCEPTABLE_PART_CONDITIONS, getMissingQuantity } from '../utils/part-conditions';
+import { getSubstituteRelationshipTypes } from '../utils/part-substitutes';
+
+/**
+ * Owned and needed item counts of a tracked inventory
+ */
+export interface InventoryProgress {
+  totalOwned: number;
+  totalNeeded: number;
+  progress: number; // Percentage
+}
+
+export const EMPTY_PROGRESS: InventoryProgress = { totalOwned: 0, totalNeeded: 0, progress: 0 };
+
+/**
+ * Progress of tracked inventories against the catalog definition they are pinned to
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class InventoryProgressService {
+  constructor(
+    private dataService: DataService,
+    private snapshotService: InventorySnapshotService
+  ) {}
+
+  /**
+   * Parts and minifigures owned in one inventory, not counting its child sets.
+   * Parts in conditions that are not acceptable are not counted as owned;
+   * owned pieces of substitutes of accepted relationship types are.
+   * `substituteTypes` is the global setting, which the inventory may override.
+   */
+  async getProgress(
+    inventory: UserInventory,
+    includeSpareParts: boolean,
+    acceptableConditions: PartCondition[] = DEFAULT_ACCEPTABLE_PART_CONDITIONS,
+    substituteTypes?: SubstituteRelationshipType[]
+  ): Promise<InventoryProgress> {
+    try {
+      // Wait for data to be loaded
+      const dataLoaded = await firstValueFrom(this.dataService.isDataLoaded());
+      if (!dataLoaded) {
+        return EMPTY_PROGRESS;
+      }
+
+      // Convert version to number to ensure type consistency (fix for string vs number issue)
+      const versionAsNumber = Number(inventory.version);
+
+      // Get both parts and minifigures for the user's specified version
+      const [inventoryParts, inventoryMinifigs] = await Promise.all([
+        this.snapshotService.getPinnedParts(inventory),
+        firstValueFrom(this.dataService.getSetInventoryMinifigsBySetNum(inventory.set_num, versionAsNumber))
+      ]);
+
+      let totalNeeded = 0;
+      let totalOwned = 0;
+      const acceptedSubstitutes = getSubstituteRelationshipTypes(inventory, { substituteRelationshipTypes: substituteTypes });
+
+      // Process regular parts and spare parts based on global setting
+      if (inventoryParts) {
+        for (const invPart of inventoryParts) {
+          // Skip spare parts if the setting is disabled
+          if (!includeSpareParts && invPart.is_spare) {
+            continue;
+          }
+
+          // Use the same key generation logic as the inventory detail component
+          const key = this.getPartStorageKey(invPart.part_num, invPart.color_id, invPart.is_spare);
+          const missing = getMissingQuantity(inventory, key, invPart.quantity, acceptableConditions, acceptedSubstitutes);
+          totalNeeded += invPart.quantity;
+          totalOwned += invPart.quantity - missing; // Excess is not counted
+        }
+      }
+
+      // Process minifigures
+      if (inventoryMinifigs) {
+        for (const invMinifig of inventoryMinifigs) {
+          const quantityOwned = inventory.minifigsOwned[invMinifig.fig_num] || 0;
+          totalNeeded += invMinifig.quantity;
+          totalOwned += Math.min(quantityOwned, invMinifig.quantity); // Don't count excess
+        }
+      }
+
+      return this.toProgress(totalOwned, totalNeeded);
+    } catch (error) {
+      console.error('Error calculating inventory progress:', error);
+      return EMPTY_PROGRESS;
+    }
+  }
+
+  /**
+   * Progress of an inventory together with the child sets tracked as part of it
+   */
+  async getRolledUpProgress(
+    inventory: UserInventory,
+    allInventories: UserInventory[],
+    includeSpareParts: boolean,
+    acceptableConditions: PartCondition[] = DEFAULT_ACCEPTABLE_PART_CONDITIONS,
+    substituteTypes?: SubstituteRelationshipType[],
+    visited = new globalThis.Set<string>()
+  ): Promise<InventoryProgress> {
+    visited.add(inventory.id);
+    const children = allInventories.filter(inv => inv.parentInventoryId === inventory.id && !visited.has(inv.id));
+
+    const results = await Promise.all([
+      this.getProgress(inventory, includeSpareParts, acceptableConditions, substituteTypes),
+      ...children.map(child =>
+        this.getRolledUpProgress(child, allInventories, includeSpareParts, acceptableConditions, substituteTypes, visited))
+    ]);
+    return this.sum(results);
+  }
+
+  /**
+   * Combine the counts of several inventories
+   */
+  sum(results: InventoryProgress[]): InventoryProgress {
+    const totalOwned = results.reduce((total, result) => total + result.totalOwned, 0);
+    const totalNeeded = results.reduce((total, result) => total + result.totalNeeded, 0);
+    return this.toProgress(totalOwned, totalNeeded);
+  }
+
+  private toProgress(totalOwned: number, totalNeeded: number): InventoryProgress {
+    const progress = totalNeeded > 0 ? (totalOwned / totalNeeded) * 100 : 0;
+    return { totalOwned, totalNeeded, progress };
+  }
+
+  /**
+   * Generate storage key for parts, with different keys for spare parts vs regular parts
+   * This matches the logic used in the inventory detail component
+   */
+  private getPartStorageKey(partNum: string, colorId: number, isSpare: boolean): string {
+    const baseKey = `${partNum}_${colorId}`;
+    return isSpare ? `spare_${baseKey}` : baseKey;
+  }
+}
@@ -0,0 +1,297 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable, firstValueFrom } from 'rxjs';
+import { concatMap, debounceTime, filter, map, switchMap, take, tap } from 'rxjs/operators';
+import { InventoryCatalogSnapshot, InventoryLine, InventoryPart, UserInventory } from '../models/models';
+import { DataService } from './data.service';
+import { IndexedDBService } from './indexeddb.service';
+import { StorageService } from './storage.service';
+import { LRUCache } from '../utils/lru-cache';
+import { InventoryPartsDiff, diffInventoryParts, fingerprintInventoryParts, toInventoryLines, toPinnedParts } from '../utils/inventory-diff';
+
+/**
+ * How the current catalog definition of a tracked inventory differs from the
+ * snapshot it was pinned to
+ */
+export interface InventoryDefinitionChange {
+  inventoryId: string;
+  snapshot: InventoryCatalogSnapshot;
+  previousParts: InventoryLine[] | null; // Null when the pinned part list is not stored on this device
+  currentParts: InventoryLine[];
+  diff: InventoryPartsDiff;
+}
+
+/**
+ * Pins every tracked inventory to the catalog part list it was started from
+ * and flags inventories whose definition changed in a later catalog release
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class InventorySnapshotService {
+  private readonly SYNC_DEBOUNCE_MS = 500; // Imports and edits emit states in bursts
+
+  private changes = new BehaviorSubject<Map<string, InventoryDefinitionChange>>(new Map());
+  // Check results per inventory id; the catalog does not change while the app runs
+  private checked = new Map<string, { checkKey: string; change: InventoryDefinitionChange | null }>();
+  private snapshotParts = new LRUCache<string, InventoryLine[]>(50); // Pinned part lists by snapshot key
+  private lastSyncKey = '';
+  private syncRun = 0; // Incremented to cancel a sync that is still running
+
+  constructor(
+    private dataService: DataService,
+    private indexedDBService: IndexedDBService,
+    private storageService: StorageService
+  ) {
+    this.dataService.isDataLoaded().pipe(
+      filter(loaded => loaded),
+      take(1),
+      switchMap(() => this.storageService.getState()),
+      debounceTime(this.SYNC_DEBOUNCE_MS),
+      map(state => state.userInventories),
+      filter(inventories => this.getSyncKey(inventories) !== this.lastSyncKey),
+      tap(inventories => this.lastSyncKey = this.getSyncKey(inventories)),
+      map(inventories => ({ inventories, run: ++this.syncRun })),
+      concatMap(({ inventories, run }) => this.syncSnapshots(inventories, run)) // One sync at a time
+    ).subscribe();
+  }
+
+  /**
+   * Definition changes keyed by user inventory id
+   */
+  getChanges(): Observable<Map<string, InventoryDefinitionChange>> {
+    return this.changes.asObservable();
+  }
+
+  /**
+   * Definition change of one inventory, or undefined if it still matches its snapshot
+   */
+  getChange(inventoryId: string): Observable<InventoryDefinitionChange | undefined> {
+    return this.changes.pipe(map(changes => changes.get(inventoryId)));
+  }
+
+  /**
+   * Catalog rows of the part list an inventory is pinned to: the current rows
+   * while they match the snapshot, otherwise the snapshot quantities until the
+   * new definition is adopted
+   */
+  async getPinnedParts(inventory: UserInventory): Promise<InventoryPart[]> {
+    const currentParts = await firstValueFrom(
+      this.dataService.getSetInventoryPartsBySetNum(inventory.set_num, Number(inventory.version))
+    );
+    const snapshot = inventory.catalogSnapshot;
+    if (!snapshot || !this.isPinned(inventory) || fingerprintInventoryParts(currentParts) === snapshot.fingerprint) {
+      return currentParts;
+    }
+
+    const pinnedLines = await this.loadSnapshotParts(snapshot);
+    return pinnedLines ? toPinnedParts(pinnedLines, currentParts) : currentParts;
+  }
+
+  /**
+   * Pin an inventory to the current catalog definition, accepting any upstream changes
+   */
+  async adoptCurrentDefinition(inventoryId: string): Promise<void> {
+    const state = await firstValueFrom(this.storageService.getState());
+    const inventory = state.userInventories.find(inv => inv.id === inventoryId);
+    if (!inventory) return;
+
+    const parts = await this.getCurrentParts(inventory);
+    const snapshot = this.createSnapshot(inventory, parts);
+    await this.saveSnapshotParts([{ key: this.getSnapshotKey(snapshot), parts }]);
+    this.storageService.setInventoryCatalogSnapshots(new Map([[inventoryId, snapshot]]));
+
+    this.checked.set(inventoryId, { checkKey: this.getSnapshotKey(snapshot), change: null });
+    const changes = new Map(this.changes.getValue());
+    changes.delete(inventoryId);
+    this.changes.next(changes);
+  }
+
+  /**
+   * Snapshot new inventories and check the others against the current
+   * catalog. Checks are remembered per inventory, so only new or re-pinned
+   * inventories query the catalog again. All pins are saved together, also
+   * when a newer state cancels the sync part way.
+   */
+  private async syncSnapshots(inventories: UserInventory[], run: number): Promise<void> {
+    // Without a catalog (e.g. it failed to load) there is nothing to pin or compare against
+    if (this.dataService.getCurrentInventories().length === 0) return;
+
+    const release = this.dataService.getCatalogRelease() || undefined;
+    const pins = new Map<string, InventoryCatalogSnapshot>();
+    const partLists: { key: string; parts: InventoryLine[] }[] = [];
+    const changes = new Map<string, InventoryDefinitionChange>();
+
+    for (const inventory of inventories) {
+      // A newer state started its own sync; keep the pins taken so far
+      if (run !== this.syncRun) break;
+
+      try {
+        if (!this.isPinned(inventory)) {
+          if (!this.isInCatalog(inventory)) continue;
+
+          const parts = await this.getCurrentParts(inventory);
+          const snapshot = this.createSnapshot(inventory, parts);
+          pins.set(inventory.id, snapshot);
+          partLists.push({ key: this.getSnapshotKey(snapshot), parts });
+          this.checked.set(inventory.id, { checkKey: this.getSnapshotKey(snapshot), change: null });
+          continue;
+        }
+
+        let snapshot = inventory.catalogSnapshot!;
+        if (snapshot.parts) {
+          // Move part lists saved inside the app state to IndexedDB
+          const { parts, ...rest } = snapshot;
+          snapshot = rest;
+          pins.set(inventory.id, snapshot);
+          partLists.push({ key: this.getSnapshotKey(snapshot), parts });
+          this.snapshotParts.set(this.getSnapshotKey(snapshot), parts);
+        }
+
+        const change = await this.checkInventory(inventory, snapshot, release, pins);
+        if (change) changes.set(inventory.id, change);
+      } catch (error) {
+        console.warn(`Failed to check catalog definition of ${inventory.set_num}:`, error);
+      }
+    }
+
+    await this.saveSnapshotParts(partLists);
+    await this.dropStalePins(pins, inventories);
+    this.storageService.setInventoryCatalogSnapshots(pins);
+    if (run === this.syncRun) {
+      this.changes.next(changes);
+    }
+  }
+
+  /**
+   * Compare a pinned inventory with the current catalog. A snapshot already
+   * confirmed against the current release needs no query; one found unchanged
+   * in a newer release is stamped with it in `pins`.
+   */
+  private async checkInventory(
+    inventory: UserInventory,
+    snapshot: InventoryCatalogSnapshot,
+    release: string | undefined,
+    pins: Map<string, InventoryCatalogSnapshot>
+  ): Promise<InventoryDefinitionChange | null> {
+    const checkKey = this.getSnapshotKey(snapshot);
+    const cached = this.checked.get(inventory.id);
+    if (cached?.checkKey === checkKey) return cached.change;
+    if (release && snapshot.release === release) return null;
+
+    const currentParts = await this.getCurrentParts(inventory);
+    let change: InventoryDefinitionChange | null = null;
+
+    if (fingerprintInventoryParts(currentParts) === snapshot.fingerprint) {
+      if (release) pins.set(inventory.id, { ...snapshot, release });
+    } else {
+      const previousParts = await this.loadSnapshotParts(snapshot);
+      change = {
+        inventoryId: inventory.id,
+        snapshot,
+        previousParts,
+        currentParts,
+        diff: previousParts
+          ? diffInventoryParts(previousParts, currentParts)
+          : { added: [], removed: [], changed: [] }
+      };
+    }
+
+    this.checked.set(inventory.id, { checkKey, change });
+    return change;
+  }
+
+  /**
+   * Leave out pins of inventories that were re-pinned or moved to another
+   * version while the sync ran
+   */
+  private async dropStalePins(pins: Map<string, InventoryCatalogSnapshot>, syncedInventories: UserInventory[]): Promise<void> {
+    const synced = new Map(syncedInventories.map(inv => [inv.id, this.getPinKey(inv)]));
+    const state = await firstValueFrom(this.storageService.getState());
+    state.userInventories.forEach(inv => {
+      if (pins.has(inv.id) && synced.get(inv.id) !== this.getPinKey(inv)) {
+        pins.delete(inv.id);
+      }
+    });
+  }
+
+  /**
+   * Key of the fields a sync depends on; owned quantities and other edits do not start one
+   */
+  private getSyncKey(inventories: UserInventory[]): string {
+    return inventories.map(inv => `${inv.id}:${this.getPinKey(inv)}`).join('|');
+  }
+
+  private getPinKey(inventory: UserInventory): string {
+    return `${inventory.set_num}:${inventory.version}:${inventory.catalogSnapshot?.fingerprint || ''}`;
+  }
+
+  /**
+   * Key a pinned part list is stored under; the same list is shared by copies of a set
+   */
+  private getSnapshotKey(snapshot: InventoryCatalogSnapshot): string {
+    return `${snapshot.set_num}_${snapshot.version}_${snapshot.fingerprint}`;
+  }
+
+  /**
+   * Whether an inventory has a snapshot of the set version it tracks
+   */
+  private isPinned(inventory: UserInventory): boolean {
+    const snapshot = inventory.catalogSnapshot;
+    return !!snapshot && snapshot.set_num === inventory.set_num && snapshot.version === Number(inventory.version);
+  }
+
+  private isInCatalog(inventory: UserInventory): boolean {
+    return this.dataService.getInventoriesForSet(inventory.set_num)
+      .some(inv => inv.version === Number(inventory.version));
+  }
+
+  private createSnapshot(inventory: UserInventory, parts: InventoryLine[]): InventoryCatalogSnapshot {
+    return {
+      set_num: inventory.set_num,
+      version: Number(inventory.version),
+      release: this.dataService.getCatalogRelease() || undefined,
+      fingerprint: fingerprintInventoryParts(parts),
+      takenAt: Date.now()
+    };
+  }
+
+  /**
+   * Store pinned part lists. Without IndexedDB they are only kept for this
+   * session and later checks report changes without line details.
+   */
+  private async saveSnapshotParts(entries: { key: string; parts: InventoryLine[] }[]): Promise<void> {
+    entries.forEach(({ key, parts }) => this.snapshotParts.set(key, parts));
+    if (entries.length === 0 || !IndexedDBService.isSupported() || this.indexedDBService.isDisabledForSession()) return;
+
+    try {
+      await this.indexedDBService.saveCatalogSnapshotParts(entries);
+    } catch (error) {
+      console.warn('Failed to store catalog snapshots:', error);
+    }
+  }
+
+  private async loadSnapshotParts(snapshot: InventoryCatalogSnapshot): Promise<InventoryLine[] | null> {
+    if (snapshot.parts) return snapshot.parts;
+
+    const key = this.getSnapshotKey(snapshot);
+    const cached = this.snapshotParts.get(key);
+    if (cached) return cached;
+    if (!IndexedDBService.isSupported() || this.indexedDBService.isDisabledForSession()) return null;
+
+    try {
+      const parts = await this.indexedDBService.loadCatalogSnapshotParts(key);
+      if (parts) this.snapshotParts.set(key, parts);
+      return parts;
+    } catch (error) {
+      console.warn(`Failed to load the catalog snapshot of ${snapshot.set_num}:`, error);
+      return null;
+    }
+  }
+
+  private async getCurrentParts(inventory: UserInventory): Promise<InventoryLine[]> {
+    const parts = await firstValueFrom(
+      this.dataService.getSetInventoryPartsBySetNum(inventory.set_num, Number(inventory.version))
+    );
+    return toInventoryLines(parts);
+  }
+}
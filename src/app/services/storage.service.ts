@@ -1,7 +1,16 @@
 import { Injectable } from '@angular/core';
-import { AppState, UserInventory, GlobalSettings } from '../models/models';
+import {
+  AppState, UserInventory, GlobalSettings, CatalogUpdateReport, InventoryCatalogSnapshot, StorageLocation, InventoryStatus,
+  InventoryStatusChange, BrickLinkMapping, HistoryAction
+} from '../models/models';
 import { BehaviorSubject, Observable } from 'rxjs';
+import { v4 as uuidv4 } from 'uuid';
 import { IndexedDBService } from './indexeddb.service';
+import { CarriedOverOwnership } from '../utils/inventory-diff';
+import { PartListLine } from '../utils/part-list-csv';
+import {
+  HistoryMove, appendHistoryAction, getActionHistory, migrateUndoHistory, moveHistoryPosition, removeInventoryActions
+} from '../utils/action-history';
 
 @Injectable({
   providedIn: 'root'
@@ -20,10 +29,18 @@ export class StorageService {
 
   private isIndexedDBSupported = false;
   private migrationCompleted = false;
+  private stateLoaded: Promise<void>;
 
   constructor(private indexedDBService: IndexedDBService) {
     this.checkIndexedDBSupport();
-    this.loadState();
+    this.stateLoaded = this.loadState();
+  }
+
+  /**
+   * Resolves once the saved app state has been loaded
+   */
+  whenStateLoaded(): Promise<void> {
+    return this.stateLoaded;
   }
 
   private checkIndexedDBSupport(): void {
@@ -56,7 +73,7 @@ export class StorageService {
         const state = await this.loadFromIndexedDB();
 
         if (state) {
-          this.appStateSubject.next(state);
+          this.appStateSubject.next(migrateUndoHistory(state));
           this.saveState();
           return;
         }
@@ -71,7 +88,7 @@ export class StorageService {
     try {
       const localStorageState = await this.loadFromLocalStorage();
       if (localStorageState) {
-        this.appStateSubject.next(localStorageState.data);
+        this.appStateSubject.next(migrateUndoHistory(localStorageState.data));
         this.saveState();
         return;
       }
@@ -180,6 +197,7 @@ export class StorageService {
 
     // Ensure global settings exist with defaults
     const globalSettings: GlobalSettings = {
+      ...state.globalSettings,
       imagePreviewSize: state.globalSettings?.imagePreviewSize || '1x',
       includeSparePartsInProgress: state.globalSettings?.includeSparePartsInProgress || true
     };
@@ -248,6 +266,25 @@ export class StorageService {
     this.saveState();
   }
 
+  /**
+   * Add several user inventories at once, applying changes to existing ones
+   * (such as copy labels) in the same save
+   */
+  addUserInventories(inventories: UserInventory[], updatedInventories: UserInventory[] = []): void {
+    if (inventories.length === 0) return;
+
+    const currentState = this.appStateSubject.getValue();
+    const updatedById = new Map(updatedInventories.map(inv => [inv.id, inv]));
+    const updatedState = {
+      ...currentState,
+      userInventories: [...currentState.userInventories.map(inv => updatedById.get(inv.id) || inv), ...inventories],
+      activeInventoryId: currentState.activeInventoryId || inventories[0].id
+    };
+
+    this.appStateSubject.next(updatedState);
+    this.saveState();
+  }
+
   /**
    * Update an existing user inventory
    */
@@ -267,11 +304,131 @@ export class StorageService {
   }
 
   /**
-   * Delete a user inventory
+   * Record an owned quantity change that was already saved, so it can be undone
+   */
+  recordAction(action: HistoryAction): void {
+    const currentState = this.appStateSubject.getValue();
+    const actionHistory = appendHistoryAction(getActionHistory(currentState), action);
+    this.appStateSubject.next({ ...currentState, actionHistory });
+    this.saveState();
+  }
+
+  /**
+   * Undo or redo recorded actions until `position` of them are applied.
+   * Returns the actions stepped over, in the order they were applied.
+   */
+  moveActionHistory(position: number): HistoryMove['steps'] {
+    const currentState = this.appStateSubject.getValue();
+    const move = moveHistoryPosition(getActionHistory(currentState), currentState.userInventories, position);
+    if (move.steps.length === 0) return [];
+
+    this.appStateSubject.next({ ...currentState, userInventories: move.inventories, actionHistory: move.history });
+    this.saveState();
+    return move.steps;
+  }
+
+  /**
+   * Change the lifecycle status of a tracked inventory and record the change in its history
+   */
+  setInventoryStatus(inventoryId: string, status: InventoryStatus, note?: string): void {
+    const currentState = this.appStateSubject.getValue();
+    const inventory = currentState.userInventories.find(inv => inv.id === inventoryId);
+    if (!inventory || inventory.status === status) return;
+
+    const change: InventoryStatusChange = { status, changedAt: Date.now() };
+    if (note?.trim()) {
+      change.note = note.trim();
+    }
+
+    this.updateUserInventory({
+      ...inventory,
+      status,
+      statusHistory: [...(inventory.statusHistory || []), change],
+      lastUpdated: change.changedAt
+    });
+  }
+
+  /**
+   * Pin user inventories to catalog snapshots, keyed by inventory id, in one
+   * save and without touching their other fields
+   */
+  setInventoryCatalogSnapshots(snapshots: Map<string, InventoryCatalogSnapshot>): void {
+    if (snapshots.size === 0) return;
+
+    const currentState = this.appStateSubject.getValue();
+    const updatedInventories = currentState.userInventories.map(inv =>
+      snapshots.has(inv.id) ? { ...inv, catalogSnapshot: snapshots.get(inv.id) } : inv
+    );
+
+    const updatedState = {
+      ...currentState,
+      userInventories: updatedInventories
+    };
+
+    this.appStateSubject.next(updatedState);
+    this.saveState();
+  }
+
+  /**
+   * Track an inventory as a child set of another one, or on its own with null
+   */
+  setInventoryParent(inventoryId: string, parentInventoryId: string | null): void {
+    const currentState = this.appStateSubject.getValue();
+    const updatedInventories = currentState.userInventories.map(inv =>
+      inv.id === inventoryId
+        ? { ...inv, parentInventoryId: parentInventoryId || undefined, lastUpdated: Date.now() }
+        : inv
+    );
+
+    const updatedState = {
+      ...currentState,
+      userInventories: updatedInventories
+    };
+
+    this.appStateSubject.next(updatedState);
+    this.saveState();
+  }
+
+  /**
+   * Switch a tracked inventory to another version of its set with the
+   * ownership carried over to that version
+   */
+  moveInventoryToVersion(inventoryId: string, version: number, ownership: CarriedOverOwnership): void {
+    const currentState = this.appStateSubject.getValue();
+    const updatedInventories = currentState.userInventories.map(inv =>
+      inv.id === inventoryId
+        ? {
+            ...inv,
+            version,
+            partsOwned: ownership.partsOwned,
+            minifigsOwned: ownership.minifigsOwned,
+            minifigPartsOwned: ownership.minifigPartsOwned,
+            partSubstitutes: ownership.partSubstitutes,
+            catalogSnapshot: undefined, // Re-pinned to the new version
+            lastUpdated: Date.now()
+          }
+        : inv
+    );
+
+    // Recorded actions refer to lines of the previous version
+    const updatedState = {
+      ...currentState,
+      userInventories: updatedInventories,
+      actionHistory: currentState.actionHistory && removeInventoryActions(currentState.actionHistory, inventoryId)
+    };
+
+    this.appStateSubject.next(updatedState);
+    this.saveState();
+  }
+
+  /**
+   * Delete a user inventory; its child sets stay tracked on their own
    */
   deleteUserInventory(inventoryId: string): void {
     const currentState = this.appStateSubject.getValue();
-    const updatedInventories = currentState.userInventories.filter(inv => inv.id !== inventoryId);
+    const updatedInventories = currentState.userInventories
+      .filter(inv => inv.id !== inventoryId)
+      .map(inv => inv.parentInventoryId === inventoryId ? { ...inv, parentInventoryId: undefined } : inv);
 
     let activeId = currentState.activeInventoryId;
     if (activeId === inventoryId) {
@@ -281,7 +438,8 @@ export class StorageService {
     const updatedState = {
       ...currentState,
       userInventories: updatedInventories,
-      activeInventoryId: activeId
+      activeInventoryId: activeId,
+      actionHistory: currentState.actionHistory && removeInventoryActions(currentState.actionHistory, inventoryId)
     };
 
     this.appStateSubject.next(updatedState);
@@ -315,7 +473,7 @@ export class StorageService {
   async importState(stateJson: string): Promise<boolean> {
     try {
       const newState = JSON.parse(stateJson) as AppState;
-      this.appStateSubject.next(newState);
+      this.appStateSubject.next(migrateUndoHistory(newState));
       await this.saveState();
       return true;
     } catch (error) {
@@ -324,6 +482,186 @@ export class StorageService {
     }
   }
 
+  /**
+   * Set how many of a part/color sit in the loose parts pool; 0 removes it
+   */
+  setLoosePartQuantity(partNum: string, colorId: number, quantity: number): void {
+    const currentState = this.appStateSubject.getValue();
+    const looseParts = { ...currentState.looseParts };
+    const key = `${partNum}_${colorId}`;
+
+    if (quantity > 0) {
+      looseParts[key] = quantity;
+    } else {
+      delete looseParts[key];
+    }
+
+    this.appStateSubject.next({ ...currentState, looseParts });
+    this.saveState();
+  }
+
+  /**
+   * Add imported lines to the loose parts pool, or replace the pool with them
+   */
+  importLooseParts(lines: PartListLine[], replace: boolean): void {
+    const currentState = this.appStateSubject.getValue();
+    const looseParts: Record<string, number> = replace ? {} : { ...currentState.looseParts };
+
+    lines.forEach(line => {
+      const key = `${line.part_num}_${line.color_id}`;
+      looseParts[key] = (looseParts[key] || 0) + line.quantity;
+      if (looseParts[key] <= 0) delete looseParts[key];
+    });
+
+    this.appStateSubject.next({ ...currentState, looseParts });
+    this.saveState();
+  }
+
+  /**
+   * Record how many of a part/color the user owns across all sets, or null
+   * to fall back to the quantities recorded in the sets
+   */
+  setPartStock(partNum: string, colorId: number, quantity: number | null): void {
+    const currentState = this.appStateSubject.getValue();
+    const partStock = { ...currentState.partStock };
+    const key = `${partNum}_${colorId}`;
+
+    if (quantity === null) {
+      delete partStock[key];
+    } else {
+      partStock[key] = Math.max(0, quantity);
+    }
+
+    this.appStateSubject.next({ ...currentState, partStock });
+    this.saveState();
+  }
+
+  /**
+   * Save the order in which tracked sets receive shared parts
+   */
+  setAllocationOrder(inventoryIds: string[]): void {
+    const currentState = this.appStateSubject.getValue();
+    this.appStateSubject.next({ ...currentState, allocationOrder: inventoryIds });
+    this.saveState();
+  }
+
+  /**
+   * Add a storage location, inside another one if a parent is given
+   */
+  addStorageLocation(name: string, parentId?: string): StorageLocation {
+    const currentState = this.appStateSubject.getValue();
+    const location: StorageLocation = { id: uuidv4(), name: name.trim() };
+    if (parentId) {
+      location.parentId = parentId;
+    }
+
+    const storageLocations = [...(currentState.storageLocations || []), location];
+    this.appStateSubject.next({ ...currentState, storageLocations });
+    this.saveState();
+    return location;
+  }
+
+  renameStorageLocation(locationId: string, name: string): void {
+    const currentState = this.appStateSubject.getValue();
+    const storageLocations = (currentState.storageLocations || []).map(location =>
+      location.id === locationId ? { ...location, name: name.trim() } : location
+    );
+
+    this.appStateSubject.next({ ...currentState, storageLocations });
+    this.saveState();
+  }
+
+  /**
+   * Delete a storage location. Locations and parts inside it move up to its
+   * parent, or become top-level and unassigned when it had none.
+   */
+  deleteStorageLocation(locationId: string): void {
+    const currentState = this.appStateSubject.getValue();
+    const deleted = currentState.storageLocations?.find(location => location.id === locationId);
+    if (!deleted) return;
+
+    const storageLocations = (currentState.storageLocations || [])
+      .filter(location => location.id !== locationId)
+      .map(location => {
+        if (location.parentId !== locationId) return location;
+        const { parentId, ...rest } = location;
+        return deleted.parentId ? { ...rest, parentId: deleted.parentId } : rest;
+      });
+
+    const partLocations: Record<string, string> = {};
+    Object.entries(currentState.partLocations || {}).forEach(([key, id]) => {
+      if (id !== locationId) {
+        partLocations[key] = id;
+      } else if (deleted.parentId) {
+        partLocations[key] = deleted.parentId;
+      }
+    });
+
+    this.appStateSubject.next({ ...currentState, storageLocations, partLocations });
+    this.saveState();
+  }
+
+  /**
+   * Record where a part/color is kept, or clear it with null
+   */
+  setPartLocation(partNum: string, colorId: number, locationId: string | null): void {
+    const currentState = this.appStateSubject.getValue();
+    const partLocations = { ...currentState.partLocations };
+    const key = `${partNum}_${colorId}`;
+
+    if (locationId) {
+      partLocations[key] = locationId;
+    } else {
+      delete partLocations[key];
+    }
+
+    this.appStateSubject.next({ ...currentState, partLocations });
+    this.saveState();
+  }
+
+  /**
+   * Add imported BrickLink mapping entries to the user's overrides, or
+   * replace the overrides with them
+   */
+  importBrickLinkMapping(mapping: BrickLinkMapping, replace: boolean): void {
+    const currentState = this.appStateSubject.getValue();
+    const current = replace ? undefined : currentState.brickLinkMapping;
+    const brickLinkMapping: BrickLinkMapping = {
+      parts: { ...current?.parts, ...mapping.parts },
+      colors: { ...current?.colors, ...mapping.colors },
+      minifigs: { ...current?.minifigs, ...mapping.minifigs }
+    };
+
+    this.appStateSubject.next({ ...currentState, brickLinkMapping });
+    this.saveState();
+  }
+
+  /**
+   * Map one Rebrickable id to a BrickLink one, or drop the override with null
+   */
+  setBrickLinkMappingEntry<T extends keyof BrickLinkMapping>(
+    type: T,
+    rebrickableId: string,
+    brickLinkId: BrickLinkMapping[T][string] | null
+  ): void {
+    const currentState = this.appStateSubject.getValue();
+    const brickLinkMapping: BrickLinkMapping = {
+      parts: { ...currentState.brickLinkMapping?.parts },
+      colors: { ...currentState.brickLinkMapping?.colors },
+      minifigs: { ...currentState.brickLinkMapping?.minifigs }
+    };
+    const entries = brickLinkMapping[type] as Record<string, BrickLinkMapping[T][string]>;
+
+    if (brickLinkId === null) {
+      delete entries[rebrickableId];
+    } else {
+      entries[rebrickableId] = brickLinkId;
+    }
+
+    this.appStateSubject.next({ ...currentState, brickLinkMapping });
+    this.saveState();
+  }
+
   /**
    * Update global settings
    */
@@ -341,6 +679,36 @@ export class StorageService {
     this.saveState();
   }
 
+  /**
+   * Store the report of what the latest catalog update changed
+   */
+  setCatalogUpdateReport(report: CatalogUpdateReport): void {
+    const currentState = this.appStateSubject.getValue();
+    const updatedState = {
+      ...currentState,
+      catalogUpdateReport: report
+    };
+
+    this.appStateSubject.next(updatedState);
+    this.saveState();
+  }
+
+  /**
+   * Hide the catalog update banner while keeping the report in Settings
+   */
+  dismissCatalogUpdateReport(): void {
+    const currentState = this.appStateSubject.getValue();
+    if (!currentState.catalogUpdateReport) return;
+
+    const updatedState = {
+      ...currentState,
+      catalogUpdateReport: { ...currentState.catalogUpdateReport, dismissed: true }
+    };
+
+    this.appStateSubject.next(updatedState);
+    this.saveState();
+  }
+
   /**
    * Clear all data from IndexedDB or localStorage fallback
    */
@@ -0,0 +1,113 @@
+import { ActionHistory, AppState, HistoryAction, QuantityChange, UndoAction, UserInventory } from '../models/models';
+import { setPartConditions } from './part-conditions';
+
+export const MAX_ACTION_HISTORY = 200;
+
+export function getActionHistory(state: Pick<AppState, 'actionHistory'>): ActionHistory {
+  return state.actionHistory || { actions: [], position: 0 };
+}
+
+/**
+ * Add an action after the applied ones. Undone actions after them can no
+ * longer be redone and are dropped, as are the oldest beyond the limit.
+ */
+export function appendHistoryAction(history: ActionHistory, action: HistoryAction): ActionHistory {
+  const actions = [...history.actions.slice(0, history.position), action].slice(-MAX_ACTION_HISTORY);
+  return { actions, position: actions.length };
+}
+
+/**
+ * Every line an action changed
+ */
+export function getActionChanges(action: UndoAction): QuantityChange[] {
+  return [action, ...(action.additionalChanges || [])];
+}
+
+/**
+ * An inventory with the lines an action changed set to their quantities and
+ * recorded conditions before (`undone`) or after it
+ */
+export function applyAction(inventory: UserInventory, action: HistoryAction, undone: boolean): UserInventory {
+  const field = action.type === 'part' ? 'partsOwned' : action.type === 'minifig' ? 'minifigsOwned' : 'minifigPartsOwned';
+  const updated: UserInventory = { ...inventory, [field]: { ...inventory[field] }, lastUpdated: Date.now() };
+  getActionChanges(action).forEach(change => {
+    updated[field][change.key] = undone ? change.previousQuantity : change.newQuantity;
+
+    const conditions = undone ? change.previousConditions : change.newConditions;
+    if (conditions) {
+      updated.partConditions = setPartConditions(updated.partConditions, change.key, conditions);
+    }
+  });
+  return updated;
+}
+
+/**
+ * The result of undoing or redoing actions until a position in the history
+ */
+export interface HistoryMove {
+  history: ActionHistory;
+  inventories: UserInventory[];
+  steps: { action: HistoryAction; undone: boolean }[]; // In the order they were applied
+}
+
+/**
+ * Undo or redo actions until `position` of them are applied. Actions of
+ * inventories that are no longer tracked are stepped over.
+ */
+export function moveHistoryPosition(history: ActionHistory, inventories: UserInventory[], position: number): HistoryMove {
+  const target = Math.max(0, Math.min(position, history.actions.length));
+  const inventoriesById = new Map(inventories.map(inv => [inv.id, inv]));
+  const steps: HistoryMove['steps'] = [];
+
+  const step = (action: HistoryAction, undone: boolean) => {
+    const inventory = inventoriesById.get(action.inventoryId);
+    if (inventory) {
+      inventoriesById.set(inventory.id, applyAction(inventory, action, undone));
+    }
+    steps.push({ action, undone });
+  };
+
+  for (let i = history.position - 1; i >= target; i--) step(history.actions[i], true);
+  for (let i = history.position; i < target; i++) step(history.actions[i], false);
+
+  return {
+    history: { ...history, position: target },
+    inventories: inventories.map(inv => inventoriesById.get(inv.id) || inv),
+    steps
+  };
+}
+
+/**
+ * Drop the actions of one inventory, e.g. once it is deleted or its lines change
+ */
+export function removeInventoryActions(history: ActionHistory, inventoryId: string): ActionHistory {
+  const removedApplied = history.actions.slice(0, history.position).filter(action => action.inventoryId === inventoryId).length;
+  return {
+    actions: history.actions.filter(action => action.inventoryId !== inventoryId),
+    position: history.position - removedApplied
+  };
+}
+
+/**
+ * Move the undo stacks that older states kept per inventory into the shared
+ * history, ahead of the actions recorded since
+ */
+export function migrateUndoHistory(state: AppState): AppState {
+  if (!state.userInventories.some(inventory => inventory.undoHistory)) return state;
+
+  const legacyActions: HistoryAction[] = state.userInventories
+    .flatMap(inventory => (inventory.undoHistory || []).map(action => ({ ...action, inventoryId: inventory.id })))
+    .sort((a, b) => a.timestamp - b.timestamp);
+  const history = getActionHistory(state);
+  const actions = [...legacyActions, ...history.actions];
+  const dropped = Math.max(0, actions.length - MAX_ACTION_HISTORY);
+
+  return {
+    ...state,
+    userInventories: state.userInventories.map(({ undoHistory, ...inventory }) => inventory),
+    actionHistory: {
+      actions: actions.slice(dropped),
+      position: Math.max(0, legacyActions.length + history.position - dropped)
+    }
+  };
+}
@@ -0,0 +1,204 @@
+import { AppState, BrickLinkMapping } from '../models/models';
+import { parseCSVLine } from '../workers/csv-parser';
+import { escapeCsvValue } from './part-list-csv';
+
+export type BrickLinkMappingType = keyof BrickLinkMapping;
+
+export const BRICKLINK_MAPPING_TYPES: BrickLinkMappingType[] = ['parts', 'colors', 'minifigs'];
+
+// Singular names used in the mapping CSV
+const MAPPING_TYPE_NAMES: Record<BrickLinkMappingType, string> = {
+  parts: 'part',
+  colors: 'color',
+  minifigs: 'minifig'
+};
+
+// Colors whose BrickLink id is well known; colors.csv carries no BrickLink ids
+export const DEFAULT_BRICKLINK_COLOR_IDS: Record<string, number> = {
+  '0': 11, // Black
+  '1': 7, // Blue
+  '2': 6, // Green
+  '4': 5, // Red
+  '14': 3, // Yellow
+  '15': 1, // White
+  '19': 2, // Tan
+  '25': 4, // Orange
+  '27': 34, // Lime
+  '28': 69, // Dark Tan
+  '36': 17, // Trans-Red
+  '47': 12, // Trans-Clear
+  '70': 88, // Reddish Brown
+  '71': 86, // Light Bluish Gray
+  '72': 85, // Dark Bluish Gray
+  '272': 63, // Dark Blue
+  '288': 80, // Dark Green
+  '320': 59, // Dark Red
+  '484': 68 // Dark Orange
+};
+
+/**
+ * The user's mapping overrides, empty when none were added
+ */
+export function getBrickLinkMapping(state: Pick<AppState, 'brickLinkMapping'>): BrickLinkMapping {
+  return state.brickLinkMapping || { parts: {}, colors: {}, minifigs: {} };
+}
+
+/**
+ * One wanted item in Rebrickable ids
+ */
+export interface WantedItem {
+  type: 'part' | 'minifig';
+  id: string; // part_num or fig_num
+  color_id?: number; // Parts only
+  quantity: number;
+}
+
+export interface WantedListOptions {
+  condition: 'any' | 'N' | 'U';
+  maxPrice: number | null; // Per item, in the BrickLink account currency
+  notify: boolean;
+}
+
+/**
+ * Wanted list XML, with the items that could not be mapped and were left out
+ */
+export interface WantedListExport {
+  xml: string;
+  itemCount: number;
+  skipped: string[]; // e.g. "fig-000123: no BrickLink minifig number"
+}
+
+/**
+ * Rebrickable ids resolved to BrickLink ones: user overrides first, then
+ * the built-in colors. Part numbers default to the Rebrickable number, which
+ * matches BrickLink for most parts; minifigs have no default. Ids are
+ * coerced as data saved by older versions can hold numeric part numbers.
+ */
+export function resolveBrickLinkIds(item: WantedItem, mapping: BrickLinkMapping): { itemId?: string; colorId?: number } {
+  const id = String(item.id);
+  if (item.type === 'minifig') {
+    return { itemId: mapping.minifigs[id] };
+  }
+  const colorKey = String(item.color_id);
+  return {
+    itemId: mapping.parts[id] || id,
+    colorId: mapping.colors[colorKey] ?? DEFAULT_BRICKLINK_COLOR_IDS[colorKey]
+  };
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Build a BrickLink wanted list upload. Items that map to the same BrickLink
+ * item and color are merged.
+ */
+export function buildWantedListXml(items: WantedItem[], mapping: BrickLinkMapping, options: WantedListOptions): WantedListExport {
+  const merged = new Map<string, { type: 'P' | 'M'; itemId: string; colorId?: number; quantity: number }>();
+  const skipped: string[] = [];
+
+  items.forEach(item => {
+    if (item.quantity <= 0) return;
+
+    const { itemId, colorId } = resolveBrickLinkIds(item, mapping);
+    if (!itemId) {
+      skipped.push(`${item.id}: no BrickLink minifig number`);
+      return;
+    }
+    if (item.type === 'part' && colorId === undefined) {
+      skipped.push(`${item.id} in color ${item.color_id}: no BrickLink color id`);
+      return;
+    }
+
+    const type = item.type === 'minifig' ? 'M' : 'P';
+    const key = `${type}_${itemId}_${colorId ?? ''}`;
+    const existing = merged.get(key);
+    if (existing) {
+      existing.quantity += item.quantity;
+    } else {
+      merged.set(key, { type, itemId, colorId, quantity: item.quantity });
+    }
+  });
+
+  const lines = ['<INVENTORY>'];
+  merged.forEach(entry => {
+    lines.push('  <ITEM>');
+    lines.push(`    <ITEMTYPE>${entry.type}</ITEMTYPE>`);
+    lines.push(`    <ITEMID>${escapeXml(entry.itemId)}</ITEMID>`);
+    if (entry.colorId !== undefined) lines.push(`    <COLOR>${entry.colorId}</COLOR>`);
+    lines.push(`    <MINQTY>${entry.quantity}</MINQTY>`);
+    if (options.condition !== 'any') lines.push(`    <CONDITION>${options.condition}</CONDITION>`);
+    if (options.maxPrice !== null && options.maxPrice > 0) lines.push(`    <MAXPRICE>${options.maxPrice.toFixed(2)}</MAXPRICE>`);
+    lines.push(`    <NOTIFY>${options.notify ? 'Y' : 'N'}</NOTIFY>`);
+    lines.push('  </ITEM>');
+  });
+  lines.push('</INVENTORY>');
+
+  return { xml: lines.join('\n') + '\n', itemCount: merged.size, skipped };
+}
+
+/**
+ * Mapping entries read from a CSV, with the rows that could not be used
+ */
+export interface BrickLinkMappingParseResult {
+  mapping: BrickLinkMapping;
+  count: number;
+  errors: string[];
+}
+
+/**
+ * Parse a mapping CSV with Type,Rebrickable ID,BrickLink ID columns, where
+ * type is part, color or minifig. A header row is optional.
+ */
+export function parseBrickLinkMappingCsv(csv: string): BrickLinkMappingParseResult {
+  const rows = csv.replace(/\r\n/g, '\n').replace(/\r/g, '\n').split('\n');
+  const result: BrickLinkMappingParseResult = { mapping: { parts: {}, colors: {}, minifigs: {} }, count: 0, errors: [] };
+
+  const firstRow = rows.findIndex(row => row.trim());
+
+  rows.forEach((row, index) => {
+    if (!row.trim()) return;
+
+    const [typeName, rebrickableId, brickLinkId] = parseCSVLine(row).map(value => value.trim());
+    const type = BRICKLINK_MAPPING_TYPES.find(t => MAPPING_TYPE_NAMES[t] === typeName.toLowerCase());
+
+    if (!type) {
+      // A first row without a known type is the header
+      if (index !== firstRow) {
+        result.errors.push(`Line ${index + 1}: type "${typeName}" is not part, color or minifig`);
+      }
+    } else if (!rebrickableId || !brickLinkId) {
+      result.errors.push(`Line ${index + 1}: missing Rebrickable or BrickLink id`);
+    } else if (type === 'colors') {
+      const colorId = Number(brickLinkId);
+      if (!Number.isInteger(colorId) || !Number.isInteger(Number(rebrickableId))) {
+        result.errors.push(`Line ${index + 1}: color ids must be numbers`);
+      } else {
+        result.mapping.colors[rebrickableId] = colorId;
+        result.count++;
+      }
+    } else {
+      result.mapping[type][rebrickableId] = brickLinkId;
+      result.count++;
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Write mapping entries in the layout read by parseBrickLinkMappingCsv
+ */
+export function formatBrickLinkMappingCsv(mapping: BrickLinkMapping): string {
+  const rows: string[] = [];
+  BRICKLINK_MAPPING_TYPES.forEach(type => {
+    Object.entries(mapping[type]).forEach(([rebrickableId, brickLinkId]) =>
+      rows.push([MAPPING_TYPE_NAMES[type], rebrickableId, brickLinkId].map(escapeCsvValue).join(',')));
+  });
+  return ['Type,Rebrickable ID,BrickLink ID', ...rows].join('\n') + '\n';
+}
@@ -0,0 +1,75 @@
+import { UserInventory } from '../models/models';
+import { escapeCsvValue } from './part-list-csv';
+
+/**
+ * A tracked inventory with the catalog details the finance totals group by
+ */
+export interface FinanceRow {
+  inventory: UserInventory;
+  setName: string;
+  theme: string; // Top-level theme name
+  setYear: number | null;
+}
+
+/**
+ * Spend of one group in one currency; amounts in different currencies are never added up
+ */
+export interface SpendTotal {
+  group: string;
+  currency: string;
+  total: number;
+  count: number; // Purchases with a price
+}
+
+/**
+ * Total the recorded purchase prices per group and currency, sorted by group
+ */
+export function sumSpend(rows: FinanceRow[], groupOf: (row: FinanceRow) => string): SpendTotal[] {
+  const totals = new Map<string, SpendTotal>();
+  rows.forEach(row => {
+    const purchase = row.inventory.purchase;
+    if (purchase?.price === undefined) return;
+
+    const group = groupOf(row);
+    const currency = purchase.currency || '';
+    const key = `${group}\u0000${currency}`;
+    const total = totals.get(key) || { group, currency, total: 0, count: 0 };
+    total.total += purchase.price;
+    total.count++;
+    totals.set(key, total);
+  });
+
+  return Array.from(totals.values())
+    .sort((a, b) => a.group.localeCompare(b.group, undefined, { numeric: true }) || a.currency.localeCompare(b.currency));
+}
+
+/**
+ * Year a set was bought in, if its purchase date is recorded
+ */
+export function getPurchaseYear(inventory: UserInventory): string {
+  return inventory.purchase?.date?.slice(0, 4) || '';
+}
+
+/**
+ * One line per tracked inventory with its purchase record
+ */
+export function formatFinanceCsv(rows: FinanceRow[]): string {
+  const header = 'Set Number,Name,Copy,Theme,Year,Purchase Date,Price,Currency,Vendor,Box,Instructions';
+  const lines = rows.map(row => {
+    const purchase = row.inventory.purchase || {};
+    return [
+      row.inventory.set_num,
+      row.setName,
+      row.inventory.copyLabel || '',
+      row.theme,
+      row.setYear ?? '',
+      purchase.date || '',
+      purchase.price ?? '',
+      purchase.currency || '',
+      purchase.vendor || '',
+      purchase.hasBox === undefined ? '' : purchase.hasBox ? 'Yes' : 'No',
+      purchase.hasInstructions === undefined ? '' : purchase.hasInstructions ? 'Yes' : 'No'
+    ].map(escapeCsvValue).join(',');
+  });
+  return [header, ...lines].join('\n') + '\n';
+}
@@ -0,0 +1,48 @@
+import { UserInventory } from '../models/models';
+
+/**
+ * The tracked copies of one set
+ */
+export interface InventoryCopyGroup {
+  set_num: string;
+  name: string;
+  copies: UserInventory[];
+}
+
+/**
+ * Group tracked inventories by set number, keeping the order sets were added in
+ */
+export function groupInventoryCopies(inventories: UserInventory[]): InventoryCopyGroup[] {
+  const groups = new Map<string, InventoryCopyGroup>();
+  inventories.forEach(inventory => {
+    const group = groups.get(inventory.set_num);
+    if (group) {
+      group.copies.push(inventory);
+    } else {
+      groups.set(inventory.set_num, { set_num: inventory.set_num, name: inventory.name, copies: [inventory] });
+    }
+  });
+  return Array.from(groups.values());
+}
+
+/**
+ * First free "Copy N" label for another copy of a set
+ */
+export function getNextCopyLabel(inventories: UserInventory[], setNum: string): string {
+  const labels = inventories
+    .filter(inv => inv.set_num === setNum)
+    .map(inv => inv.copyLabel);
+
+  let copy = labels.length + 1;
+  while (labels.includes(`Copy ${copy}`)) {
+    copy++;
+  }
+  return `Copy ${copy}`;
+}
+
+/**
+ * Set name with the copy label, e.g. "Modular Bookshop (Copy 2)"
+ */
+export function getInventoryDisplayName(inventory: UserInventory): string {
+  return inventory.copyLabel ? `${inventory.name} (${inventory.copyLabel})` : inventory.name;
+}
@@ -0,0 +1,275 @@
+import {
+  CatalogPartChange, CatalogPartRename, CatalogSetChange, InventoryLine, InventoryMinifig, InventoryPart, PartSubstitute, UserInventory
+} from '../models/models';
+
+/**
+ * The catalog definition of a tracked set at one point in time
+ */
+export interface SetCatalogSnapshot {
+  set_num: string;
+  version: number;
+  name: string;
+  versions: number[]; // All inventory versions of the set
+  parts: InventoryPart[]; // Parts of the tracked version
+  partNames: Record<string, string>; // part_num -> part name
+}
+
+/**
+ * Differences between two part lists, matched by part, color and spare flag
+ */
+export interface InventoryPartsDiff {
+  added: CatalogPartChange[];
+  removed: CatalogPartChange[];
+  changed: CatalogPartChange[];
+}
+
+/**
+ * A minifigure whose quantity differs between two inventories
+ */
+export interface MinifigChange {
+  fig_num: string;
+  previousQuantity: number; // 0 if the minifig was added
+  newQuantity: number; // 0 if the minifig was removed
+}
+
+export interface InventoryMinifigsDiff {
+  added: MinifigChange[];
+  removed: MinifigChange[];
+  changed: MinifigChange[];
+}
+
+/**
+ * Ownership of a tracked inventory carried over to another version of its set
+ */
+export interface CarriedOverOwnership {
+  partsOwned: Record<string, number>;
+  minifigsOwned: Record<string, number>;
+  minifigPartsOwned: Record<string, number>;
+  partSubstitutes: Record<string, PartSubstitute | string>; // Alternate parts recorded for lines that still exist
+  droppedEntries: number; // Owned entries with no matching line in the target version
+  reducedEntries: number; // Owned entries capped at the quantity of the target version
+}
+
+function getLineKey(part: InventoryLine): string {
+  return `${part.part_num}_${part.color_id}_${part.is_spare ? 'spare' : 'normal'}`;
+}
+
+/**
+ * Total quantity per line; Rebrickable occasionally lists the same line twice
+ */
+function sumQuantities(parts: InventoryLine[]): Map<string, { part: InventoryLine; quantity: number }> {
+  const lines = new Map<string, { part: InventoryLine; quantity: number }>();
+  parts.forEach(part => {
+    const key = getLineKey(part);
+    const line = lines.get(key);
+    if (line) {
+      line.quantity += part.quantity;
+    } else {
+      lines.set(key, { part, quantity: part.quantity });
+    }
+  });
+  return lines;
+}
+
+function toChange(part: InventoryLine, previousQuantity: number, newQuantity: number): CatalogPartChange {
+  return {
+    part_num: part.part_num,
+    color_id: part.color_id,
+    is_spare: !!part.is_spare,
+    previousQuantity,
+    newQuantity
+  };
+}
+
+/**
+ * Compare two part lists line by line
+ */
+export function diffInventoryParts(previousParts: InventoryLine[], newParts: InventoryLine[]): InventoryPartsDiff {
+  const previousLines = sumQuantities(previousParts);
+  const newLines = sumQuantities(newParts);
+  const diff: InventoryPartsDiff = { added: [], removed: [], changed: [] };
+
+  newLines.forEach(({ part, quantity }, key) => {
+    const previous = previousLines.get(key);
+    if (!previous) {
+      diff.added.push(toChange(part, 0, quantity));
+    } else if (previous.quantity !== quantity) {
+      diff.changed.push(toChange(part, previous.quantity, quantity));
+    }
+  });
+
+  previousLines.forEach(({ part, quantity }, key) => {
+    if (!newLines.has(key)) {
+      diff.removed.push(toChange(part, quantity, 0));
+    }
+  });
+
+  return diff;
+}
+
+/**
+ * Compare the minifigures of two inventories
+ */
+export function diffInventoryMinifigs(previousMinifigs: InventoryMinifig[], newMinifigs: InventoryMinifig[]): InventoryMinifigsDiff {
+  const sum = (minifigs: InventoryMinifig[]) => minifigs.reduce((totals, minifig) =>
+    totals.set(minifig.fig_num, (totals.get(minifig.fig_num) || 0) + minifig.quantity), new Map<string, number>());
+  const previousTotals = sum(previousMinifigs);
+  const newTotals = sum(newMinifigs);
+  const diff: InventoryMinifigsDiff = { added: [], removed: [], changed: [] };
+
+  newTotals.forEach((quantity, figNum) => {
+    const previousQuantity = previousTotals.get(figNum);
+    if (previousQuantity === undefined) {
+      diff.added.push({ fig_num: figNum, previousQuantity: 0, newQuantity: quantity });
+    } else if (previousQuantity !== quantity) {
+      diff.changed.push({ fig_num: figNum, previousQuantity, newQuantity: quantity });
+    }
+  });
+
+  previousTotals.forEach((quantity, figNum) => {
+    if (!newTotals.has(figNum)) {
+      diff.removed.push({ fig_num: figNum, previousQuantity: quantity, newQuantity: 0 });
+    }
+  });
+
+  return diff;
+}
+
+/**
+ * Keep the owned quantities of a tracked inventory that still match a line
+ * of another version, capped at what that version needs. Minifig parts are
+ * kept for minifigs the target version still contains.
+ */
+export function carryOverOwnership(
+  inventory: UserInventory,
+  targetParts: InventoryLine[],
+  targetMinifigs: InventoryMinifig[]
+): CarriedOverOwnership {
+  const result: CarriedOverOwnership = {
+    partsOwned: {},
+    minifigsOwned: {},
+    minifigPartsOwned: {},
+    partSubstitutes: {},
+    droppedEntries: 0,
+    reducedEntries: 0
+  };
+
+  const carry = (target: Record<string, number>, key: string, owned: number, needed: number | undefined) => {
+    if (!owned) return;
+    if (needed === undefined) {
+      result.droppedEntries++;
+      return;
+    }
+    if (owned > needed) result.reducedEntries++;
+    target[key] = Math.min(owned, needed);
+  };
+
+  const partQuantities = new Map<string, number>();
+  sumQuantities(targetParts).forEach(({ part, quantity }) => {
+    const baseKey = `${part.part_num}_${part.color_id}`;
+    partQuantities.set(part.is_spare ? `spare_${baseKey}` : baseKey, quantity);
+  });
+  Object.entries(inventory.partsOwned || {}).forEach(([key, owned]) =>
+    carry(result.partsOwned, key, owned, partQuantities.get(key)));
+  Object.entries(inventory.partSubstitutes || {}).forEach(([key, substitute]) => {
+    if (partQuantities.has(key)) result.partSubstitutes[key] = substitute;
+  });
+
+  const minifigQuantities = new Map<string, number>();
+  targetMinifigs.forEach(minifig =>
+    minifigQuantities.set(minifig.fig_num, (minifigQuantities.get(minifig.fig_num) || 0) + minifig.quantity));
+  Object.entries(inventory.minifigsOwned || {}).forEach(([figNum, owned]) =>
+    carry(result.minifigsOwned, figNum, Number(owned), minifigQuantities.get(figNum)));
+
+  // Keyed by `${set_num}_${fig_num}_${part_num}_${color_id}`; the part list of a minifig does not depend on the set version
+  Object.entries(inventory.minifigPartsOwned || {}).forEach(([key, owned]) => {
+    if (!owned) return;
+    const figNum = Array.from(minifigQuantities.keys()).find(fig => key.startsWith(`${inventory.set_num}_${fig}_`));
+    if (figNum) {
+      result.minifigPartsOwned[key] = owned;
+    } else {
+      result.droppedEntries++;
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Strip inventory rows down to the fields that define a part list
+ */
+export function toInventoryLines(parts: InventoryLine[]): InventoryLine[] {
+  return parts.map(({ part_num, color_id, quantity, is_spare }) => ({ part_num, color_id, quantity, is_spare: !!is_spare }));
+}
+
+/**
+ * Catalog rows for a pinned part list, with the images of the current rows
+ * of the same part and color where there are any
+ */
+export function toPinnedParts(lines: InventoryLine[], currentParts: InventoryPart[]): InventoryPart[] {
+  const images = new Map<string, string>();
+  currentParts.forEach(part => images.set(`${part.part_num}_${part.color_id}`, part.img_url));
+  const inventoryId = currentParts[0]?.inventory_id ?? 0;
+
+  return lines.map(line => ({
+    ...line,
+    inventory_id: inventoryId,
+    img_url: images.get(`${line.part_num}_${line.color_id}`) || ''
+  }));
+}
+
+/**
+ * Order-independent hash of a part list (FNV-1a over the sorted lines)
+ */
+export function fingerprintInventoryParts(parts: InventoryLine[]): string {
+  const lines = Array.from(sumQuantities(parts).entries())
+    .map(([key, { quantity }]) => `${key}:${quantity}`)
+    .sort();
+
+  let hash = 0x811c9dc5;
+  const text = lines.join('|');
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${lines.length}-${(hash >>> 0).toString(16)}`;
+}
+
+/**
+ * Compare two snapshots of the same tracked set
+ */
+export function diffSetSnapshots(previous: SetCatalogSnapshot, current: SetCatalogSnapshot): CatalogSetChange {
+  const parts = diffInventoryParts(previous.parts, current.parts);
+
+  const renamedParts: CatalogPartRename[] = [];
+  Object.entries(current.partNames).forEach(([partNum, newName]) => {
+    const previousName = previous.partNames[partNum];
+    if (previousName !== undefined && previousName !== newName) {
+      renamedParts.push({ part_num: partNum, previousName, newName });
+    }
+  });
+
+  return {
+    set_num: current.set_num,
+    version: current.version,
+    name: current.name || previous.name,
+    addedParts: parts.added,
+    removedParts: parts.removed,
+    changedParts: parts.changed,
+    renamedParts,
+    newVersions: current.versions.filter(version => !previous.versions.includes(version)),
+    removedVersions: previous.versions.filter(version => !current.versions.includes(version))
+  };
+}
+
+/**
+ * Whether a set change report contains anything
+ */
+export function hasSetChanges(change: CatalogSetChange): boolean {
+  return change.addedParts.length > 0
+    || change.removedParts.length > 0
+    || change.changedParts.length > 0
+    || change.renamedParts.length > 0
+    || change.newVersions.length > 0
+    || change.removedVersions.length > 0;
+}
@@ -0,0 +1,33 @@
+import { GlobalSettings, InventoryStatus, UserInventory } from '../models/models';
+
+export const INVENTORY_STATUS_LABELS: Record<InventoryStatus, string> = {
+  'sealed': 'Sealed',
+  'built': 'Built',
+  'on-display': 'On display',
+  'disassembled': 'Disassembled',
+  'sorting': 'Sorting',
+  'in-storage': 'In storage',
+  'sold': 'Sold'
+};
+
+export const INVENTORY_STATUSES = Object.keys(INVENTORY_STATUS_LABELS) as InventoryStatus[];
+
+// Sealed sets are complete by definition and sold ones are gone
+export const DEFAULT_MISSING_PARTS_EXCLUDED_STATUSES: InventoryStatus[] = ['sealed', 'sold'];
+
+export function getMissingPartsExcludedStatuses(settings: GlobalSettings): InventoryStatus[] {
+  return settings.missingPartsExcludedStatuses ?? DEFAULT_MISSING_PARTS_EXCLUDED_STATUSES;
+}
+
+export function getInventoryStatusLabel(inventory: UserInventory): string {
+  return inventory.status ? INVENTORY_STATUS_LABELS[inventory.status] : 'No status';
+}
+
+/**
+ * Whether an inventory matches a status filter: '' matches every inventory,
+ * 'none' the ones without a status
+ */
+export function matchesStatusFilter(inventory: UserInventory, filter: InventoryStatus | 'none' | ''): boolean {
+  if (!filter) return true;
+  return filter === 'none' ? !inventory.status : inventory.status === filter;
+}
@@ -0,0 +1,38 @@
+import { InventoryLineNote, UserInventory } from '../models/models';
+
+/**
+ * Tags from comma separated input, trimmed and without duplicates
+ */
+export function parseTags(input: string): string[] {
+  const tags: string[] = [];
+  input.split(',').forEach(tag => {
+    const trimmed = tag.trim();
+    if (trimmed && !tags.some(existing => existing.toLowerCase() === trimmed.toLowerCase())) {
+      tags.push(trimmed);
+    }
+  });
+  return tags;
+}
+
+/**
+ * Every tag used on a line of the given inventories, sorted by name
+ */
+export function collectLineTags(inventories: UserInventory[]): string[] {
+  const tags = new globalThis.Set<string>();
+  inventories.forEach(inventory =>
+    Object.values(inventory.lineNotes || {}).forEach(lineNote => lineNote.tags?.forEach(tag => tags.add(tag))));
+  return Array.from(tags).sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Whether the note or tags of a line contain a lowercase search term
+ */
+export function lineNoteMatches(lineNote: InventoryLineNote | undefined, term: string): boolean {
+  if (!lineNote) return false;
+  return !!lineNote.note?.toLowerCase().includes(term)
+    || !!lineNote.tags?.some(tag => tag.toLowerCase().includes(term));
+}
+
+export function hasLineTag(lineNote: InventoryLineNote | undefined, tag: string): boolean {
+  return !!lineNote?.tags?.some(existing => existing.toLowerCase() === tag.toLowerCase());
+}
@@ -0,0 +1,49 @@
+/**
+ * Small least-recently-used cache built on Map insertion order
+ */
+export class LRUCache<K, V> {
+  private entries = new Map<K, V>();
+
+  constructor(private readonly maxSize: number) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  has(key: K): boolean {
+    return this.entries.has(key);
+  }
+
+  /**
+   * Get a value and mark it as most recently used
+   */
+  get(key: K): V | undefined {
+    if (!this.entries.has(key)) return undefined;
+
+    const value = this.entries.get(key)!;
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    return value;
+  }
+
+  /**
+   * Store a value, evicting the least recently used entry when full
+   */
+  set(key: K, value: V): void {
+    if (this.entries.has(key)) {
+      this.entries.delete(key);
+    } else if (this.entries.size >= this.maxSize) {
+      const oldestKey = this.entries.keys().next().value as K;
+      this.entries.delete(oldestKey);
+    }
+    this.entries.set(key, value);
+  }
+
+  delete(key: K): boolean {
+    return this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
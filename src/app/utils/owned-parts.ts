@@ -0,0 +1,33 @@
+import { AppState } from '../models/models';
+import { getPartSubstitute } from './part-substitutes';
+
+/**
+ * Every part the user owns, keyed by `${part_num}_${color_id}`: owned parts
+ * and spares of tracked sets, substitutes owned in their place, owned
+ * minifigure parts and loose parts
+ */
+export function collectOwnedParts(state: AppState): Map<string, number> {
+  const owned = new Map<string, number>();
+  const add = (key: string, quantity: number) => {
+    if (quantity > 0) owned.set(key, (owned.get(key) || 0) + quantity);
+  };
+
+  state.userInventories.forEach(inventory => {
+    Object.entries(inventory.partsOwned || {}).forEach(([key, quantity]) =>
+      add(key.startsWith('spare_') ? key.slice('spare_'.length) : key, quantity));
+
+    // A substitute is owned in the color of the line it stands in for
+    Object.keys(inventory.partSubstitutes || {}).forEach(key => {
+      const substitute = getPartSubstitute(inventory, key)!;
+      add(`${substitute.part_num}${key.slice(key.lastIndexOf('_'))}`, substitute.quantity);
+    });
+
+    // Keyed by `${set_num}_${fig_num}_${part_num}_${color_id}`; set and minifig numbers contain no underscores
+    Object.entries(inventory.minifigPartsOwned || {}).forEach(([key, quantity]) =>
+      add(key.split('_').slice(2).join('_'), quantity));
+  });
+
+  Object.entries(state.looseParts || {}).forEach(([key, quantity]) => add(key, quantity));
+
+  return owned;
+}
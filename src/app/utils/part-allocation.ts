@@ -0,0 +1,147 @@
+import { AppState, UserInventory } from '../models/models';
+
+/**
+ * Claim of one tracked inventory on a part/color and what it was assigned
+ */
+export interface PartAllocationShare {
+  inventoryId: string;
+  claimed: number; // Owned quantity recorded in the set, spares included
+  allocated: number;
+}
+
+/**
+ * A part/color whose recorded quantities add up to more than the user owns
+ */
+export interface PartAllocationConflict {
+  key: string; // `${part_num}_${color_id}`
+  part_num: string;
+  color_id: number;
+  stock: number;
+  claimed: number;
+  shares: PartAllocationShare[];
+}
+
+/**
+ * Owned quantities of every tracked inventory after sharing the global stock
+ * between them by priority
+ */
+export interface PartAllocation {
+  partsOwned: Map<string, Record<string, number>>; // Inventory id -> allocated quantity per part storage key
+  conflicts: PartAllocationConflict[];
+  overAllocatedInventoryIds: globalThis.Set<string>;
+}
+
+function getPhysicalKey(storageKey: string): string {
+  return storageKey.startsWith('spare_') ? storageKey.slice('spare_'.length) : storageKey;
+}
+
+/**
+ * Tracked inventories in allocation priority order; inventories missing from
+ * the saved order follow in the order they were added
+ */
+export function getAllocationOrder(state: AppState): UserInventory[] {
+  const order = state.allocationOrder || [];
+  const rank = (inventory: UserInventory) => {
+    const index = order.indexOf(inventory.id);
+    return index === -1 ? order.length : index;
+  };
+  return state.userInventories
+    .map((inventory, index) => ({ inventory, index }))
+    .sort((a, b) => rank(a.inventory) - rank(b.inventory) || a.index - b.index)
+    .map(({ inventory }) => inventory);
+}
+
+/**
+ * Quantity of each part/color claimed by each inventory, spares included
+ */
+function getClaims(inventories: UserInventory[]): Map<string, Map<string, number>> {
+  const claims = new Map<string, Map<string, number>>(); // Physical key -> inventory id -> quantity
+  inventories.forEach(inventory => {
+    Object.entries(inventory.partsOwned || {}).forEach(([storageKey, quantity]) => {
+      if (!quantity) return;
+      const key = getPhysicalKey(storageKey);
+      const byInventory = claims.get(key) || new Map<string, number>();
+      byInventory.set(inventory.id, (byInventory.get(inventory.id) || 0) + quantity);
+      claims.set(key, byInventory);
+    });
+  });
+  return claims;
+}
+
+/**
+ * Owned quantity of a part/color: the recorded stock, or else the largest
+ * quantity any single set claims, assuming the sets share the same parts
+ */
+export function getPartStock(state: AppState, key: string, claims?: Map<string, number>): number {
+  const stock = state.partStock?.[key];
+  if (stock !== undefined) return stock;
+  return Math.max(0, ...Array.from(claims?.values() || []));
+}
+
+/**
+ * Share the stock of every part/color between the tracked inventories in
+ * priority order. Sets whose recorded quantities cannot all be covered are
+ * over-allocated.
+ */
+export function allocateParts(state: AppState): PartAllocation {
+  const inventories = getAllocationOrder(state);
+  const claims = getClaims(inventories);
+  const allocation: PartAllocation = {
+    partsOwned: new Map(inventories.map(inventory => [inventory.id, {}])),
+    conflicts: [],
+    overAllocatedInventoryIds: new globalThis.Set<string>()
+  };
+
+  const remaining = new Map<string, number>();
+  claims.forEach((byInventory, key) => remaining.set(key, getPartStock(state, key, byInventory)));
+
+  const shares = new Map<string, PartAllocationShare[]>();
+  inventories.forEach(inventory => {
+    const allocated = allocation.partsOwned.get(inventory.id)!;
+
+    // Regular lines are served before spares
+    const entries = Object.entries(inventory.partsOwned || {})
+      .filter(([, quantity]) => quantity > 0)
+      .sort(([a], [b]) => Number(a.startsWith('spare_')) - Number(b.startsWith('spare_')));
+
+    entries.forEach(([storageKey, claimed]) => {
+      const key = getPhysicalKey(storageKey);
+      const available = remaining.get(key) || 0;
+      const assigned = Math.min(claimed, available);
+      allocated[storageKey] = assigned;
+      remaining.set(key, available - assigned);
+
+      const keyShares = shares.get(key) || [];
+      const share = keyShares.find(s => s.inventoryId === inventory.id);
+      if (share) {
+        share.claimed += claimed;
+        share.allocated += assigned;
+      } else {
+        keyShares.push({ inventoryId: inventory.id, claimed, allocated: assigned });
+      }
+      shares.set(key, keyShares);
+    });
+  });
+
+  shares.forEach((keyShares, key) => {
+    const claimed = keyShares.reduce((total, share) => total + share.claimed, 0);
+    const stock = getPartStock(state, key, claims.get(key));
+    if (claimed <= stock) return;
+
+    const separator = key.lastIndexOf('_');
+    allocation.conflicts.push({
+      key,
+      part_num: key.slice(0, separator),
+      color_id: Number(key.slice(separator + 1)),
+      stock,
+      claimed,
+      shares: keyShares
+    });
+    keyShares
+      .filter(share => share.allocated < share.claimed)
+      .forEach(share => allocation.overAllocatedInventoryIds.add(share.inventoryId));
+  });
+
+  allocation.conflicts.sort((a, b) => (b.claimed - b.stock) - (a.claimed - a.stock) || a.key.localeCompare(b.key));
+  return allocation;
+}
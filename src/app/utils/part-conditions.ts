@@ -0,0 +1,121 @@
+import {
+  GlobalSettings, PartCondition, PartConditionCounts, QuantityChange, SubstituteRelationshipType, UserInventory
+} from '../models/models';
+import { getSubstituteQuantity } from './part-substitutes';
+
+export const PART_CONDITION_LABELS: Record<PartCondition, string> = {
+  new: 'New',
+  used: 'Used',
+  damaged: 'Damaged',
+  yellowed: 'Yellowed'
+};
+
+export const PART_CONDITIONS = Object.keys(PART_CONDITION_LABELS) as PartCondition[];
+
+export const DEFAULT_ACCEPTABLE_PART_CONDITIONS: PartCondition[] = ['new', 'used'];
+
+// Worst first: when the owned quantity drops below the recorded conditions,
+// these are kept so progress is not overstated
+const CONDITION_TRIM_ORDER: PartCondition[] = ['damaged', 'yellowed', 'used', 'new'];
+
+export function getAcceptablePartConditions(settings: GlobalSettings): PartCondition[] {
+  return settings.acceptablePartConditions ?? DEFAULT_ACCEPTABLE_PART_CONDITIONS;
+}
+
+/**
+ * Recorded conditions of an owned line, limited to its owned quantity
+ */
+export function getPartConditionCounts(inventory: UserInventory, storageKey: string): PartConditionCounts {
+  const recorded = inventory.partConditions?.[storageKey];
+  return recorded ? trimPartConditions(recorded, inventory.partsOwned[storageKey] || 0) : {};
+}
+
+function trimPartConditions(recorded: PartConditionCounts, owned: number): PartConditionCounts {
+  let remaining = owned;
+  const counts: PartConditionCounts = {};
+  CONDITION_TRIM_ORDER.forEach(condition => {
+    const quantity = Math.min(recorded[condition] || 0, remaining);
+    if (quantity > 0) {
+      counts[condition] = quantity;
+      remaining -= quantity;
+    }
+  });
+  return counts;
+}
+
+function countParts(counts: PartConditionCounts): number {
+  return PART_CONDITIONS.reduce((total, condition) => total + (counts[condition] || 0), 0);
+}
+
+/**
+ * The recorded conditions a line keeps once its owned quantity changes to
+ * `owned`, as the condition fields of the action changing it. Empty when
+ * they all still fit.
+ */
+export function getConditionChange(
+  inventory: UserInventory,
+  storageKey: string,
+  owned: number
+): Pick<QuantityChange, 'previousConditions' | 'newConditions'> {
+  const recorded = inventory.partConditions?.[storageKey];
+  if (!recorded) return {};
+
+  const kept = trimPartConditions(recorded, owned);
+  return countParts(kept) === countParts(recorded) ? {} : { previousConditions: recorded, newConditions: kept };
+}
+
+/**
+ * Recorded conditions with those of one line replaced; empty counts clear the line
+ */
+export function setPartConditions(
+  partConditions: Record<string, PartConditionCounts> | undefined,
+  storageKey: string,
+  counts: PartConditionCounts
+): Record<string, PartConditionCounts> {
+  const updated = { ...partConditions };
+  if (countParts(counts) > 0) {
+    updated[storageKey] = counts;
+  } else {
+    delete updated[storageKey];
+  }
+  return updated;
+}
+
+/**
+ * Owned parts of a line in conditions that do not count towards progress
+ */
+export function getUnacceptableQuantity(inventory: UserInventory, storageKey: string, acceptable: PartCondition[]): number {
+  const counts = getPartConditionCounts(inventory, storageKey);
+  return PART_CONDITIONS
+    .filter(condition => !acceptable.includes(condition))
+    .reduce((total, condition) => total + (counts[condition] || 0), 0);
+}
+
+/**
+ * Parts of a line still needed: the needed quantity less the owned parts in
+ * acceptable conditions and the owned pieces of an accepted substitute.
+ * `owned` is the line's owned quantity unless given, e.g. when parts are
+ * allocated from a shared stock.
+ */
+export function getMissingQuantity(
+  inventory: UserInventory,
+  storageKey: string,
+  needed: number,
+  acceptable: PartCondition[],
+  substituteTypes: SubstituteRelationshipType[],
+  owned = inventory.partsOwned[storageKey] || 0
+): number {
+  const unacceptable = Math.min(owned, getUnacceptableQuantity(inventory, storageKey, acceptable));
+  const substitutes = getSubstituteQuantity(inventory, storageKey, substituteTypes);
+  return Math.max(0, needed - (owned - unacceptable) - substitutes);
+}
+
+/**
+ * Short description of recorded conditions, e.g. "2 used, 1 damaged"
+ */
+export function formatPartConditionCounts(counts: PartConditionCounts): string {
+  return PART_CONDITIONS
+    .filter(condition => counts[condition])
+    .map(condition => `${counts[condition]} ${PART_CONDITION_LABELS[condition].toLowerCase()}`)
+    .join(', ');
+}
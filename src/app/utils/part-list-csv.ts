@@ -0,0 +1,181 @@
+import { InventoryLine } from '../models/models';
+import { parseCSVHeader, parseCSVLine } from '../workers/csv-parser';
+
+/**
+ * One part/color line of an imported or exported part list
+ */
+export interface PartListLine {
+  part_num: string;
+  color_id: number;
+  quantity: number;
+  is_spare?: boolean;
+}
+
+/**
+ * Lines read from a part list CSV, with the rows that could not be used
+ */
+export interface PartListParseResult {
+  lines: PartListLine[];
+  errors: string[]; // e.g. "Line 4: quantity is not a number"
+}
+
+// Accepted header names per column, lower-cased with spaces and underscores removed
+const COLUMN_ALIASES: Record<keyof PartListLine, string[]> = {
+  part_num: ['part', 'partnum', 'partno', 'partnumber', 'design', 'designid'],
+  color_id: ['color', 'colorid', 'colour', 'colourid'],
+  quantity: ['quantity', 'qty', 'count'],
+  is_spare: ['isspare', 'spare']
+};
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[\s_#-]/g, '');
+}
+
+/**
+ * Parse a part list CSV such as the Rebrickable export (Part,Color,Quantity,Is Spare).
+ * Without a recognizable header the columns are read as part, color, quantity;
+ * a header without a color column is rejected.
+ */
+export function parsePartListCsv(csv: string): PartListParseResult {
+  const rows = csv.replace(/\r\n/g, '\n').replace(/\r/g, '\n').split('\n');
+  const result: PartListParseResult = { lines: [], errors: [] };
+
+  const firstRow = rows.findIndex(row => row.trim());
+  if (firstRow === -1) return result;
+
+  const headers = parseCSVHeader(rows[firstRow]).map(normalizeHeader);
+  const findColumn = (field: keyof PartListLine) => headers.findIndex(header => COLUMN_ALIASES[field].includes(header));
+  const hasHeader = findColumn('part_num') !== -1 && findColumn('quantity') !== -1;
+  if (hasHeader && findColumn('color_id') === -1) {
+    result.errors.push(`Line ${firstRow + 1}: the header has no color column, so the file was not read`);
+    return result;
+  }
+
+  const columns = hasHeader
+    ? { part_num: findColumn('part_num'), color_id: findColumn('color_id'), quantity: findColumn('quantity'), is_spare: findColumn('is_spare') }
+    : { part_num: 0, color_id: 1, quantity: 2, is_spare: -1 };
+
+  for (let i = hasHeader ? firstRow + 1 : firstRow; i < rows.length; i++) {
+    if (!rows[i].trim()) continue;
+
+    const values = parseCSVLine(rows[i]).map(value => value.trim());
+    const partNum = values[columns.part_num];
+    const colorId = Number(values[columns.color_id]);
+    const quantity = Number(values[columns.quantity]);
+
+    if (!partNum) {
+      result.errors.push(`Line ${i + 1}: missing part number`);
+    } else if (!values[columns.color_id] || !Number.isInteger(colorId)) {
+      result.errors.push(`Line ${i + 1}: color "${values[columns.color_id]}" is not a color id`);
+    } else if (!Number.isInteger(quantity) || quantity < 0) {
+      result.errors.push(`Line ${i + 1}: quantity "${values[columns.quantity]}" is not a whole number`);
+    } else {
+      const spare = columns.is_spare === -1 ? '' : (values[columns.is_spare] || '').toLowerCase();
+      result.lines.push({
+        part_num: partNum,
+        color_id: colorId,
+        quantity,
+        is_spare: spare === 'true' || spare === 'yes' || spare === '1' || undefined
+      });
+    }
+  }
+
+  return result;
+}
+
+export function escapeCsvValue(value: string | number | boolean): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Write a part list in the Rebrickable CSV layout
+ */
+export function formatPartListCsv(lines: PartListLine[]): string {
+  const rows = lines.map(line =>
+    [line.part_num, line.color_id, line.quantity, line.is_spare ? 'True' : 'False'].map(escapeCsvValue).join(','));
+  return ['Part,Color,Quantity,Is Spare', ...rows].join('\n') + '\n';
+}
+
+/**
+ * Turn quantities keyed by `${part_num}_${color_id}` (optionally prefixed with
+ * `spare_`) into part list lines, skipping zero quantities
+ */
+export function toPartListLines(quantities: Record<string, number>): PartListLine[] {
+  return Object.entries(quantities)
+    .filter(([, quantity]) => quantity > 0)
+    .map(([key, quantity]) => {
+      const is_spare = key.startsWith('spare_');
+      const baseKey = is_spare ? key.slice('spare_'.length) : key;
+      const separator = baseKey.lastIndexOf('_');
+      return {
+        part_num: baseKey.slice(0, separator),
+        color_id: Number(baseKey.slice(separator + 1)),
+        quantity,
+        is_spare: is_spare || undefined
+      };
+    });
+}
+
+/**
+ * Sum lines of the same part, color and spare flag
+ */
+export function mergePartListLines(lines: PartListLine[]): PartListLine[] {
+  const merged = new Map<string, PartListLine>();
+  lines.forEach(line => {
+    const key = `${line.is_spare ? 'spare_' : ''}${line.part_num}_${line.color_id}`;
+    const existing = merged.get(key);
+    if (existing) {
+      existing.quantity += line.quantity;
+    } else {
+      merged.set(key, { ...line });
+    }
+  });
+  return Array.from(merged.values());
+}
+
+/**
+ * Owned quantities an imported part list gives a set, with what did not fit
+ */
+export interface PartListMatch {
+  owned: Record<string, number>; // Part storage key -> quantity from the list, at most what the set needs
+  unmatched: PartListLine[]; // Part/colors the set does not contain
+  excess: PartListLine[]; // Quantities beyond what the set needs
+}
+
+/**
+ * Fit imported lines to a set's part lines. Each line fills the regular or
+ * spare line its spare flag names first, and the rest goes to the other one.
+ */
+export function matchPartListToSet(lines: PartListLine[], setLines: InventoryLine[]): PartListMatch {
+  const needed = new Map<string, number>();
+  setLines.forEach(line => {
+    const key = `${line.is_spare ? 'spare_' : ''}${line.part_num}_${line.color_id}`;
+    needed.set(key, (needed.get(key) || 0) + line.quantity);
+  });
+
+  const match: PartListMatch = { owned: {}, unmatched: [], excess: [] };
+  mergePartListLines(lines).forEach(line => {
+    const baseKey = `${line.part_num}_${line.color_id}`;
+    const keys = line.is_spare ? [`spare_${baseKey}`, baseKey] : [baseKey, `spare_${baseKey}`];
+    if (!keys.some(key => needed.has(key))) {
+      match.unmatched.push(line);
+      return;
+    }
+
+    let remaining = line.quantity;
+    keys.forEach(key => {
+      const free = (needed.get(key) || 0) - (match.owned[key] || 0);
+      const quantity = Math.min(remaining, free);
+      if (quantity > 0) {
+        match.owned[key] = (match.owned[key] || 0) + quantity;
+        remaining -= quantity;
+      }
+    });
+    if (remaining > 0) {
+      match.excess.push({ ...line, quantity: remaining });
+    }
+  });
+
+  return match;
+}
@@ -0,0 +1,50 @@
+import { GlobalSettings, PartSubstitute, SubstituteRelationshipType, UserInventory } from '../models/models';
+
+export const SUBSTITUTE_RELATIONSHIP_LABELS: Record<SubstituteRelationshipType, string> = {
+  M: 'Alternate molds',
+  A: 'Alternates',
+  P: 'Printed / unprinted',
+  T: 'Patterned / plain'
+};
+
+export const DEFAULT_SUBSTITUTE_RELATIONSHIP_TYPES: SubstituteRelationshipType[] = ['M', 'A'];
+
+/**
+ * Relationship types accepted for an inventory: its own override, else the global setting
+ */
+export function getSubstituteRelationshipTypes(
+  inventory: UserInventory | null | undefined,
+  settings: Pick<GlobalSettings, 'substituteRelationshipTypes'>
+): SubstituteRelationshipType[] {
+  return inventory?.substituteRelationshipTypes
+    ?? settings.substituteRelationshipTypes
+    ?? DEFAULT_SUBSTITUTE_RELATIONSHIP_TYPES;
+}
+
+/**
+ * Related part recorded for a line, if any. Older states recorded only its
+ * part number, with no pieces owned.
+ */
+export function getPartSubstitute(inventory: UserInventory, storageKey: string): PartSubstitute | undefined {
+  const substitute = inventory.partSubstitutes?.[storageKey];
+  return typeof substitute === 'string' ? { part_num: substitute, quantity: 0 } : substitute;
+}
+
+/**
+ * Whether a recorded substitute is of a relationship type that is still accepted
+ */
+export function isSubstituteAccepted(substitute: PartSubstitute, accepted: SubstituteRelationshipType[]): boolean {
+  return !!substitute.rel_type && accepted.includes(substitute.rel_type);
+}
+
+/**
+ * Owned pieces of a line's substitute that count towards the line
+ */
+export function getSubstituteQuantity(
+  inventory: UserInventory,
+  storageKey: string,
+  accepted: SubstituteRelationshipType[]
+): number {
+  const substitute = getPartSubstitute(inventory, storageKey);
+  return substitute && isSubstituteAccepted(substitute, accepted) ? substitute.quantity : 0;
+}
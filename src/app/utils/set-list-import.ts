@@ -0,0 +1,126 @@
+import { PartialSet } from '../models/models';
+import { parseCSVHeader, parseCSVLine } from '../workers/csv-parser';
+
+/**
+ * One set named in an imported set list
+ */
+export interface SetListEntry {
+  line: number; // 1-based line of the list
+  input: string; // Set number as written, e.g. "10179" or "10179-1"
+  quantity: number; // Copies to track
+  version?: number; // Inventory version given by the list
+}
+
+/**
+ * Entries read from a set list, with the rows that could not be used
+ */
+export interface SetListParseResult {
+  entries: SetListEntry[];
+  errors: string[];
+}
+
+// Accepted header names per column, lower-cased with spaces and underscores removed
+const COLUMN_ALIASES = {
+  set_num: ['setnumber', 'setnum', 'setno', 'set', 'number'],
+  variant: ['variant'],
+  quantity: ['quantity', 'qty', 'qtyowned', 'owned'],
+  version: ['inventoryver', 'inventoryversion', 'version']
+};
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[\s_#-]/g, '');
+}
+
+/**
+ * Parse a set list: a Rebrickable set list CSV (Set Number,Quantity,...,Inventory ver),
+ * a Brickset collection CSV (Number,Variant,...,Qty owned) or set numbers
+ * pasted one per line or separated by commas or spaces.
+ */
+export function parseSetList(text: string): SetListParseResult {
+  const rows = text.replace(/\r\n/g, '\n').replace(/\r/g, '\n').split('\n');
+  const result: SetListParseResult = { entries: [], errors: [] };
+
+  const firstRow = rows.findIndex(row => row.trim());
+  if (firstRow === -1) return result;
+
+  const headers = parseCSVHeader(rows[firstRow]).map(normalizeHeader);
+  const findColumn = (field: keyof typeof COLUMN_ALIASES) => headers.findIndex(header => COLUMN_ALIASES[field].includes(header));
+  const columns = {
+    set_num: findColumn('set_num'),
+    variant: findColumn('variant'),
+    quantity: findColumn('quantity'),
+    version: findColumn('version')
+  };
+
+  // Without a recognizable header every token is a set number
+  if (columns.set_num === -1) {
+    rows.forEach((row, index) => {
+      row.split(/[\s,;]+/).filter(token => token).forEach(input => {
+        result.entries.push({ line: index + 1, input, quantity: 1 });
+      });
+    });
+    return result;
+  }
+
+  for (let i = firstRow + 1; i < rows.length; i++) {
+    if (!rows[i].trim()) continue;
+
+    const values = parseCSVLine(rows[i]).map(value => value.trim());
+    const number = values[columns.set_num];
+    const variant = columns.variant === -1 ? '' : values[columns.variant];
+    const quantity = columns.quantity === -1 || !values[columns.quantity] ? 1 : Number(values[columns.quantity]);
+    const version = columns.version === -1 || !values[columns.version] ? undefined : Number(values[columns.version]);
+
+    if (!number) {
+      result.errors.push(`Line ${i + 1}: missing set number`);
+    } else if (!Number.isInteger(quantity) || quantity < 0) {
+      result.errors.push(`Line ${i + 1}: quantity "${values[columns.quantity]}" is not a whole number`);
+    } else if (version !== undefined && (!Number.isInteger(version) || version < 1)) {
+      result.errors.push(`Line ${i + 1}: inventory version "${values[columns.version]}" is not a version number`);
+    } else if (quantity > 0) {
+      result.entries.push({
+        line: i + 1,
+        input: variant && !number.includes('-') ? `${number}-${variant}` : number,
+        quantity,
+        version
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Catalog sets by full set number and by the number without its variant suffix
+ */
+export interface SetNumberIndex {
+  bySetNum: Map<string, PartialSet>;
+  byBaseNumber: Map<string, PartialSet[]>;
+}
+
+export function indexSetNumbers(sets: PartialSet[]): SetNumberIndex {
+  const index: SetNumberIndex = { bySetNum: new Map(), byBaseNumber: new Map() };
+  sets.forEach(set => {
+    const setNum = set.set_num.trim().toLowerCase();
+    index.bySetNum.set(setNum, set);
+
+    const separator = setNum.lastIndexOf('-');
+    const baseNumber = separator === -1 ? setNum : setNum.slice(0, separator);
+    index.byBaseNumber.set(baseNumber, [...(index.byBaseNumber.get(baseNumber) || []), set]);
+  });
+  return index;
+}
+
+/**
+ * Catalog sets a listed number may mean: the exact set, or every variant of
+ * a number given without its suffix. Empty when the number is unknown.
+ */
+export function findSetCandidates(input: string, index: SetNumberIndex): PartialSet[] {
+  const setNum = input.trim().toLowerCase();
+  const exact = index.bySetNum.get(setNum);
+  if (exact) return [exact];
+  if (setNum.includes('-')) return [];
+
+  return [...(index.byBaseNumber.get(setNum) || [])]
+    .sort((a, b) => a.set_num.localeCompare(b.set_num, undefined, { numeric: true }));
+}
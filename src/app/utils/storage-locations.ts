@@ -0,0 +1,74 @@
+import { StorageLocation } from '../models/models';
+
+/**
+ * A storage location with its position in the location hierarchy
+ */
+export interface StorageLocationEntry {
+  location: StorageLocation;
+  depth: number;
+  path: string;
+}
+
+/**
+ * Full name of a location from the top, e.g. "Garage > Cabinet 1 > Drawer 3"
+ */
+export function getLocationPath(locations: StorageLocation[], locationId: string): string {
+  const byId = new Map(locations.map(location => [location.id, location]));
+  const names: string[] = [];
+  const seen = new globalThis.Set<string>();
+
+  let location = byId.get(locationId);
+  while (location && !seen.has(location.id)) {
+    seen.add(location.id);
+    names.unshift(location.name);
+    location = location.parentId ? byId.get(location.parentId) : undefined;
+  }
+  return names.join(' > ');
+}
+
+/**
+ * Locations in tree order: every location is followed by the ones inside it,
+ * siblings sorted by name
+ */
+export function flattenLocationTree(locations: StorageLocation[]): StorageLocationEntry[] {
+  const ids = new globalThis.Set(locations.map(location => location.id));
+  const children = new Map<string | undefined, StorageLocation[]>();
+  locations.forEach(location => {
+    // Locations whose parent is gone are shown at the top level
+    const parentId = location.parentId && ids.has(location.parentId) ? location.parentId : undefined;
+    children.set(parentId, [...(children.get(parentId) || []), location]);
+  });
+
+  const entries: StorageLocationEntry[] = [];
+  const visited = new globalThis.Set<string>();
+  const visit = (parentId: string | undefined, depth: number, parentPath: string) => {
+    const siblings = (children.get(parentId) || []).sort((a, b) => a.name.localeCompare(b.name));
+    siblings.forEach(location => {
+      if (visited.has(location.id)) return;
+      visited.add(location.id);
+      const path = parentPath ? `${parentPath} > ${location.name}` : location.name;
+      entries.push({ location, depth, path });
+      visit(location.id, depth + 1, path);
+    });
+  };
+  visit(undefined, 0, '');
+  return entries;
+}
+
+/**
+ * Ids of a location and every location nested inside it
+ */
+export function getLocationAndDescendantIds(locations: StorageLocation[], locationId: string): globalThis.Set<string> {
+  const ids = new globalThis.Set<string>([locationId]);
+  let added = true;
+  while (added) {
+    added = false;
+    locations.forEach(location => {
+      if (location.parentId && ids.has(location.parentId) && !ids.has(location.id)) {
+        ids.add(location.id);
+        added = true;
+      }
+    });
+  }
+  return ids;
+}
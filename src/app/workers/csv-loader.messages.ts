@@ -0,0 +1,36 @@
+import { CSVManifest, CatalogEncoding } from '../models/models';
+import { CatalogIndexes } from './csv-parser';
+
+/**
+ * Message protocol between DataService and the catalog loader worker
+ */
+
+export interface CSVLoadRequest {
+  type: 'load' | 'stream'; // 'stream' posts row batches instead of one combined result
+  baseUrl: string; // Absolute URL of the assets/data directory
+  manifest: CSVManifest;
+  encoding?: CatalogEncoding; // Read the compressed table copies when the browser supports it
+  batchSize?: number; // Rows per batch when streaming
+  tables?: string[]; // Keys of the tables to stream (all tables if omitted)
+}
+
+// Sent back for every 'batch' message once its rows have been stored
+export interface CSVBatchAck {
+  type: 'ack';
+  batchId: number;
+}
+
+export interface CSVLoadProgress {
+  phase: string;
+  percentage: number;
+  current?: number;
+  total?: number;
+}
+
+export type CSVLoaderMessage =
+  | { type: 'progress'; progress: CSVLoadProgress }
+  | { type: 'result'; csvData: any; indexes: CatalogIndexes; incompleteTables: string[] }
+  | { type: 'begin'; key: string } // Streaming: first rows of a table are about to arrive
+  | { type: 'batch'; key: string; batchId: number; rows: any[] }
+  | { type: 'complete'; counts: { [key: string]: number }; incompleteTables: string[] } // Tables with files that failed to load
+  | { type: 'error'; message: string };
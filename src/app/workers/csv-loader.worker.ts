@@ -0,0 +1,292 @@
+/// <reference lib="webworker" />
+
+import { CSVManifest } from '../models/models';
+import { CSV_FILE_CONFIGS, CSVFileConfig, CSVStreamParser, buildCatalogIndexes, getCSVFileName } from './csv-parser';
+import { CSVBatchAck, CSVLoadProgress, CSVLoadRequest, CSVLoaderMessage } from './csv-loader.messages';
+
+const DEFAULT_BATCH_SIZE = 2000;
+const GZIP_TIMEOUT = 60000; // Readers restart the timer as data arrives
+
+// Resolvers for batches waiting on the main thread to store them
+const pendingAcks = new Map<number, () => void>();
+let nextBatchId = 1;
+
+/**
+ * Downloads, parses and indexes the Rebrickable CSV catalog off the main thread
+ */
+addEventListener('message', async ({ data }: MessageEvent<CSVLoadRequest | CSVBatchAck>) => {
+  if (data?.type === 'ack') {
+    pendingAcks.get(data.batchId)?.();
+    pendingAcks.delete(data.batchId);
+    return;
+  }
+
+  try {
+    if (data?.type === 'load') {
+      const { csvData, incompleteTables } = await loadCatalog(data.baseUrl, data.manifest, useGzip(data));
+
+      reportProgress({ phase: 'Building search indexes...', percentage: 48 });
+      const indexes = buildCatalogIndexes(csvData);
+
+      send({ type: 'result', csvData, indexes, incompleteTables });
+    } else if (data?.type === 'stream') {
+      const configs = data.tables
+        ? CSV_FILE_CONFIGS.filter(({ key }) => data.tables!.includes(key))
+        : CSV_FILE_CONFIGS;
+      const { counts, incompleteTables } = await streamCatalog(data.baseUrl, data.manifest, configs, useGzip(data), data.batchSize || DEFAULT_BATCH_SIZE);
+      send({ type: 'complete', counts, incompleteTables });
+    }
+  } catch (error) {
+    send({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+});
+
+function send(message: CSVLoaderMessage): void {
+  postMessage(message);
+}
+
+function reportProgress(progress: CSVLoadProgress): void {
+  send({ type: 'progress', progress });
+}
+
+/**
+ * Whether to read the compressed copies of the tables; plain CSV is used when
+ * the manifest has none or the browser cannot decompress them
+ */
+function useGzip(request: CSVLoadRequest): boolean {
+  return request.encoding === 'gzip' && typeof DecompressionStream !== 'undefined';
+}
+
+function countFiles(manifest: CSVManifest, configs: CSVFileConfig[], gzip: boolean): number {
+  if (gzip) return configs.length; // One compressed file per table
+  let totalFiles = 0;
+  configs.forEach(({ baseName }) => {
+    totalFiles += manifest[baseName] || 1;
+  });
+  return totalFiles;
+}
+
+function getTimeout(key: string, partCount: number): number {
+  return partCount === 1 && key === 'inventoryParts' ? 120000 : 60000;
+}
+
+/**
+ * Download and parse every table listed in the manifest, one file at a time so
+ * only a single download is in flight at once
+ */
+async function loadCatalog(baseUrl: string, manifest: CSVManifest, gzip: boolean): Promise<{ csvData: any; incompleteTables: string[] }> {
+  const totalFiles = countFiles(manifest, CSV_FILE_CONFIGS, gzip);
+
+  reportProgress({
+    phase: `Downloading ${totalFiles} CSV files...`,
+    percentage: 25,
+    current: 0,
+    total: totalFiles
+  });
+
+  const csvData: any = {};
+  const incompleteTables: string[] = [];
+  let processedFiles = 0;
+
+  for (const { key, baseName } of CSV_FILE_CONFIGS) {
+    let records: any[] = [];
+
+    const complete = await readTable(baseUrl, key, baseName, manifest[baseName] || 1, gzip, {
+      onRows: async rows => {
+        // Push one at a time rather than push(...rows) to avoid stack overflow on large chunks
+        for (const row of rows) {
+          records.push(row);
+        }
+      },
+      onFileRead: fileName => {
+        processedFiles++;
+        reportProgress({
+          phase: `Processed ${fileName}`,
+          percentage: Math.min(45, Math.round(25 + (processedFiles / totalFiles) * 20)), // 25-45% for downloads and parsing
+          current: processedFiles,
+          total: totalFiles
+        });
+      },
+      onRestart: async () => {
+        records = [];
+      }
+    });
+
+    csvData[key] = records;
+    if (!complete) incompleteTables.push(key);
+    console.log(`Parsed ${key}: ${records.length} records`);
+  }
+
+  reportProgress({ phase: 'CSV processing completed', percentage: 45 });
+  return { csvData, incompleteTables };
+}
+
+/**
+ * Read the files of the given tables incrementally and post parsed rows in
+ * batches. Each batch must be acknowledged before the next one is sent, so at
+ * most one batch plus one network chunk is held in memory at a time.
+ */
+async function streamCatalog(baseUrl: string, manifest: CSVManifest, configs: CSVFileConfig[], gzip: boolean, batchSize: number): Promise<{ counts: { [key: string]: number }; incompleteTables: string[] }> {
+  const totalFiles = countFiles(manifest, configs, gzip);
+  const counts: { [key: string]: number } = {};
+  const incompleteTables: string[] = [];
+  let processedFiles = 0;
+
+  for (const { key, baseName } of configs) {
+    counts[key] = 0;
+    send({ type: 'begin', key });
+
+    let batch: any[] = [];
+    const flushBatch = async () => {
+      if (batch.length === 0) return;
+      const rows = batch;
+      batch = [];
+      counts[key] += rows.length;
+      await sendBatch(key, rows);
+      reportProgress({
+        phase: `Importing ${baseName} (${counts[key].toLocaleString()} rows)...`,
+        percentage: Math.min(75, Math.round(25 + (processedFiles / totalFiles) * 50)), // 25-75% for streaming
+        current: processedFiles,
+        total: totalFiles
+      });
+    };
+
+    const complete = await readTable(baseUrl, key, baseName, manifest[baseName] || 1, gzip, {
+      onRows: async rows => {
+        for (const row of rows) {
+          batch.push(row);
+          if (batch.length >= batchSize) {
+            await flushBatch();
+          }
+        }
+      },
+      onFileRead: async () => {
+        await flushBatch();
+        processedFiles++;
+      },
+      onRestart: async () => {
+        // Clear the rows already stored from the failed compressed download
+        batch = [];
+        counts[key] = 0;
+        send({ type: 'begin', key });
+      }
+    });
+
+    if (!complete) incompleteTables.push(key);
+    console.log(`Streamed ${key}: ${counts[key]} records`);
+  }
+
+  reportProgress({ phase: 'CSV import completed', percentage: 75, current: totalFiles, total: totalFiles });
+  return { counts, incompleteTables };
+}
+
+/**
+ * Callbacks for reading one table
+ */
+interface TableReader {
+  onRows: (rows: any[]) => Promise<void>;
+  onFileRead: (fileName: string) => void | Promise<void>;
+  onRestart: () => Promise<void>; // Discard rows received before a compressed download failed
+}
+
+/**
+ * Read every row of a table from its compressed copy, or from its plain CSV
+ * parts when there is none or it fails. Resolves false when a part could not
+ * be read and the table is missing its rows.
+ */
+async function readTable(baseUrl: string, key: string, baseName: string, partCount: number, gzip: boolean, reader: TableReader): Promise<boolean> {
+  if (gzip) {
+    const fileName = `${baseName}.csv.gz`;
+    try {
+      await streamCSV(new URL(fileName, baseUrl).href, GZIP_TIMEOUT, reader.onRows, true);
+      await reader.onFileRead(fileName);
+      return true;
+    } catch (error) {
+      console.warn(`Failed to read ${fileName}, falling back to plain CSV:`, error);
+      await reader.onRestart();
+    }
+  }
+
+  let complete = true;
+  for (let partNum = 1; partNum <= partCount; partNum++) {
+    const fileName = getCSVFileName(baseName, partNum, partCount);
+
+    try {
+      await streamCSV(new URL(fileName, baseUrl).href, getTimeout(key, partCount), reader.onRows);
+    } catch (error) {
+      console.error(`Failed to load ${fileName}:`, error);
+      complete = false;
+    }
+
+    await reader.onFileRead(fileName);
+  }
+  return complete;
+}
+
+/**
+ * Post a batch of rows and wait until the main thread has stored it
+ */
+function sendBatch(key: string, rows: any[]): Promise<void> {
+  const batchId = nextBatchId++;
+  return new Promise<void>(resolve => {
+    pendingAcks.set(batchId, resolve);
+    send({ type: 'batch', key, batchId, rows });
+  });
+}
+
+/**
+ * Stream a CSV file, handing parsed rows to the callback as each chunk arrives.
+ * Gzip files are decompressed unless the server already did so.
+ */
+function streamCSV(url: string, timeoutMs: number, onRows: (rows: any[]) => Promise<void>, gzip: boolean = false): Promise<void> {
+  return withResponse(url, timeoutMs, async (response, keepAlive) => {
+    const parser = new CSVStreamParser<any>();
+
+    if (!response.body) {
+      if (gzip) {
+        throw new Error(`Cannot decompress ${url} without a streaming response body`);
+      }
+      // Streaming bodies unsupported - fall back to reading the whole file
+      await onRows(parser.push(await response.text()));
+      await onRows(parser.flush());
+      return;
+    }
+
+    let body: ReadableStream<Uint8Array> = response.body;
+    if (gzip && response.headers.get('Content-Encoding') !== 'gzip') {
+      body = body.pipeThrough(new DecompressionStream('gzip'));
+    }
+
+    const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      await onRows(parser.push(value));
+      keepAlive(); // Only abort when the download stalls, not because the file is large
+    }
+    await onRows(parser.flush());
+  });
+}
+
+/**
+ * Fetch a file and read its body, aborting if that takes longer than the
+ * timeout. Readers can call keepAlive() to restart the timer as data arrives.
+ */
+async function withResponse<T>(url: string, timeoutMs: number, read: (response: Response, keepAlive: () => void) => Promise<T>): Promise<T> {
+  const controller = new AbortController();
+  let timer = setTimeout(() => controller.abort(), timeoutMs);
+  const keepAlive = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => controller.abort(), timeoutMs);
+  };
+
+  try {
+    const response = await fetch(url, { signal: controller.signal });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} for ${url}`);
+    }
+    return await read(response, keepAlive);
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,262 @@
+import {
+  Color, Element, InventoryMinifig, InventoryPart, Minifig, Part
+} from '../models/models';
+
+/**
+ * Shared CSV parsing helpers. These are pure functions so they can run both
+ * inside the catalog loader worker and on the main thread as a fallback.
+ */
+
+export interface CSVFileConfig {
+  key: string; // Property name used in the parsed catalog data
+  baseName: string; // File name (without extension) in assets/data
+}
+
+export const CSV_FILE_CONFIGS: CSVFileConfig[] = [
+  { key: 'inventories', baseName: 'inventories' },
+  { key: 'inventoryParts', baseName: 'inventory_parts' },
+  { key: 'inventoryMinifigs', baseName: 'inventory_minifigs' },
+  { key: 'inventorySets', baseName: 'inventory_sets' },
+  { key: 'parts', baseName: 'parts' },
+  { key: 'colors', baseName: 'colors' },
+  { key: 'partCategories', baseName: 'part_categories' },
+  { key: 'partRelationships', baseName: 'part_relationships' },
+  { key: 'elements', baseName: 'elements' },
+  { key: 'minifigs', baseName: 'minifigs' },
+  { key: 'sets', baseName: 'sets' },
+  { key: 'themes', baseName: 'themes' }
+];
+
+/**
+ * Name of one part of a CSV file, which the update script splits when large
+ */
+export function getCSVFileName(baseName: string, partNum: number, partCount: number): string {
+  return partCount === 1 ? `${baseName}.csv` : `${baseName}_part_${partNum}.csv`;
+}
+
+/**
+ * Combined checksum of every file a table is stored in, or null if any file
+ * is missing from the release checksums
+ */
+export function getTableChecksum(checksums: Record<string, string>, baseName: string, partCount: number): string | null {
+  const fileChecksums: string[] = [];
+  for (let partNum = 1; partNum <= partCount; partNum++) {
+    const checksum = checksums[getCSVFileName(baseName, partNum, partCount)];
+    if (!checksum) return null;
+    fileChecksums.push(checksum);
+  }
+  return fileChecksums.join(',');
+}
+
+/**
+ * Lookup maps built from the parsed catalog
+ */
+export interface CatalogIndexes {
+  parts: Map<string, Part>;
+  colors: Map<number, Color>;
+  elements: Map<string, Element>; // Keyed by element_id and by `${part_num}_${color_id}`
+  minifigs: Map<string, Minifig>;
+  inventoryParts: Map<number, InventoryPart[]>; // Keyed by inventory_id
+  inventoryMinifigs: Map<number, InventoryMinifig[]>; // Keyed by inventory_id
+}
+
+// Identifier and text columns that can look numeric (e.g. part 3001, rgb 000000)
+// but are always compared and indexed as strings
+const STRING_COLUMNS = new Set([
+  'part_num', 'child_part_num', 'parent_part_num', 'set_num', 'fig_num', 'element_id', 'design_id', 'name', 'rgb'
+]);
+
+/**
+ * Parse CSV string into typed objects
+ */
+export function parseCSV<T>(csv: string): T[] {
+  // Normalize line endings - convert \r\n and \r to \n
+  const normalizedCsv = csv.replace(/\r\n/g, '\n').replace(/\r/g, '\n');
+  const lines = normalizedCsv.split('\n');
+  if (lines.length < 2) return [];
+
+  const headers = parseCSVHeader(lines[0]);
+  const result: T[] = [];
+
+  for (let i = 1; i < lines.length; i++) {
+    const row = parseCSVRow<T>(headers, lines[i]);
+    if (row) {
+      result.push(row);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Parse the header line, removing all types of whitespace and control characters
+ */
+export function parseCSVHeader(line: string): string[] {
+  return parseCSVLine(line).map(h =>
+    h.trim()
+     .replace(/\r/g, '')
+     .replace(/\n/g, '')
+     .replace(/[\u0000-\u001F\u007F-\u009F]/g, '') // Remove all control characters
+  );
+}
+
+/**
+ * Parse a single data line into a typed object, or null if the line is empty
+ */
+export function parseCSVRow<T>(headers: string[], rawLine: string): T | null {
+  const line = rawLine.trim();
+  if (!line) return null;
+
+  try {
+    const values = parseCSVLine(line);
+    const obj: any = {};
+
+    headers.forEach((header, j) => {
+      const value = values[j]?.trim().replace(/\r/g, '').replace(/\n/g, '');
+      if (value === undefined || value === null || value === '') return;
+
+      if (STRING_COLUMNS.has(header)) {
+        obj[header] = value;
+      } else if (value === 'true' || value === 'false' || value === 'True' || value === 'False') {
+        obj[header] = value.toLowerCase() === 'true';
+      } else if (!isNaN(Number(value)) && value !== '') {
+        obj[header] = Number(value);
+      } else {
+        obj[header] = value;
+      }
+    });
+
+    return Object.keys(obj).length > 0 ? obj as T : null;
+  } catch (e) {
+    console.warn('Error parsing CSV line:', line, e);
+    return null;
+  }
+}
+
+/**
+ * Incremental CSV parser for streamed input. Text chunks are pushed as they
+ * arrive and complete rows are returned; a partial trailing line is kept
+ * until the next chunk (or flush) completes it.
+ */
+export class CSVStreamParser<T> {
+  private headers: string[] | null = null;
+  private remainder = '';
+
+  push(chunk: string): T[] {
+    const lines = (this.remainder + chunk).split(/\r\n|\n|\r/);
+    this.remainder = lines.pop() ?? '';
+    return this.parseLines(lines);
+  }
+
+  flush(): T[] {
+    const lines = this.remainder ? [this.remainder] : [];
+    this.remainder = '';
+    return this.parseLines(lines);
+  }
+
+  private parseLines(lines: string[]): T[] {
+    const rows: T[] = [];
+
+    for (const line of lines) {
+      if (!this.headers) {
+        if (line.trim()) {
+          this.headers = parseCSVHeader(line);
+        }
+        continue;
+      }
+
+      const row = parseCSVRow<T>(this.headers, line);
+      if (row) {
+        rows.push(row);
+      }
+    }
+
+    return rows;
+  }
+}
+
+/**
+ * Parse a single CSV line handling quoted values and commas
+ */
+export function parseCSVLine(line: string): string[] {
+  const result: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  let i = 0;
+
+  while (i < line.length) {
+    const char = line[i];
+    const nextChar = line[i + 1];
+
+    if (char === '"' && inQuotes && nextChar === '"') {
+      // Escaped quote
+      current += '"';
+      i += 2;
+    } else if (char === '"') {
+      // Toggle quote mode
+      inQuotes = !inQuotes;
+      i++;
+    } else if (char === ',' && !inQuotes) {
+      // Field separator
+      result.push(current.trim().replace(/\r/g, '')); // Trim each field value and remove \r
+      current = '';
+      i++;
+    } else {
+      // Regular character
+      current += char;
+      i++;
+    }
+  }
+
+  // Add final field (also trimmed and \r removed)
+  result.push(current.trim().replace(/\r/g, ''));
+  return result;
+}
+
+/**
+ * Build lookup maps for the parsed catalog data
+ */
+export function buildCatalogIndexes(csvData: any): CatalogIndexes {
+  const indexes: CatalogIndexes = {
+    parts: new Map(),
+    colors: new Map(),
+    elements: new Map(),
+    minifigs: new Map(),
+    inventoryParts: new Map(),
+    inventoryMinifigs: new Map()
+  };
+
+  (csvData.parts || []).forEach((part: Part) => {
+    indexes.parts.set(part.part_num, part);
+  });
+
+  (csvData.colors || []).forEach((color: Color) => {
+    indexes.colors.set(color.id, color);
+  });
+
+  (csvData.elements || []).forEach((element: Element) => {
+    indexes.elements.set(element.element_id, element);
+    // Also index by part_num + color_id combination
+    indexes.elements.set(`${element.part_num}_${element.color_id}`, element);
+  });
+
+  (csvData.minifigs || []).forEach((minifig: Minifig) => {
+    indexes.minifigs.set(minifig.fig_num, minifig);
+  });
+
+  (csvData.inventoryParts || []).forEach((part: InventoryPart) => {
+    if (!indexes.inventoryParts.has(part.inventory_id)) {
+      indexes.inventoryParts.set(part.inventory_id, []);
+    }
+    indexes.inventoryParts.get(part.inventory_id)!.push(part);
+  });
+
+  (csvData.inventoryMinifigs || []).forEach((minifig: InventoryMinifig) => {
+    if (!indexes.inventoryMinifigs.has(minifig.inventory_id)) {
+      indexes.inventoryMinifigs.set(minifig.inventory_id, []);
+    }
+    indexes.inventoryMinifigs.get(minifig.inventory_id)!.push(minifig);
+  });
+
+  return indexes;
+}
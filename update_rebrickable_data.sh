@@ -3,7 +3,10 @@
 # Script to download and update Rebrickable CSV data files
 # This script downloads data from rebrickable.com, extracts the files,
 # splits large files into chunks of max 50MB, and creates a manifest
-# showing how many parts each file has been split into
+# showing how many parts each file has been split into, plus the release
+# date and a SHA-256 checksum per file so the app only re-imports the
+# tables that changed. The gzip-compressed downloads are kept next to the
+# CSV files; browsers that support DecompressionStream load those instead.
 
 # Make sure the destination directory exists
 mkdir -p src/assets/data
@@ -11,6 +14,7 @@ mkdir -p src/assets/data
 # Clean up old data files and manifest
 echo "Cleaning up old data files..."
 rm -f src/assets/data/*.csv
+rm -f src/assets/data/*.csv.gz
 rm -f src/assets/data/manifest.json
 echo "Old data files removed."
 
@@ -44,6 +48,15 @@ echo "{" > "$MANIFEST_FILE"
 # Flag to track if we need a comma in JSON
 FIRST_ENTRY=true
 
+# Print the SHA-256 checksum of a file (sha256sum on Linux, shasum on macOS)
+file_checksum() {
+  if command -v sha256sum > /dev/null 2>&1; then
+    sha256sum "$1" | cut -d' ' -f1
+  else
+    shasum -a 256 "$1" | cut -d' ' -f1
+  fi
+}
+
 # Function to split CSV file if it's too large
 split_csv_if_needed() {
   local csv_file="$1"
@@ -140,6 +153,9 @@ for url in "${URLS[@]}"; do
   echo "Extracting $filename to $csv_filename..."
   gunzip -c "$TEMP_DIR/$filename" > "$TEMP_DIR/$csv_filename"
 
+  # Keep the compressed file as well; it is never split
+  cp "$TEMP_DIR/$filename" "src/assets/data/$filename"
+
   echo "Processing $csv_filename..."
 
   # Process the file in temp directory first
@@ -153,6 +169,33 @@ for url in "${URLS[@]}"; do
   echo "Successfully processed $csv_filename"
 done
 
+RELEASE_DATE=$(date -u +%Y-%m-%d)
+
+# Record that every table is also available as <name>.csv.gz
+echo "," >> "$MANIFEST_FILE"
+echo -n "  \"encoding\": \"gzip\"" >> "$MANIFEST_FILE"
+
+# Add the release date and per-file checksums to the manifest
+echo "Computing file checksums..."
+echo "," >> "$MANIFEST_FILE"
+echo "  \"release\": {" >> "$MANIFEST_FILE"
+echo "    \"date\": \"$RELEASE_DATE\"," >> "$MANIFEST_FILE"
+echo "    \"checksums\": {" >> "$MANIFEST_FILE"
+
+FIRST_CHECKSUM=true
+for csv_file in src/assets/data/*.csv; do
+  if [ "$FIRST_CHECKSUM" = true ]; then
+    FIRST_CHECKSUM=false
+  else
+    echo "," >> "$MANIFEST_FILE"
+  fi
+  echo -n "      \"$(basename "$csv_file")\": \"$(file_checksum "$csv_file")\"" >> "$MANIFEST_FILE"
+done
+
+echo "" >> "$MANIFEST_FILE"
+echo "    }" >> "$MANIFEST_FILE"
+echo -n "  }" >> "$MANIFEST_FILE"
+
 # Finalize manifest JSON file
 echo "" >> "$MANIFEST_FILE"
 echo "}" >> "$MANIFEST_FILE"
@@ -164,11 +207,16 @@ echo "Generating manifest file..."
 echo "Manifest created:"
 cat src/assets/data/manifest.json
 
+# Stamp the release into the service worker config so installed apps are told
+# that a new catalog is available (-i.bak keeps sed portable to macOS)
+sed -i.bak "s/\"catalogRelease\": \"[^\"]*\"/\"catalogRelease\": \"$RELEASE_DATE\"/" ngsw-config.json
+rm -f ngsw-config.json.bak
+
 # Clean up temporary files
 echo "Cleaning up temporary files..."
 rm -rf "$TEMP_DIR"
 
 echo "All data files have been updated successfully!"
 echo "Large files have been split into chunks of max 50MB"
-echo "Check manifest.json for file part counts"
+echo "Check manifest.json for file part counts and the release checksums"
 echo "Data source: rebrickable.com"